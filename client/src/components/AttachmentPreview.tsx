@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react';
+import { grpcClient, AttachmentSummary } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+import { formatFileSize } from '../lib/utils';
+
+interface AttachmentPreviewProps {
+  attachment: AttachmentSummary;
+  isOwn?: boolean;
+}
+
+export function AttachmentPreview({ attachment, isOwn }: AttachmentPreviewProps) {
+  const { token } = useAuthStore();
+  const [thumbnailUrl, setThumbnailUrl] = useState<string | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  // Thumbnails need the bearer token, so load them as blobs instead of plain img urls
+  useEffect(() => {
+    if (!token || !attachment.has_thumbnail) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+
+    grpcClient.getAttachmentBlob(token, attachment.id, true).then(blob => {
+      if (!blob || cancelled) return;
+      objectUrl = URL.createObjectURL(blob);
+      setThumbnailUrl(objectUrl);
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [token, attachment.id, attachment.has_thumbnail]);
+
+  const openOriginal = async () => {
+    if (!token || isDownloading) return;
+
+    setIsDownloading(true);
+    const blob = await grpcClient.getAttachmentBlob(token, attachment.id);
+    setIsDownloading(false);
+    if (!blob) return;
+
+    const url = URL.createObjectURL(blob);
+    if (attachment.mime_type.startsWith('image/')) {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  if (attachment.has_thumbnail) {
+    const aspectRatio =
+      attachment.width && attachment.height ? `${attachment.width} / ${attachment.height}` : '4 / 3';
+
+    return (
+      <button
+        type="button"
+        onClick={openOriginal}
+        title={attachment.filename}
+        className="block w-full max-w-[240px] overflow-hidden rounded-lg bg-slate-100"
+        style={{ aspectRatio }}
+      >
+        {thumbnailUrl ? (
+          <img src={thumbnailUrl} alt={attachment.filename} className="w-full h-full object-cover" />
+        ) : (
+          <div className="w-full h-full animate-pulse bg-slate-200" />
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={openOriginal}
+      className={`flex items-center gap-2 w-full text-left px-3 py-2 rounded-lg text-xs ${
+        isOwn ? 'bg-blue-500 hover:bg-blue-400' : 'bg-slate-100 hover:bg-slate-200'
+      }`}
+    >
+      <svg className="w-5 h-5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeWidth={2}
+          d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z"
+        />
+      </svg>
+      <div className="min-w-0">
+        <div className="truncate font-medium">{attachment.filename}</div>
+        <div className={isOwn ? 'text-blue-100' : 'text-slate-500'}>
+          {isDownloading ? 'Downloading...' : formatFileSize(attachment.size_bytes)}
+        </div>
+      </div>
+    </button>
+  );
+}
@@ -1,13 +1,99 @@
 import { useEffect, ReactNode } from 'react';
-import { useAuthStore } from '../store/auth';
+import { useAuthStore, loadAuthFromStorage } from '../store/auth';
 import { grpcClient } from '../lib/api-client';
 
 interface AuthProviderProps {
   children: ReactNode;
 }
 
+// Refresh this long before the access token expires
+const REFRESH_LEAD_MS = 60 * 1000;
+
+let refreshInFlight: Promise<string | null> | null = null;
+
+async function performRefresh(): Promise<string | null> {
+  const { refreshToken, setTokens, logout } = useAuthStore.getState();
+  if (!refreshToken) return null;
+
+  // Another tab may already have rotated the shared refresh token; presenting the
+  // old one again would look like token theft and revoke the session
+  const stored = loadAuthFromStorage();
+  if (stored?.refreshToken && stored.refreshToken !== refreshToken && stored.expiresAt) {
+    setTokens(stored.token, stored.refreshToken, stored.expiresAt);
+    return stored.token;
+  }
+
+  const response = await grpcClient.refreshSession(refreshToken);
+  if (response.success && response.token && response.refreshToken && response.expiresAt) {
+    setTokens(response.token, response.refreshToken, response.expiresAt);
+    return response.token;
+  }
+
+  // Only a definitive rejection ends the session; network errors can be retried later
+  if (response.error !== 'Network error') {
+    logout();
+  }
+  return null;
+}
+
+async function performRefreshWithLock(): Promise<string | null> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return await navigator.locks.request('messaging-auth-refresh', performRefresh);
+  }
+  return performRefresh();
+}
+
+/**
+ * Renews the access token, sharing one request between concurrent callers
+ * and serializing across tabs where the Web Locks API is available
+ */
+export function refreshAccessToken(): Promise<string | null> {
+  if (!refreshInFlight) {
+    refreshInFlight = performRefreshWithLock().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
 export function AuthProvider({ children }: AuthProviderProps) {
-  const { initializeAuth, isInitialized, logout, login, setInitialized } = useAuthStore();
+  const { initializeAuth, isInitialized, logout, login, setInitialized, expiresAt } =
+    useAuthStore();
+
+  // Let API calls transparently retry with a renewed token after a 401
+  useEffect(() => {
+    grpcClient.setTokenRefresher(refreshAccessToken);
+    return () => grpcClient.setTokenRefresher(null);
+  }, []);
+
+  // Renew shortly before expiry so realtime requests using the raw token stay valid
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const delay = Math.max(new Date(expiresAt).getTime() - Date.now() - REFRESH_LEAD_MS, 0);
+    const timeoutId = setTimeout(() => {
+      refreshAccessToken();
+    }, delay);
+    return () => clearTimeout(timeoutId);
+  }, [expiresAt]);
+
+  // Pick up tokens rotated or cleared by other tabs
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== 'messaging_auth') return;
+
+      const stored = loadAuthFromStorage();
+      const state = useAuthStore.getState();
+      if (!stored) {
+        if (state.isLoggedIn) state.logout();
+      } else if (stored.token !== state.token && stored.refreshToken && stored.expiresAt) {
+        state.setTokens(stored.token, stored.refreshToken, stored.expiresAt);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
 
   useEffect(() => {
     async function initAuth() {
@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { grpcClient, ConversationSummary } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+import { useOnlineStore } from '../store/online';
+
+interface ConversationListProps {
+  selectedConversationId?: string;
+  onSelect: (conversation: ConversationSummary) => void;
+}
+
+export function conversationTitle(conversation: ConversationSummary) {
+  if (conversation.type === 'group') {
+    return conversation.name || 'Group';
+  }
+
+  return `@${conversation.counterpart?.username || 'unknown'}`;
+}
+
+function formatTimestamp(value: string) {
+  const date = new Date(value);
+  const now = new Date();
+
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+
+  return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+}
+
+export function ConversationList({ selectedConversationId, onSelect }: ConversationListProps) {
+  const { token, user } = useAuthStore();
+  const { isUserOnline } = useOnlineStore();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
+
+  const loadConversations = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const result = await grpcClient.getConversations(token, 50, 0);
+      setConversations(result.conversations);
+    } catch (_error) {
+      console.error('Failed to load conversations:', _error);
+    } finally {
+      setIsLoading(false);
+      setHasLoaded(true);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  // Refresh the inbox whenever a message arrives, is sent, edited, deleted or read, a thread
+  // changes, or the realtime stream missed too much to replay
+  useEffect(() => {
+    const handleInboxChange = () => {
+      loadConversations();
+    };
+
+    window.addEventListener('new-message', handleInboxChange);
+    window.addEventListener('message-sent', handleInboxChange);
+    window.addEventListener('conversation-updated', handleInboxChange);
+    window.addEventListener('message-edited', handleInboxChange);
+    window.addEventListener('message-deleted', handleInboxChange);
+    window.addEventListener('conversation-read', handleInboxChange);
+    window.addEventListener('realtime-resync', handleInboxChange);
+    return () => {
+      window.removeEventListener('new-message', handleInboxChange);
+      window.removeEventListener('message-sent', handleInboxChange);
+      window.removeEventListener('conversation-updated', handleInboxChange);
+      window.removeEventListener('message-edited', handleInboxChange);
+      window.removeEventListener('message-deleted', handleInboxChange);
+      window.removeEventListener('conversation-read', handleInboxChange);
+      window.removeEventListener('realtime-resync', handleInboxChange);
+    };
+  }, [loadConversations]);
+
+  const handleSelect = (conversation: ConversationSummary) => {
+    setConversations(prev =>
+      prev.map(c => (c.id === conversation.id ? { ...c, unread_count: 0 } : c))
+    );
+    onSelect(conversation);
+  };
+
+  if (!hasLoaded && isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <div className="text-gray-500 text-sm">Loading conversations...</div>
+      </div>
+    );
+  }
+
+  if (conversations.length === 0) {
+    return (
+      <div className="text-center py-6 px-4">
+        <div className="text-sm text-gray-500">No conversations yet</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-2 space-y-1">
+      {conversations.map(conversation => {
+        const { counterpart, last_message } = conversation;
+        const isGroup = conversation.type === 'group';
+        const title = conversationTitle(conversation);
+        const isSelected = conversation.id === selectedConversationId;
+        const isOnline = counterpart ? isUserOnline(counterpart.id) : false;
+        const hasUnread = conversation.unread_count > 0 && !isSelected;
+        const senderPrefix = !last_message
+          ? ''
+          : last_message.sender_id === user?.id
+            ? 'You: '
+            : isGroup
+              ? `${last_message.sender_username}: `
+              : '';
+
+        return (
+          <div
+            key={conversation.id}
+            onClick={() => handleSelect(conversation)}
+            className={`flex items-center p-2 rounded-md cursor-pointer transition-colors ${
+              isSelected ? 'bg-blue-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="relative mr-3">
+              <div
+                className={`w-10 h-10 rounded-full flex items-center justify-center text-white text-sm font-medium ${
+                  isGroup ? 'bg-purple-500' : 'bg-blue-500'
+                }`}
+              >
+                {title.replace('@', '').charAt(0).toUpperCase()}
+              </div>
+              {isOnline && (
+                <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-green-500 rounded-full border-2 border-white"></div>
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center justify-between">
+                <div
+                  className={`text-sm truncate ${hasUnread ? 'font-semibold text-gray-900' : 'font-medium text-gray-800'}`}
+                >
+                  {title}
+                </div>
+                {last_message && (
+                  <div className="text-xs text-gray-400 ml-2 flex-shrink-0">
+                    {formatTimestamp(last_message.created_at)}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center justify-between">
+                <div className={`text-xs truncate ${hasUnread ? 'text-gray-800' : 'text-gray-500'}`}>
+                  {last_message
+                    ? last_message.deleted_at
+                      ? `${senderPrefix}Message deleted`
+                      : `${senderPrefix}${last_message.content || 'Sent an attachment'}`
+                    : isGroup
+                      ? `${conversation.participants.length} members`
+                      : 'No messages yet'}
+                </div>
+                {hasUnread && (
+                  <div className="ml-2 min-w-[1.25rem] h-5 px-1.5 bg-blue-600 text-white text-xs font-medium rounded-full flex items-center justify-center flex-shrink-0">
+                    {conversation.unread_count}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { grpcClient, ConversationSummary } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+import { useOnlineStore } from '../store/online';
+import { MemberPicker } from './MemberPicker';
+
+interface User {
+  id: string;
+  username: string;
+  email: string;
+}
+
+interface GroupMembersPanelProps {
+  conversation: ConversationSummary;
+  onChanged: () => void;
+  onLeft: () => void;
+}
+
+export function GroupMembersPanel({ conversation, onChanged, onLeft }: GroupMembersPanelProps) {
+  const [newMembers, setNewMembers] = useState<User[]>([]);
+  const [error, setError] = useState('');
+  const { token, user } = useAuthStore();
+  const { isUserOnline } = useOnlineStore();
+
+  const isAdmin = conversation.participants.some(
+    participant => participant.id === user?.id && participant.role === 'admin'
+  );
+
+  const handleAddMembers = async () => {
+    if (!token || newMembers.length === 0) return;
+
+    const result = await grpcClient.addGroupMembers(
+      token,
+      conversation.id,
+      newMembers.map(member => member.id)
+    );
+
+    if (result.success) {
+      setNewMembers([]);
+      setError('');
+      onChanged();
+    } else {
+      setError(result.error || 'Failed to add members');
+    }
+  };
+
+  const handleRemove = async (memberId: string) => {
+    if (!token) return;
+
+    const result = await grpcClient.removeGroupMember(token, conversation.id, memberId);
+    if (result.success) {
+      onChanged();
+    } else {
+      setError(result.error || 'Failed to remove member');
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!token) return;
+
+    const result = await grpcClient.leaveGroup(token, conversation.id);
+    if (result.success) {
+      window.dispatchEvent(
+        new CustomEvent('conversation-updated', {
+          detail: { conversationId: conversation.id, change: 'member-left' },
+        })
+      );
+      onLeft();
+    } else {
+      setError(result.error || 'Failed to leave group');
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-slate-200 bg-white space-y-3">
+      <div className="text-xs font-medium uppercase tracking-wide text-gray-500">
+        Members ({conversation.participants.length})
+      </div>
+
+      <div className="space-y-1">
+        {conversation.participants.map(participant => (
+          <div key={participant.id} className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-2">
+              <div
+                className={`w-2 h-2 rounded-full ${
+                  isUserOnline(participant.id) ? 'bg-green-500' : 'bg-gray-300'
+                }`}
+              ></div>
+              <span className="text-gray-800">
+                @{participant.username}
+                {participant.id === user?.id && ' (you)'}
+              </span>
+              {participant.role === 'admin' && (
+                <span className="text-xs text-purple-600 bg-purple-50 px-1.5 rounded">admin</span>
+              )}
+            </div>
+            {isAdmin && participant.id !== user?.id && (
+              <button
+                onClick={() => handleRemove(participant.id)}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <MemberPicker
+        selected={newMembers}
+        excludeIds={conversation.participants.map(participant => participant.id)}
+        onChange={setNewMembers}
+      />
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="flex justify-between">
+        <button onClick={handleLeave} className="text-sm text-red-600 hover:text-red-800">
+          Leave group
+        </button>
+        {newMembers.length > 0 && (
+          <button
+            onClick={handleAddMembers}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Add {newMembers.length} {newMembers.length === 1 ? 'member' : 'members'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,26 @@
+import { useState } from 'react';
 import { useAuthStore } from '../store/auth';
+import { grpcClient } from '../lib/api-client';
+import { SessionsPanel } from './SessionsPanel';
+import { StatusPanel } from './StatusPanel';
 
 export function Header() {
-  const { user, logout } = useAuthStore();
+  const { user, token, logout } = useAuthStore();
+  const [showSessions, setShowSessions] = useState(false);
+  const [showStatus, setShowStatus] = useState(false);
 
   if (!user) return null;
 
+  const handleLogout = async () => {
+    if (token) {
+      // Revoke the session server-side; clear local state even if that fails
+      await grpcClient.logout(token);
+    }
+    setShowSessions(false);
+    setShowStatus(false);
+    logout();
+  };
+
   return (
     <header className="messaging-card messaging-card-hover mb-8">
       <div className="px-6 py-4">
@@ -18,11 +34,27 @@ export function Header() {
               <p className="text-sm text-slate-500">Welcome back, {user.username}</p>
             </div>
           </div>
-          <button onClick={logout} className="messaging-button-secondary text-sm">
-            Sign Out
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setShowStatus(prev => !prev)}
+              className="messaging-button-secondary text-sm"
+            >
+              {showStatus ? 'Hide Status' : 'Status'}
+            </button>
+            <button
+              onClick={() => setShowSessions(prev => !prev)}
+              className="messaging-button-secondary text-sm"
+            >
+              {showSessions ? 'Hide Sessions' : 'Sessions'}
+            </button>
+            <button onClick={handleLogout} className="messaging-button-secondary text-sm">
+              Sign Out
+            </button>
+          </div>
         </div>
       </div>
+      {showStatus && <StatusPanel />}
+      {showSessions && <SessionsPanel />}
     </header>
   );
 }
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { grpcClient } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+
+interface User {
+  id: string;
+  username: string;
+  email: string;
+}
+
+interface MemberPickerProps {
+  selected: User[];
+  excludeIds?: string[];
+  onChange: (users: User[]) => void;
+}
+
+export function MemberPicker({ selected, excludeIds = [], onChange }: MemberPickerProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [results, setResults] = useState<User[]>([]);
+  const { token, user } = useAuthStore();
+
+  // Search users when query changes
+  useEffect(() => {
+    if (!token || !searchQuery.trim()) {
+      setResults([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(async () => {
+      const result = await grpcClient.searchUsers(token, searchQuery.trim(), 5, 0);
+      setResults(result.users);
+    }, 300); // Debounce search
+    return () => clearTimeout(timeoutId);
+  }, [searchQuery, token]);
+
+  const hiddenIds = new Set([...excludeIds, ...selected.map(u => u.id), user?.id]);
+  const visibleResults = results.filter(u => !hiddenIds.has(u.id));
+
+  const handleAdd = (member: User) => {
+    onChange([...selected, member]);
+    setSearchQuery('');
+  };
+
+  const handleRemove = (memberId: string) => {
+    onChange(selected.filter(u => u.id !== memberId));
+  };
+
+  return (
+    <div className="space-y-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map(member => (
+            <span
+              key={member.id}
+              className="inline-flex items-center gap-1 bg-blue-50 text-blue-800 text-xs px-2 py-1 rounded-full"
+            >
+              @{member.username}
+              <button
+                type="button"
+                onClick={() => handleRemove(member.id)}
+                className="text-blue-500 hover:text-blue-700"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={searchQuery}
+        onChange={e => setSearchQuery(e.target.value)}
+        placeholder="Add people by username..."
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {visibleResults.length > 0 && (
+        <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+          {visibleResults.map(result => (
+            <div
+              key={result.id}
+              onClick={() => handleAdd(result)}
+              className="px-3 py-2 text-sm cursor-pointer hover:bg-gray-50"
+            >
+              @{result.username}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
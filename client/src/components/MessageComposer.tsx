@@ -1,60 +1,186 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { MessageList } from './MessageList';
-import { grpcClient } from '../lib/api-client';
+import {
+  grpcClient,
+  ConversationSummary,
+  MessageReaction,
+  MessageQuote,
+  AttachmentSummary,
+  MessageStatus,
+} from '../lib/api-client';
+import { formatFileSize, formatLastSeen, USER_STATUS_LABELS } from '../lib/utils';
+import { realtimeSocket } from '../lib/realtime-socket';
+import { outbox, OutboxMessage } from '../lib/outbox';
 import { useAuthStore } from '../store/auth';
 import { useOnlineStore } from '../store/online';
-import { useTypingStatus } from '../hooks/useTypingStatus';
-
-interface User {
-  id: string;
-  username: string;
-  email: string;
-}
+import { useTypingUsers } from '../hooks/useTypingUsers';
+import { GroupMembersPanel } from './GroupMembersPanel';
+import { conversationTitle } from './ConversationList';
 
 interface Message {
   id: string;
   content: string;
   sender_id: string;
-  recipient_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
   sender_username?: string;
   recipient_username?: string;
+  status?: MessageStatus;
   created_at: number;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reactions?: MessageReaction[];
+  reply_to?: MessageQuote | null;
+  attachments?: AttachmentSummary[];
+  sendState?: 'pending' | 'failed';
+  sendError?: string;
+}
+
+interface PendingAttachment {
+  localId: string;
+  file: File;
+  status: 'uploading' | 'ready' | 'error';
+  attachment?: AttachmentSummary;
+  error?: string;
+}
+
+// Applies an edit to the message itself and to any quotes of it
+function applyEdit(
+  messages: Message[],
+  edited: Pick<Message, 'id' | 'content' | 'edited_at'>
+): Message[] {
+  return messages.map(m => {
+    if (m.id === edited.id) {
+      return { ...m, content: edited.content, edited_at: edited.edited_at };
+    }
+    if (m.reply_to?.id === edited.id) {
+      return { ...m, reply_to: { ...m.reply_to, content: edited.content } };
+    }
+    return m;
+  });
+}
+
+// Turns the message into a tombstone and marks quotes of it as deleted
+function applyDelete(messages: Message[], messageId: string, deletedAt: string): Message[] {
+  return messages.map(m => {
+    if (m.id === messageId) {
+      return { ...m, content: '', deleted_at: deletedAt, reactions: [], attachments: [] };
+    }
+    if (m.reply_to?.id === messageId) {
+      return { ...m, reply_to: { ...m.reply_to, content: '', deleted_at: deletedAt } };
+    }
+    return m;
+  });
+}
+
+// How often typing is refreshed while the user keeps typing
+const TYPING_REFRESH_MS = 3000;
+
+const STATUS_RANK: Record<MessageStatus, number> = { sent: 0, delivered: 1, read: 2 };
+
+// Receipts can arrive out of order, so a status only ever moves forward
+function applyReceipt(messages: Message[], messageIds: string[], status: MessageStatus): Message[] {
+  const ids = new Set(messageIds);
+  return messages.map(m =>
+    ids.has(m.id) && STATUS_RANK[status] > STATUS_RANK[m.status || 'sent'] ? { ...m, status } : m
+  );
+}
+
+// How a message waiting in the outbox shows in the thread
+function fromOutbox(entry: OutboxMessage): Message {
+  return {
+    id: entry.client_id,
+    content: entry.content,
+    sender_id: entry.sender_id,
+    recipient_id: null,
+    conversation_id: entry.conversation_id,
+    sender_username: entry.sender_username,
+    created_at: entry.created_at,
+    reactions: [],
+    reply_to: entry.reply_to,
+    attachments: entry.attachments,
+    sendState: entry.state,
+    sendError: entry.error,
+  };
 }
 
 interface MessageComposerProps {
-  selectedUser: User;
+  conversation: ConversationSummary;
+  focusMessageId?: string | null;
+  onFocusCleared?: () => void;
+  onConversationChanged?: () => void;
+  onLeft?: () => void;
   onBack?: () => void;
   loading?: boolean;
 }
 
 export function MessageComposer({
-  selectedUser,
+  conversation,
+  focusMessageId,
+  onFocusCleared,
+  onConversationChanged,
+  onLeft,
   onBack,
   loading,
 }: MessageComposerProps) {
   const [message, setMessage] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
+  // The user's messages in this conversation the server hasn't confirmed yet
+  const [outgoing, setOutgoing] = useState<OutboxMessage[]>([]);
   const [loadingMessages, setLoadingMessages] = useState(false);
-  const [isTyping, setIsTyping] = useState(false);
+  // Where the oldest loaded message sits, for fetching the page before it
+  const [olderCursor, setOlderCursor] = useState<string | undefined>();
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const loadingOlderRef = useRef(false);
+  const conversationIdRef = useRef(conversation.id);
+  conversationIdRef.current = conversation.id;
+  const [showMembers, setShowMembers] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // When a typing update last went out, or 0 when not typing
+  const typingSentAtRef = useRef(0);
+  const [actionError, setActionError] = useState('');
   const { user, token } = useAuthStore();
-  const { isUserOnline } = useOnlineStore();
+  const { isUserOnline, presence } = useOnlineStore();
+
+  const isGroup = conversation.type === 'group';
+  const title = conversationTitle(conversation);
+  const counterpartId = conversation.counterpart?.id ?? '';
 
   // Get online status from global store
-  const otherUserOnline = isUserOnline(selectedUser.id);
+  const otherUserOnline = counterpartId ? isUserOnline(counterpartId) : false;
+  const otherUserPresence = counterpartId ? presence[counterpartId] : undefined;
+  const otherUserAway = otherUserOnline && otherUserPresence?.state === 'away';
+
+  // Get who else is typing in this conversation
+  const typingUserIds = useTypingUsers(conversation.id);
+  const otherUserTyping = typingUserIds.length > 0;
+  const typingLabel = (() => {
+    if (!isGroup) return 'typing...';
 
-  // Get typing status for the selected user
-  const otherUserTyping = useTypingStatus(selectedUser.id);
+    const names = typingUserIds.map(
+      id => conversation.participants.find(participant => participant.id === id)?.username ?? 'Someone'
+    );
+    if (names.length === 1) return `${names[0]} is typing...`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+    return `${names.length} people are typing...`;
+  })();
 
   console.log(
     'MessageComposer render - otherUserTyping:',
     otherUserTyping,
-    'selectedUser:',
-    selectedUser.id
+    'conversation:',
+    conversation.id
   );
 
   // Handle typing notifications
-  const sendTypingNotification = async (recipientId: string, typing: boolean) => {
+  const sendTypingNotification = async (conversationId: string, typing: boolean) => {
     if (!token) return;
+    if (realtimeSocket.sendTyping(conversationId, typing)) return;
 
     try {
       await fetch('http://localhost:8080/api/sse/typing', {
@@ -64,7 +190,7 @@ export function MessageComposer({
           Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
-          recipientId,
+          conversationId,
           isTyping: typing,
         }),
       });
@@ -73,16 +199,37 @@ export function MessageComposer({
     }
   };
 
+  useEffect(() => {
+    setShowMembers(false);
+    setEditingMessage(null);
+    setReplyingTo(null);
+    setPendingAttachments([]);
+    setActionError('');
+  }, [conversation.id]);
+
   useEffect(() => {
     loadConversation();
-  }, [selectedUser.id]);
+  }, [conversation.id, focusMessageId]);
+
+  // Events missed while disconnected couldn't be replayed, so refetch the thread
+  useEffect(() => {
+    const handleResync = () => {
+      loadConversation();
+    };
+
+    window.addEventListener('realtime-resync', handleResync);
+    return () => {
+      window.removeEventListener('realtime-resync', handleResync);
+    };
+  }, [conversation.id, focusMessageId]);
 
   // Listen for new messages in this conversation
   useEffect(() => {
-    const handleNewMessage = (event: CustomEvent) => {
-      const { senderId, message } = event.detail;
-      // Only add message if it's from/to the current conversation
-      if (senderId === selectedUser.id || message.recipient_id === selectedUser.id) {
+    const handleNewMessage = (event: WindowEventMap['new-message']) => {
+      const { message } = event.detail;
+      // Only add message if it belongs to the current conversation and we're showing the latest
+      // messages; while viewing a search result they load on "Back to latest"
+      if (message.conversation_id === conversation.id && !focusMessageId) {
         setMessages(prev => {
           // Check if message already exists to avoid duplicates
           if (prev.some(m => m.id === message.id)) {
@@ -99,11 +246,126 @@ export function MessageComposer({
       }
     };
 
-    window.addEventListener('new-message' as any, handleNewMessage as any);
+    window.addEventListener('new-message', handleNewMessage);
+    return () => {
+      window.removeEventListener('new-message', handleNewMessage);
+    };
+  }, [conversation.id, focusMessageId]);
+
+  // Keep the outbox's view of this conversation current, and swap each message for
+  // the server's copy once it's confirmed
+  useEffect(() => {
+    if (!user) return;
+
+    const conversationId = conversation.id;
+    const refreshOutgoing = () => {
+      outbox.list(conversationId, user.id).then(entries => {
+        if (conversationIdRef.current === conversationId) setOutgoing(entries);
+      });
+    };
+
+    const handleOutboxChanged = (event: WindowEventMap['outbox-changed']) => {
+      if (event.detail.conversationId === conversationId) refreshOutgoing();
+    };
+
+    const handleOutboxSent = (event: WindowEventMap['outbox-sent']) => {
+      const { clientId, message: sent } = event.detail;
+      if (sent.conversation_id !== conversationId) return;
+
+      setOutgoing(prev => prev.filter(entry => entry.client_id !== clientId));
+      // While viewing a search result it loads on "Back to latest"
+      if (!focusMessageId) {
+        const confirmed = {
+          ...sent,
+          created_at: new Date(sent.created_at).getTime(),
+          sender_username: user.username,
+          reactions: [],
+        };
+        setMessages(prev => (prev.some(m => m.id === confirmed.id) ? prev : [...prev, confirmed]));
+      }
+    };
+
+    refreshOutgoing();
+    window.addEventListener('outbox-changed', handleOutboxChanged);
+    window.addEventListener('outbox-sent', handleOutboxSent);
     return () => {
-      window.removeEventListener('new-message' as any, handleNewMessage as any);
+      window.removeEventListener('outbox-changed', handleOutboxChanged);
+      window.removeEventListener('outbox-sent', handleOutboxSent);
     };
-  }, [selectedUser.id]);
+  }, [conversation.id, focusMessageId, user?.id]);
+
+  // Apply edits, deletions and reactions made elsewhere to the messages already on screen
+  useEffect(() => {
+    const handleMessageEdited = (event: WindowEventMap['message-edited']) => {
+      const { message: edited } = event.detail;
+      if (edited.conversation_id !== conversation.id) return;
+
+      setMessages(prev => applyEdit(prev, edited));
+    };
+
+    const handleMessageDeleted = (event: WindowEventMap['message-deleted']) => {
+      const { messageId, conversationId } = event.detail;
+      if (conversationId !== conversation.id) return;
+
+      setMessages(prev => applyDelete(prev, messageId, new Date().toISOString()));
+      setReplyingTo(current => (current?.id === messageId ? null : current));
+      setEditingMessage(current => {
+        if (current?.id === messageId) {
+          setMessage('');
+          return null;
+        }
+        return current;
+      });
+    };
+
+    const handleReactionUpdated = (event: WindowEventMap['reaction-updated']) => {
+      const { messageId, conversationId, reactions } = event.detail;
+      if (conversationId !== conversation.id) return;
+
+      setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, reactions } : m)));
+    };
+
+    const handleReceipt = (event: WindowEventMap['message-receipt']) => {
+      const { conversationId, messageIds, status } = event.detail;
+      if (conversationId !== conversation.id) return;
+
+      setMessages(prev => applyReceipt(prev, messageIds, status));
+    };
+
+    window.addEventListener('message-edited', handleMessageEdited);
+    window.addEventListener('message-deleted', handleMessageDeleted);
+    window.addEventListener('reaction-updated', handleReactionUpdated);
+    window.addEventListener('message-receipt', handleReceipt);
+    return () => {
+      window.removeEventListener('message-edited', handleMessageEdited);
+      window.removeEventListener('message-deleted', handleMessageDeleted);
+      window.removeEventListener('reaction-updated', handleReactionUpdated);
+      window.removeEventListener('message-receipt', handleReceipt);
+    };
+  }, [conversation.id]);
+
+  // Reading the thread acknowledges everything up to the newest message from someone else
+  const lastReadRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!token) return;
+
+    const latestIncoming = [...messages].reverse().find(m => m.sender_id !== user?.id);
+    if (!latestIncoming || latestIncoming.id === lastReadRef.current) return;
+
+    lastReadRef.current = latestIncoming.id;
+    const announceRead = () =>
+      window.dispatchEvent(
+        new CustomEvent('conversation-read', { detail: { conversationId: conversation.id } })
+      );
+
+    if (realtimeSocket.markRead(conversation.id, latestIncoming.id)) {
+      announceRead();
+      return;
+    }
+    grpcClient.markConversationRead(token, conversation.id, latestIncoming.id).then(response => {
+      if (response.success) announceRead();
+    });
+  }, [messages, conversation.id, token, user?.id]);
 
   const loadConversation = async () => {
     if (!token) return;
@@ -111,8 +373,17 @@ export function MessageComposer({
     setLoadingMessages(true);
     try {
       // Use the conversation-specific endpoint instead of loading all messages
-      const response = await grpcClient.getConversationMessages(token, selectedUser.id, 50);
+      const response = await grpcClient.getConversationMessages(token, conversation.id, 50, {
+        around: focusMessageId || undefined,
+      });
+      if (focusMessageId && response.messages.length === 0) {
+        // The message is gone, fall back to the latest messages
+        onFocusCleared?.();
+        return;
+      }
       setMessages(response.messages || []);
+      setOlderCursor(response.prevCursor);
+      setHasOlder(response.hasOlder);
     } catch (_error) {
       console.error('Failed to load conversation:', _error);
     } finally {
@@ -120,52 +391,257 @@ export function MessageComposer({
     }
   };
 
-  // Handle typing indicators - simple: text in input = typing
+  // Prepends the page before the oldest loaded message as the user scrolls up
+  const loadOlderMessages = async () => {
+    if (!token || !olderCursor || loadingOlderRef.current) return;
+
+    const conversationId = conversation.id;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const response = await grpcClient.getConversationMessages(token, conversationId, 50, {
+        before: olderCursor,
+      });
+      if (conversationIdRef.current !== conversationId) return;
+
+      setMessages(prev => {
+        const loaded = new Set(prev.map(m => m.id));
+        return [...response.messages.filter(m => !loaded.has(m.id)), ...prev];
+      });
+      setOlderCursor(response.prevCursor ?? olderCursor);
+      setHasOlder(response.hasOlder);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  };
+
+  // Handle typing indicators - text being entered = typing. The server expires
+  // typing that isn't refreshed, so keep refreshing while the text changes
   useEffect(() => {
+    if (editingMessage) return;
+
     const hasText = message.trim().length > 0;
+    const now = Date.now();
 
-    if (hasText && !isTyping) {
-      // Start typing
-      setIsTyping(true);
-      sendTypingNotification(selectedUser.id, true);
-    } else if (!hasText && isTyping) {
-      // Stop typing
-      setIsTyping(false);
-      sendTypingNotification(selectedUser.id, false);
+    if (hasText && now - typingSentAtRef.current >= TYPING_REFRESH_MS) {
+      typingSentAtRef.current = now;
+      sendTypingNotification(conversation.id, true);
+    } else if (!hasText && typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      sendTypingNotification(conversation.id, false);
     }
-  }, [message, isTyping, selectedUser.id]);
+  }, [message, conversation.id, editingMessage]);
+
+  // Stop typing in a conversation when switching away from it
+  useEffect(() => {
+    const conversationId = conversation.id;
+    return () => {
+      if (typingSentAtRef.current) {
+        typingSentAtRef.current = 0;
+        sendTypingNotification(conversationId, false);
+      }
+    };
+  }, [conversation.id]);
+
+  const startReply = (target: Message) => {
+    if (editingMessage) cancelEditing();
+    setReplyingTo(target);
+    setActionError('');
+  };
+
+  const startEditing = (target: Message) => {
+    setReplyingTo(null);
+    setEditingMessage(target);
+    setMessage(target.content);
+    setActionError('');
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessage('');
+  };
+
+  const submitEdit = async (target: Message) => {
+    if (!token) return;
+
+    const content = message.trim();
+    if (content === target.content) {
+      cancelEditing();
+      return;
+    }
+
+    const response = await grpcClient.editMessage(token, target.id, content);
+    if (response.success && response.data) {
+      const edited = response.data;
+      setMessages(prev => applyEdit(prev, edited));
+      cancelEditing();
+    } else {
+      setActionError(response.error || 'Failed to edit message');
+    }
+  };
+
+  const handleDelete = async (target: Message) => {
+    if (!token || !window.confirm('Delete this message for everyone?')) return;
+
+    const response = await grpcClient.deleteMessage(token, target.id);
+    if (response.success && response.data) {
+      const deleted = response.data;
+      setMessages(prev => applyDelete(prev, deleted.id, deleted.deleted_at || new Date().toISOString()));
+      if (editingMessage?.id === target.id) {
+        cancelEditing();
+      }
+      if (replyingTo?.id === target.id) {
+        setReplyingTo(null);
+      }
+    } else {
+      setActionError(response.error || 'Failed to delete message');
+    }
+  };
+
+  const handleToggleReaction = async (target: Message, emoji: string) => {
+    if (!token || !user) return;
+
+    const reacted = target.reactions?.some(
+      reaction => reaction.emoji === emoji && reaction.users.some(u => u.id === user.id)
+    );
+    const response = reacted
+      ? await grpcClient.removeReaction(token, target.id, emoji)
+      : await grpcClient.addReaction(token, target.id, emoji);
+
+    if (response.success && response.reactions) {
+      const reactions = response.reactions;
+      setMessages(prev => prev.map(m => (m.id === target.id ? { ...m, reactions } : m)));
+    } else {
+      setActionError(response.error || 'Failed to update reaction');
+    }
+  };
+
+  // Uploads start as soon as files are picked so sending doesn't wait on them
+  const addFiles = (files: FileList | File[]) => {
+    if (!token || editingMessage) return;
+
+    for (const file of Array.from(files)) {
+      const localId = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+      setPendingAttachments(prev => [...prev, { localId, file, status: 'uploading' }]);
+
+      grpcClient.uploadAttachment(token, conversation.id, file).then(response => {
+        setPendingAttachments(prev =>
+          prev.map(pending =>
+            pending.localId === localId
+              ? response.success
+                ? { ...pending, status: 'ready', attachment: response.data }
+                : { ...pending, status: 'error', error: response.error || 'Upload failed' }
+              : pending
+          )
+        );
+      });
+    }
+  };
+
+  const removePendingAttachment = (pending: PendingAttachment) => {
+    setPendingAttachments(prev => prev.filter(p => p.localId !== pending.localId));
+    if (token && pending.attachment) {
+      grpcClient.removeAttachment(token, pending.attachment.id);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) {
+      addFiles(e.dataTransfer.files);
+    }
+  };
+
+  const readyAttachments = pendingAttachments.filter(
+    (p): p is PendingAttachment & { attachment: AttachmentSummary } =>
+      p.status === 'ready' && p.attachment !== undefined
+  );
+  const isUploading = pendingAttachments.some(p => p.status === 'uploading');
+  const canSend = editingMessage
+    ? Boolean(message.trim())
+    : (Boolean(message.trim()) || readyAttachments.length > 0) && !isUploading;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (message.trim() && selectedUser && token) {
-      // Stop typing indicator
-      if (isTyping) {
-        setIsTyping(false);
-        sendTypingNotification(selectedUser.id, false);
+    if (editingMessage) {
+      if (message.trim()) {
+        await submitEdit(editingMessage);
       }
+      return;
+    }
 
-      try {
-        // Actually send the message via API
-        const response = await grpcClient.sendMessage({
-          content: message.trim(),
-          recipient_id: selectedUser.id
-        }, token);
+    if (canSend && token && user) {
+      // Sending clears the typing indicator on the server
+      typingSentAtRef.current = 0;
 
-        if (response.success) {
-          setMessage('');
-          // Reload conversation to show the new message
-          await loadConversation();
-        } else {
-          console.error('Failed to send message:', response.error);
-        }
-      } catch (_error) {
-        console.error('Failed to send message:', _error);
+      const queued = outbox.enqueue({
+        conversation_id: conversation.id,
+        sender_id: user.id,
+        sender_username: user.username,
+        content: message.trim(),
+        reply_to: replyingTo
+          ? {
+              id: replyingTo.id,
+              sender_id: replyingTo.sender_id,
+              sender_username: replyingTo.sender_username ?? '',
+              content: replyingTo.content,
+              deleted_at: null,
+            }
+          : null,
+        attachments: readyAttachments.map(p => p.attachment),
+        created_at: Date.now(),
+      });
+
+      // The message shows as pending straight away, so the composer is free again
+      setMessage('');
+      setReplyingTo(null);
+      setPendingAttachments([]);
+      if (focusMessageId) {
+        onFocusCleared?.();
       }
+
+      await queued;
+      outbox.flush({ token, userId: user.id });
     }
   };
 
+  const handleRetry = async (target: Message) => {
+    if (!token || !user) return;
+
+    await outbox.retry(target.id);
+    outbox.flush({ token, userId: user.id });
+  };
+
+  // Uploads attached to a message that will never be sent are removed too
+  const handleDiscard = async (target: Message) => {
+    if (!token) return;
+
+    await outbox.discard(target.id);
+    for (const attachment of target.attachments || []) {
+      grpcClient.removeAttachment(token, attachment.id);
+    }
+  };
+
+  const displayedMessages = useMemo(
+    () => (focusMessageId ? messages : [...messages, ...outgoing.map(fromOutbox)]),
+    [messages, outgoing, focusMessageId]
+  );
+
   return (
-    <div className="messaging-card flex flex-col h-[600px]">
+    <div
+      className={`messaging-card flex flex-col h-[600px] ${isDragging ? 'ring-2 ring-blue-400' : ''}`}
+      onDragOver={e => {
+        if (editingMessage || !e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+      }}
+      onDrop={handleDrop}
+    >
       {/* Header - WhatsApp style */}
       <div className="flex items-center justify-between p-4 border-b border-slate-200 bg-slate-50">
         <div className="flex items-center gap-3">
@@ -182,17 +658,25 @@ export function MessageComposer({
             </button>
           )}
           <div className="relative">
-            <div className="w-10 h-10 bg-blue-100 rounded-full flex items-center justify-center">
-              <span className="font-medium text-blue-700">
-                {selectedUser.username[0].toUpperCase()}
+            <div
+              className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                isGroup ? 'bg-purple-100' : 'bg-blue-100'
+              }`}
+            >
+              <span className={`font-medium ${isGroup ? 'text-purple-700' : 'text-blue-700'}`}>
+                {title.replace('@', '').charAt(0).toUpperCase()}
               </span>
             </div>
             {otherUserOnline && (
-              <div className="absolute -bottom-0.5 -right-0.5 w-3 h-3 bg-green-500 rounded-full border-2 border-white"></div>
+              <div
+                className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full border-2 border-white ${
+                  otherUserAway ? 'bg-amber-400' : 'bg-green-500'
+                }`}
+              ></div>
             )}
           </div>
           <div>
-            <div className="font-semibold text-slate-800">@{selectedUser.username}</div>
+            <div className="font-semibold text-slate-800">{title}</div>
             <div className="text-sm text-slate-500">
               {(() => {
                 console.log(
@@ -215,41 +699,187 @@ export function MessageComposer({
                           style={{ animationDelay: '0.2s' }}
                         ></div>
                       </div>
-                      <span className="font-medium">typing...</span>
+                      <span className="font-medium">{typingLabel}</span>
                     </div>
                   );
-                } else if (otherUserOnline) {
-                  return 'Online';
-                } else {
-                  return 'Offline';
+                } else if (isGroup) {
+                  return `${conversation.participants.length} members`;
                 }
+
+                const presenceText = otherUserOnline
+                  ? otherUserAway
+                    ? 'Away'
+                    : 'Online'
+                  : formatLastSeen(otherUserPresence?.last_seen_at ?? null);
+                if (!otherUserPresence) return presenceText;
+
+                // Available is the default, so only its message is worth showing
+                const { status, status_message } = otherUserPresence;
+                const statusText =
+                  status === 'available'
+                    ? status_message
+                    : status_message
+                      ? `${USER_STATUS_LABELS[status]}: ${status_message}`
+                      : USER_STATUS_LABELS[status];
+                return statusText ? `${presenceText} · ${statusText}` : presenceText;
               })()}
             </div>
           </div>
         </div>
+        {isGroup && (
+          <button
+            onClick={() => setShowMembers(prev => !prev)}
+            className="text-sm text-slate-600 hover:text-slate-800"
+          >
+            {showMembers ? 'Hide members' : 'Members'}
+          </button>
+        )}
       </div>
 
+      {isGroup && showMembers && (
+        <GroupMembersPanel
+          conversation={conversation}
+          onChanged={() => onConversationChanged?.()}
+          onLeft={() => onLeft?.()}
+        />
+      )}
+
+      {focusMessageId && (
+        <div className="flex items-center justify-between px-4 py-2 text-sm bg-yellow-50 border-b border-yellow-100 text-slate-600">
+          <span>Showing messages around a search result</span>
+          <button
+            type="button"
+            onClick={() => onFocusCleared?.()}
+            className="font-medium text-blue-600 hover:text-blue-800"
+          >
+            Back to latest
+          </button>
+        </div>
+      )}
+
       {/* Messages area */}
       <div className="flex-1 overflow-hidden">
-        <MessageList messages={messages} currentUserId={user?.id} loading={loadingMessages} />
+        <MessageList
+          messages={displayedMessages}
+          focusMessageId={focusMessageId}
+          currentUserId={user?.id}
+          loading={loadingMessages}
+          hasOlder={hasOlder}
+          loadingOlder={loadingOlder}
+          onLoadOlder={loadOlderMessages}
+          onEdit={startEditing}
+          onDelete={handleDelete}
+          onToggleReaction={handleToggleReaction}
+          onReply={startReply}
+          onRetry={handleRetry}
+          onDiscard={handleDiscard}
+        />
       </div>
 
       {/* Input area - WhatsApp style */}
       <div className="p-4 border-t border-slate-200 bg-white">
+        {editingMessage && (
+          <div className="flex items-center justify-between mb-2 text-sm text-slate-600 bg-slate-50 px-3 py-2 rounded">
+            <span className="truncate">Editing: {editingMessage.content}</span>
+            <button type="button" onClick={cancelEditing} className="text-slate-500 hover:text-slate-700 ml-3">
+              Cancel
+            </button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="flex items-start justify-between mb-2 text-sm bg-slate-50 px-3 py-2 rounded border-l-2 border-blue-400">
+            <div className="min-w-0">
+              <div className="text-xs font-medium text-blue-700">
+                Replying to @{replyingTo.sender_username || 'unknown'}
+              </div>
+              <div className="truncate text-slate-600">{replyingTo.content}</div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setReplyingTo(null)}
+              className="text-slate-500 hover:text-slate-700 ml-3"
+              aria-label="Cancel reply"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+        {pendingAttachments.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {pendingAttachments.map(pending => (
+              <div
+                key={pending.localId}
+                className={`flex items-center gap-2 px-2 py-1 rounded border text-xs ${
+                  pending.status === 'error'
+                    ? 'border-red-300 bg-red-50 text-red-700'
+                    : 'border-slate-200 bg-slate-50 text-slate-700'
+                }`}
+                title={pending.error}
+              >
+                <span className="max-w-[10rem] truncate">{pending.file.name}</span>
+                <span className="text-slate-400">
+                  {pending.status === 'uploading'
+                    ? 'uploading...'
+                    : pending.status === 'error'
+                      ? 'failed'
+                      : formatFileSize(pending.file.size)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => removePendingAttachment(pending)}
+                  className="text-slate-400 hover:text-slate-600"
+                  aria-label={`Remove ${pending.file.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        {actionError && <div className="mb-2 text-sm text-red-600">{actionError}</div>}
         <form onSubmit={handleSubmit} className="flex items-end gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={e => {
+              if (e.target.files) addFiles(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={Boolean(editingMessage)}
+            className="text-slate-500 hover:text-slate-700 p-2 disabled:opacity-50 flex-shrink-0"
+            aria-label="Attach files"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+              />
+            </svg>
+          </button>
           <div className="flex-1">
             <input
               type="text"
               value={message}
               onChange={e => setMessage(e.target.value)}
-              placeholder={`Message @${selectedUser.username}`}
+              onKeyDown={e => {
+                if (e.key === 'Escape' && editingMessage) cancelEditing();
+                else if (e.key === 'Escape' && replyingTo) setReplyingTo(null);
+              }}
+              placeholder={editingMessage ? 'Edit message' : `Message ${title}`}
               className="w-full messaging-input"
-              required
             />
           </div>
           <button
             type="submit"
-            disabled={!message.trim() || loading}
+            disabled={!canSend || loading}
             className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
           >
             {loading ? (
@@ -1,31 +1,373 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import {
+  MessageReaction,
+  MessageQuote,
+  AttachmentSummary,
+  MessageStatus,
+} from '../lib/api-client';
+import { dayKey, formatDayLabel } from '../lib/utils';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { AttachmentPreview } from './AttachmentPreview';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+// Older messages start loading once the reader scrolls this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 200;
+
+// Height assumed for a message until it has been rendered and measured
+const ESTIMATED_MESSAGE_HEIGHT_PX = 96;
 
 interface Message {
   id: string;
   content: string;
   sender_id: string;
-  recipient_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
   sender_username?: string;
   recipient_username?: string;
+  status?: MessageStatus;
   created_at: number;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reactions?: MessageReaction[];
+  reply_to?: MessageQuote | null;
+  attachments?: AttachmentSummary[];
+  // Set while the message waits in the outbox, before the server has it
+  sendState?: 'pending' | 'failed';
+  sendError?: string;
+}
+
+// Single tick once sent, double once delivered, blue double once read
+function ReceiptTicks({ status }: { status?: MessageStatus }) {
+  const label = status === 'read' ? 'Read' : status === 'delivered' ? 'Delivered' : 'Sent';
+
+  return (
+    <span title={label} className={`ml-1 ${status === 'read' ? 'text-sky-300' : ''}`}>
+      {status === 'sent' || !status ? '✓' : '✓✓'}
+    </span>
+  );
+}
+
+interface MessageRowProps {
+  message: Message;
+  currentUserId?: string;
+  startsDay: boolean;
+  highlighted: boolean;
+  onJumpToQuote: (messageId: string) => void;
+  onEdit?: (message: Message) => void;
+  onDelete?: (message: Message) => void;
+  onToggleReaction?: (message: Message, emoji: string) => void;
+  onReply?: (message: Message) => void;
+  onRetry?: (message: Message) => void;
+  onDiscard?: (message: Message) => void;
+}
+
+function MessageRow({
+  message,
+  currentUserId,
+  startsDay,
+  highlighted,
+  onJumpToQuote,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onReply,
+  onRetry,
+  onDiscard,
+}: MessageRowProps) {
+  const isOwn = message.sender_id === currentUserId;
+  const isDeleted = Boolean(message.deleted_at);
+  const replyTo = message.reply_to;
+  // Unsent messages don't exist on the server yet, so there's nothing to react to or edit
+  const isUnsent = Boolean(message.sendState);
+
+  // Padding rather than margins, so the measured height covers the gap to the next row
+  return (
+    <div data-virtual-key={message.id} className="pb-4">
+      {startsDay && (
+        <div className="flex items-center gap-3 text-xs text-slate-400 mb-4">
+          <div className="flex-1 border-t border-slate-200"></div>
+          <span>{formatDayLabel(message.created_at)}</span>
+          <div className="flex-1 border-t border-slate-200"></div>
+        </div>
+      )}
+      <div
+        id={`message-${message.id}`}
+        className={`flex ${isOwn ? 'justify-end' : 'justify-start'} rounded-xl transition-colors ${
+          highlighted ? 'bg-yellow-100' : ''
+        }`}
+      >
+        <div className={`group max-w-sm ${isOwn ? 'ml-12' : 'mr-12'}`}>
+          {isDeleted ? (
+            <div className="px-4 py-3 rounded-xl border border-dashed border-slate-300 text-slate-400 text-sm italic">
+              This message was deleted
+            </div>
+          ) : (
+            <div
+              className={`px-4 py-3 rounded-xl ${
+                isOwn
+                  ? 'bg-blue-600 text-white rounded-br-md'
+                  : 'bg-white border border-slate-200 text-slate-800 rounded-bl-md shadow-sm'
+              } ${message.sendState === 'pending' ? 'opacity-70' : ''}`}
+            >
+              {replyTo && (
+                <button
+                  type="button"
+                  onClick={() => onJumpToQuote(replyTo.id)}
+                  className={`block w-full text-left mb-2 pl-2 border-l-2 text-xs ${
+                    isOwn ? 'border-blue-200 text-blue-100' : 'border-slate-300 text-slate-500'
+                  }`}
+                >
+                  <div className="font-medium">@{replyTo.sender_username}</div>
+                  <div className="truncate">
+                    {replyTo.deleted_at ? 'Message deleted' : replyTo.content}
+                  </div>
+                </button>
+              )}
+              {message.attachments && message.attachments.length > 0 && (
+                <div className={`space-y-2 ${message.content ? 'mb-2' : ''}`}>
+                  {message.attachments.map(attachment => (
+                    <AttachmentPreview key={attachment.id} attachment={attachment} isOwn={isOwn} />
+                  ))}
+                </div>
+              )}
+              {message.content && <div className="text-sm leading-relaxed">{message.content}</div>}
+              <div className={`text-xs mt-2 ${isOwn ? 'text-blue-100' : 'text-slate-400'}`}>
+                {new Date(message.created_at).toLocaleTimeString([], {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+                {message.edited_at && <span className="ml-1">(edited)</span>}
+                {isOwn &&
+                  (message.sendState ? (
+                    <span
+                      title={message.sendState === 'pending' ? 'Sending' : 'Not sent'}
+                      className="ml-1"
+                    >
+                      {message.sendState === 'pending' ? '🕓' : '!'}
+                    </span>
+                  ) : (
+                    <ReceiptTicks status={message.status} />
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {!isDeleted && message.reactions && message.reactions.length > 0 && (
+            <div className={`flex flex-wrap gap-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+              {message.reactions.map(reaction => {
+                const reactedByMe = reaction.users.some(u => u.id === currentUserId);
+
+                return (
+                  <button
+                    key={reaction.emoji}
+                    onClick={() => onToggleReaction?.(message, reaction.emoji)}
+                    title={`Reacted by ${reaction.users.map(u => `@${u.username}`).join(', ')}`}
+                    className={`px-2 py-0.5 rounded-full text-xs border ${
+                      reactedByMe
+                        ? 'bg-blue-50 border-blue-300 text-blue-700'
+                        : 'bg-white border-slate-200 text-slate-600'
+                    }`}
+                  >
+                    {reaction.emoji} {reaction.count}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {!isDeleted && !isUnsent && (onToggleReaction || onReply) && (
+            <div
+              className={`hidden group-hover:flex gap-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}
+            >
+              {onToggleReaction &&
+                QUICK_REACTIONS.map(emoji => (
+                  <button
+                    key={emoji}
+                    onClick={() => onToggleReaction(message, emoji)}
+                    className="text-sm hover:scale-125 transition-transform"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+              {onReply && (
+                <button
+                  onClick={() => onReply(message)}
+                  className="text-xs text-slate-500 hover:text-slate-700 ml-1"
+                >
+                  Reply
+                </button>
+              )}
+            </div>
+          )}
+
+          {message.sendState === 'failed' && (
+            <div className="flex justify-end items-center gap-3 text-xs mt-1 mr-2">
+              <span className="text-red-500">
+                Not sent{message.sendError ? `: ${message.sendError}` : ''}
+              </span>
+              {onRetry && (
+                <button
+                  onClick={() => onRetry(message)}
+                  className="text-blue-600 hover:text-blue-800"
+                >
+                  Retry
+                </button>
+              )}
+              {onDiscard && (
+                <button
+                  onClick={() => onDiscard(message)}
+                  className="text-slate-500 hover:text-slate-700"
+                >
+                  Discard
+                </button>
+              )}
+            </div>
+          )}
+
+          {isOwn && !isDeleted && !isUnsent && (onEdit || onDelete) && (
+            <div className="hidden group-hover:flex justify-end gap-3 text-xs mt-1 mr-2">
+              {onEdit && (
+                <button
+                  onClick={() => onEdit(message)}
+                  className="text-slate-500 hover:text-slate-700"
+                >
+                  Edit
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(message)}
+                  className="text-red-500 hover:text-red-700"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+          )}
+
+          {!isOwn && message.sender_username && (
+            <div className="text-xs text-slate-400 mt-1 ml-2">
+              From: @
+              {message.sender_username.length > 15
+                ? message.sender_username.slice(0, 15) + '...'
+                : message.sender_username}
+            </div>
+          )}
+
+          {isOwn && message.recipient_username && (
+            <div className="text-xs text-slate-400 mt-1 mr-2 text-right">
+              To: @
+              {message.recipient_username.length > 15
+                ? message.recipient_username.slice(0, 15) + '...'
+                : message.recipient_username}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
 }
 
 interface MessageListProps {
   messages: Message[];
   currentUserId?: string;
   loading?: boolean;
+  focusMessageId?: string | null;
+  hasOlder?: boolean;
+  loadingOlder?: boolean;
+  onLoadOlder?: () => void;
+  onEdit?: (message: Message) => void;
+  onDelete?: (message: Message) => void;
+  onToggleReaction?: (message: Message, emoji: string) => void;
+  onReply?: (message: Message) => void;
+  onRetry?: (message: Message) => void;
+  onDiscard?: (message: Message) => void;
 }
 
-export function MessageList({ messages, currentUserId, loading }: MessageListProps) {
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+export function MessageList({
+  messages,
+  currentUserId,
+  loading,
+  focusMessageId,
+  hasOlder,
+  loadingOlder,
+  onLoadOlder,
+  onEdit,
+  onDelete,
+  onToggleReaction,
+  onReply,
+  onRetry,
+  onDiscard,
+}: MessageListProps) {
+  const keys = useMemo(() => messages.map(message => message.id), [messages]);
+  const list = useVirtualList({ keys, estimatedHeight: ESTIMATED_MESSAGE_HEIGHT_PX });
+  const focusedRef = useRef<string | null>(null);
+  const lastIdRef = useRef<string | undefined>(undefined);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  // Jump to the quoted message and flash it so it's easy to spot
+  const scrollToMessage = (messageId: string) => {
+    const index = list.indexOf(messageId);
+    if (index === undefined) return false;
+
+    list.scrollToIndex(index);
+    setHighlightedId(messageId);
+    return true;
+  };
+
+  // The list keeps the reader's place by itself; this only handles deliberate jumps
+  useLayoutEffect(() => {
+    const lastId = messages[messages.length - 1]?.id;
+    const previousLastId = lastIdRef.current;
+    lastIdRef.current = lastId;
+
+    if (!focusMessageId) {
+      focusedRef.current = null;
+    } else if (focusedRef.current !== focusMessageId) {
+      // Only jump to a search result once, so later updates don't yank the view back
+      if (scrollToMessage(focusMessageId)) focusedRef.current = focusMessageId;
+      return;
+    }
+
+    // Sending a message always brings the reader down to it
+    if (
+      previousLastId &&
+      lastId !== previousLastId &&
+      messages[messages.length - 1]?.sender_id === currentUserId
+    ) {
+      list.scrollToEnd();
+    }
+  }, [messages, focusMessageId]);
+
+  // A first page too short to scroll can't be scrolled up to load more
+  useEffect(() => {
+    const container = list.containerRef.current;
+    if (
+      container &&
+      hasOlder &&
+      !loadingOlder &&
+      container.scrollHeight <= container.clientHeight
+    ) {
+      onLoadOlder?.();
+    }
+  }, [messages, hasOlder, loadingOlder]);
+
+  const handleScroll = () => {
+    list.onScroll();
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    const container = list.containerRef.current;
+    if (container && container.scrollTop < LOAD_OLDER_THRESHOLD_PX && hasOlder && !loadingOlder) {
+      onLoadOlder?.();
+    }
   };
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (!highlightedId) return;
+
+    const timeout = setTimeout(() => setHighlightedId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
 
   if (loading) {
     return (
@@ -50,49 +392,64 @@ export function MessageList({ messages, currentUserId, loading }: MessageListPro
     );
   }
 
-  return (
-    <div className="flex-1 overflow-y-auto p-4 space-y-4">
-      {messages.map(message => {
-        const isOwn = message.sender_id === currentUserId;
-
-        return (
-          <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-sm ${isOwn ? 'ml-12' : 'mr-12'}`}>
-              <div
-                className={`px-4 py-3 rounded-xl ${
-                  isOwn
-                    ? 'bg-blue-600 text-white rounded-br-md'
-                    : 'bg-white border border-slate-200 text-slate-800 rounded-bl-md shadow-sm'
-                }`}
-              >
-                <div className="text-sm leading-relaxed">{message.content}</div>
-                <div className={`text-xs mt-2 ${isOwn ? 'text-blue-100' : 'text-slate-400'}`}>
-                  {new Date(message.created_at).toLocaleString()}
-                </div>
-              </div>
-
-              {!isOwn && message.sender_username && (
-                <div className="text-xs text-slate-400 mt-1 ml-2">
-                  From: @
-                  {message.sender_username.length > 15
-                    ? message.sender_username.slice(0, 15) + '...'
-                    : message.sender_username}
-                </div>
-              )}
+  const firstVisible = messages[list.firstVisible];
 
-              {isOwn && message.recipient_username && (
-                <div className="text-xs text-slate-400 mt-1 mr-2 text-right">
-                  To: @
-                  {message.recipient_username.length > 15
-                    ? message.recipient_username.slice(0, 15) + '...'
-                    : message.recipient_username}
-                </div>
-              )}
-            </div>
+  return (
+    <div className="relative h-full">
+      <div ref={list.containerRef} onScroll={handleScroll} className="h-full overflow-y-auto p-4">
+        {firstVisible && (
+          <div className="sticky top-0 z-10 h-0 flex justify-center pointer-events-none">
+            <span className="mt-1 px-3 py-1 rounded-full bg-white/90 border border-slate-200 shadow-sm text-xs text-slate-500">
+              {formatDayLabel(firstVisible.created_at)}
+            </span>
           </div>
-        );
-      })}
-      <div ref={messagesEndRef} />
+        )}
+        {loadingOlder ? (
+          <div className="flex items-center justify-center gap-2 mb-4 text-xs text-slate-400">
+            <div className="w-4 h-4 border-2 border-slate-300/30 border-t-slate-400 rounded-full animate-spin"></div>
+            <span>Loading older messages...</span>
+          </div>
+        ) : (
+          hasOlder === false && (
+            <div className="mb-4 text-center text-xs text-slate-400">Start of the conversation</div>
+          )
+        )}
+        <div
+          ref={list.listRef}
+          style={{ paddingTop: list.paddingTop, paddingBottom: list.paddingBottom }}
+        >
+          {messages.slice(list.start, list.end).map((message, offset) => {
+            const index = list.start + offset;
+            const previous = messages[index - 1];
+
+            return (
+              <MessageRow
+                key={message.id}
+                message={message}
+                currentUserId={currentUserId}
+                startsDay={!previous || dayKey(message.created_at) !== dayKey(previous.created_at)}
+                highlighted={highlightedId === message.id}
+                onJumpToQuote={scrollToMessage}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onToggleReaction={onToggleReaction}
+                onReply={onReply}
+                onRetry={onRetry}
+                onDiscard={onDiscard}
+              />
+            );
+          })}
+        </div>
+      </div>
+      {!list.atEnd && !focusMessageId && (
+        <button
+          type="button"
+          onClick={list.scrollToEnd}
+          className="absolute bottom-4 right-4 px-3 py-1.5 rounded-full bg-white border border-slate-200 shadow text-sm text-blue-600 hover:text-blue-800"
+        >
+          Jump to latest ↓
+        </button>
+      )}
     </div>
   );
 }
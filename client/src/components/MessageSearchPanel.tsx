@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { grpcClient, MessageSearchHit } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+
+interface MessageSearchPanelProps {
+  onSelectResult: (hit: MessageSearchHit) => void;
+}
+
+// Snippets come back with <mark> around matched terms; split on the tags and
+// render plain text nodes so message content is never treated as html
+function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>|<\/mark>/);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-200 text-gray-900 rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function MessageSearchPanel({ onSelectResult }: MessageSearchPanelProps) {
+  const { token } = useAuthStore();
+  const [query, setQuery] = useState('');
+  const [searchedQuery, setSearchedQuery] = useState('');
+  const [results, setResults] = useState<MessageSearchHit[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !query.trim()) return;
+
+    setIsLoading(true);
+    setError('');
+    const response = await grpcClient.searchMessages(token, query.trim());
+    setIsLoading(false);
+
+    setSearchedQuery(query.trim());
+    setResults(response.results);
+    setNextCursor(response.nextCursor);
+    if (response.error) setError(response.error);
+  };
+
+  const handleLoadMore = async () => {
+    if (!token || !nextCursor) return;
+
+    setIsLoadingMore(true);
+    const response = await grpcClient.searchMessages(token, searchedQuery, nextCursor);
+    setIsLoadingMore(false);
+
+    setResults(prev => [...prev, ...response.results]);
+    setNextCursor(response.nextCursor);
+    if (response.error) setError(response.error);
+  };
+
+  return (
+    <div className="border-b border-gray-200">
+      <div className="p-3">
+        <form onSubmit={handleSearch}>
+          <div className="relative">
+            <input
+              type="text"
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search messages..."
+              autoFocus
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-1 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !query.trim()}
+              className="absolute right-1 top-1/2 transform -translate-y-1/2 px-2 py-1 bg-blue-500 text-white rounded text-xs hover:bg-blue-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isLoading ? '...' : '→'}
+            </button>
+          </div>
+        </form>
+        <p className="mt-1 text-xs text-gray-400">
+          Filters: from:user with:user before:YYYY-MM-DD after:YYYY-MM-DD
+        </p>
+      </div>
+
+      {error && <div className="px-4 pb-3 text-xs text-red-600">{error}</div>}
+
+      {!isLoading && !error && searchedQuery && results.length === 0 && (
+        <div className="text-center pb-6 px-4 text-sm text-gray-500">
+          No messages found for "{searchedQuery}"
+        </div>
+      )}
+
+      {results.length > 0 && (
+        <div className="px-2 pb-3 space-y-1">
+          {results.map(hit => (
+            <button
+              key={hit.id}
+              type="button"
+              onClick={() => onSelectResult(hit)}
+              className="w-full text-left p-2 hover:bg-gray-50 rounded-md transition-colors"
+            >
+              <div className="flex items-center justify-between text-xs text-gray-500 mb-0.5">
+                <span className="font-medium text-gray-700">@{hit.sender_username}</span>
+                <span>{new Date(hit.created_at).toLocaleDateString()}</span>
+              </div>
+              <div className="text-sm text-gray-700 line-clamp-2">
+                <HighlightedSnippet snippet={hit.snippet} />
+              </div>
+            </button>
+          ))}
+          {nextCursor && (
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="w-full py-2 text-sm text-blue-500 hover:text-blue-600 hover:bg-blue-50 rounded-md transition-colors disabled:opacity-50"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load More'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
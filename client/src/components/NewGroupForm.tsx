@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { grpcClient, ConversationSummary } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+import { MemberPicker } from './MemberPicker';
+
+interface User {
+  id: string;
+  username: string;
+  email: string;
+}
+
+interface NewGroupFormProps {
+  onCreated: (conversation: ConversationSummary) => void;
+  onCancel: () => void;
+}
+
+export function NewGroupForm({ onCreated, onCancel }: NewGroupFormProps) {
+  const [name, setName] = useState('');
+  const [members, setMembers] = useState<User[]>([]);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { token } = useAuthStore();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || !name.trim() || members.length === 0) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    const result = await grpcClient.createGroup(
+      token,
+      name.trim(),
+      members.map(member => member.id)
+    );
+
+    setIsSubmitting(false);
+
+    if (result.success && result.conversation) {
+      window.dispatchEvent(
+        new CustomEvent('conversation-updated', {
+          detail: { conversationId: result.conversation.id, change: 'created' },
+        })
+      );
+      onCreated(result.conversation);
+    } else {
+      setError(result.error || 'Failed to create group');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 space-y-3 border-b border-gray-200 bg-gray-50">
+      <input
+        type="text"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder="Group name"
+        maxLength={100}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        required
+      />
+
+      <MemberPicker selected={members} onChange={setMembers} />
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSubmitting || !name.trim() || members.length === 0}
+          className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Creating...' : 'Create group'}
+        </button>
+      </div>
+    </form>
+  );
+}
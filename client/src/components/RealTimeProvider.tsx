@@ -3,12 +3,15 @@ import { useRealTimeMessaging } from '../hooks/useRealTimeMessaging';
 import { useOnlineStore } from '../store/online';
 import { useMessagesStore } from '../store/messages';
 import { useAuthStore } from '../store/auth';
+import { grpcClient } from '../lib/api-client';
+import { outbox } from '../lib/outbox';
 
 let _isProviderMounted = false;
 
 export function RealTimeProvider({ children }: { children: React.ReactNode }) {
-  const { token, user } = useAuthStore();
-  const { setUserOnline, setUserOffline, setOnlineUsers } = useOnlineStore();
+  const { token, user, logout } = useAuthStore();
+  const { setUserOnline, setUserOffline, setOnlineUsers, setPresence, setPresenceList } =
+    useOnlineStore();
   const { addMessage } = useMessagesStore();
 
   useEffect(() => {
@@ -20,12 +23,12 @@ export function RealTimeProvider({ children }: { children: React.ReactNode }) {
 
   // Initialize real-time connection
   const { isConnected } = useRealTimeMessaging({
-    onTyping: (senderId, isTyping) => {
-      console.log('Dispatching typing event:', { senderId, isTyping });
+    onTyping: (senderId, conversationId, isTyping) => {
+      console.log('Dispatching typing event:', { senderId, conversationId, isTyping });
       // Dispatch typing event for components to listen to
       window.dispatchEvent(
         new CustomEvent('user-typing', {
-          detail: { senderId, isTyping },
+          detail: { senderId, conversationId, isTyping },
         })
       );
     },
@@ -51,33 +54,91 @@ export function RealTimeProvider({ children }: { children: React.ReactNode }) {
         });
       }
     },
-    onUserStatusChange: (userId, isOnline) => {
-      if (isOnline) {
+    onUserStatusChange: (userId, isOnline, presence) => {
+      if (presence) {
+        setPresence(presence);
+      } else if (isOnline) {
         setUserOnline(userId);
       } else {
         setUserOffline(userId);
       }
     },
+    onConversationUpdated: (conversationId, change) => {
+      window.dispatchEvent(
+        new CustomEvent('conversation-updated', {
+          detail: { conversationId, change },
+        })
+      );
+    },
+    onMessageEdited: message => {
+      window.dispatchEvent(
+        new CustomEvent('message-edited', {
+          detail: { message },
+        })
+      );
+    },
+    onMessageDeleted: (messageId, conversationId) => {
+      window.dispatchEvent(
+        new CustomEvent('message-deleted', {
+          detail: { messageId, conversationId },
+        })
+      );
+    },
+    onReactionUpdated: (messageId, conversationId, reactions) => {
+      window.dispatchEvent(
+        new CustomEvent('reaction-updated', {
+          detail: { messageId, conversationId, reactions },
+        })
+      );
+    },
+    onReceipt: (conversationId, messageIds, status) => {
+      window.dispatchEvent(
+        new CustomEvent('message-receipt', {
+          detail: { conversationId, messageIds, status },
+        })
+      );
+    },
+    onResyncRequired: () => {
+      window.dispatchEvent(new CustomEvent('realtime-resync'));
+    },
+    onSessionRevoked: () => {
+      // This device was signed out from another session
+      logout();
+    },
     onConnected: () => {
       console.log('Real-time connection established');
-      // Fetch initial online users
+      // Fetch contacts' presence: who's online or away, their status and last seen time
       if (token) {
-        fetch('http://localhost:8080/api/sse/online', {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        })
-          .then(res => res.json())
-          .then(data => {
-            if (data.success && data.data) {
-              setOnlineUsers(data.data.onlineUsers);
-            }
-          })
+        grpcClient
+          .getPresence(token)
+          .then(({ presence }) => setPresenceList(presence))
           .catch(console.error);
       }
+      // Messages queued while disconnected can go out now
+      if (token && user) {
+        outbox.flush({ token, userId: user.id });
+      }
     },
   });
 
+  // Send what's left in the outbox, from before a reload or while offline, once signed in
+  // and again whenever the browser regains its network connection
+  useEffect(() => {
+    if (!token || !user) return;
+
+    const session = { token, userId: user.id };
+    const handleOnline = () => {
+      outbox.flush(session);
+    };
+
+    outbox.flush(session);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      outbox.stop();
+    };
+  }, [token, user?.id]);
+
   // Request notification permission on mount
   useEffect(() => {
     if ('Notification' in window && Notification.permission === 'default') {
@@ -87,15 +148,15 @@ export function RealTimeProvider({ children }: { children: React.ReactNode }) {
 
   // Listen for online users updates
   useEffect(() => {
-    const handleOnlineUsersUpdate = (event: CustomEvent) => {
+    const handleOnlineUsersUpdate = (event: WindowEventMap['online-users-update']) => {
       const { users } = event.detail;
       console.log('Updating online users:', users);
       setOnlineUsers(users);
     };
 
-    window.addEventListener('online-users-update' as any, handleOnlineUsersUpdate as any);
+    window.addEventListener('online-users-update', handleOnlineUsersUpdate);
     return () => {
-      window.removeEventListener('online-users-update' as any, handleOnlineUsersUpdate as any);
+      window.removeEventListener('online-users-update', handleOnlineUsersUpdate);
     };
   }, [setOnlineUsers]);
 
@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback } from 'react';
+import { grpcClient, UserSession } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+
+function describeUserAgent(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    ['Edg', 'Chrome', 'Firefox', 'Safari'].find(name => userAgent.includes(`${name}/`)) || 'Browser';
+  const platform =
+    ['Windows', 'Mac OS', 'Android', 'iPhone', 'Linux'].find(name => userAgent.includes(name)) ||
+    'Unknown OS';
+
+  return `${browser === 'Edg' ? 'Edge' : browser} on ${platform}`;
+}
+
+export function SessionsPanel() {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const { token } = useAuthStore();
+
+  const loadSessions = useCallback(async () => {
+    if (!token) return;
+
+    setIsLoading(true);
+    const result = await grpcClient.getSessions(token);
+    setSessions(result.sessions);
+    setIsLoading(false);
+  }, [token]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    if (!token) return;
+
+    const result = await grpcClient.revokeSession(token, sessionId);
+    if (result.success) {
+      setSessions(prev => prev.filter(session => session.id !== sessionId));
+    } else {
+      setError(result.error || 'Failed to revoke session');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!token) return;
+
+    const result = await grpcClient.revokeOtherSessions(token);
+    if (result.success) {
+      setSessions(prev => prev.filter(session => session.current));
+    } else {
+      setError(result.error || 'Failed to revoke sessions');
+    }
+  };
+
+  const hasOtherSessions = sessions.some(session => !session.current);
+
+  return (
+    <div className="border-t border-slate-200 px-6 py-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold text-slate-800">Active sessions</h2>
+        {hasOtherSessions && (
+          <button onClick={handleRevokeOthers} className="text-sm text-red-600 hover:text-red-800">
+            Sign out everywhere else
+          </button>
+        )}
+      </div>
+
+      {isLoading && sessions.length === 0 && (
+        <div className="text-sm text-slate-500">Loading sessions...</div>
+      )}
+
+      <div className="space-y-2">
+        {sessions.map(session => (
+          <div key={session.id} className="flex items-center justify-between text-sm">
+            <div>
+              <div className="text-slate-800">
+                {describeUserAgent(session.user_agent)}
+                {session.current && (
+                  <span className="ml-2 text-xs text-green-700 bg-green-50 px-1.5 rounded">
+                    this device
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-slate-500">
+                {session.ip_address || 'Unknown IP'} · signed in{' '}
+                {new Date(session.created_at).toLocaleString()} · expires{' '}
+                {new Date(session.expires_at).toLocaleDateString()}
+              </div>
+            </div>
+            {!session.current && (
+              <button
+                onClick={() => handleRevoke(session.id)}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                Revoke
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+
+interface SignupFormProps {
+  onSignup: (username: string, email: string, password: string) => void;
+  error?: string;
+  loading?: boolean;
+}
+
+export function SignupForm({ onSignup, error, loading }: SignupFormProps) {
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [localError, setLocalError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      setLocalError('Passwords do not match');
+      return;
+    }
+
+    setLocalError('');
+    if (username && email && password) {
+      onSignup(username.trim(), email.trim(), password);
+    }
+  };
+
+  const displayError = localError || error;
+
+  return (
+    <div className="messaging-card p-8">
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="space-y-2">
+          <label htmlFor="username" className="block text-sm font-medium text-slate-700">
+            Username
+          </label>
+          <input
+            id="username"
+            type="text"
+            value={username}
+            onChange={e => setUsername(e.target.value)}
+            className="w-full messaging-input"
+            placeholder="Choose a username"
+            minLength={5}
+            maxLength={30}
+            pattern="[a-zA-Z0-9_\-]+"
+            title="Letters, numbers, underscore and dash only"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="email" className="block text-sm font-medium text-slate-700">
+            Email Address
+          </label>
+          <input
+            id="email"
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            className="w-full messaging-input"
+            placeholder="Enter your email"
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="password" className="block text-sm font-medium text-slate-700">
+            Password
+          </label>
+          <input
+            id="password"
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full messaging-input"
+            placeholder="At least 8 characters"
+            minLength={8}
+            maxLength={128}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="confirm-password" className="block text-sm font-medium text-slate-700">
+            Confirm Password
+          </label>
+          <input
+            id="confirm-password"
+            type="password"
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            className="w-full messaging-input"
+            placeholder="Repeat your password"
+            required
+          />
+        </div>
+
+        {displayError && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <div className="flex items-center">
+              <div className="flex-shrink-0">
+                <div className="w-5 h-5 text-red-400">×</div>
+              </div>
+              <div className="ml-3">
+                <p className="text-sm text-red-700">{displayError}</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <button type="submit" className="w-full messaging-button" disabled={loading}>
+          {loading ? (
+            <div className="flex items-center justify-center">
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2"></div>
+              Creating Account...
+            </div>
+          ) : (
+            'Create Account'
+          )}
+        </button>
+      </form>
+    </div>
+  );
+}
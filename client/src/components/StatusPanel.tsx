@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { grpcClient, UserPresence, UserStatus } from '../lib/api-client';
+import { USER_STATUS_LABELS } from '../lib/utils';
+import { useAuthStore } from '../store/auth';
+
+// Minutes until the status clears, or 0 to keep it until changed
+const EXPIRY_OPTIONS = [
+  { label: "Don't clear", minutes: 0 },
+  { label: '30 minutes', minutes: 30 },
+  { label: '1 hour', minutes: 60 },
+  { label: '4 hours', minutes: 240 },
+  { label: 'Today', minutes: -1 },
+];
+
+function expiryTime(minutes: number) {
+  if (minutes === 0) return undefined;
+  if (minutes === -1) {
+    const endOfDay = new Date();
+    endOfDay.setHours(23, 59, 59, 0);
+    return endOfDay.toISOString();
+  }
+  return new Date(Date.now() + minutes * 60000).toISOString();
+}
+
+export function StatusPanel() {
+  const [status, setStatus] = useState<UserStatus>('available');
+  const [message, setMessage] = useState('');
+  const [expiryMinutes, setExpiryMinutes] = useState(0);
+  const [current, setCurrent] = useState<UserPresence | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const { token } = useAuthStore();
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!token) return;
+
+    setIsSaving(true);
+    setError('');
+    const result = await grpcClient.setStatus(
+      token,
+      status,
+      message.trim() || undefined,
+      expiryTime(expiryMinutes)
+    );
+    setIsSaving(false);
+
+    if (result.success && result.data) {
+      setCurrent(result.data);
+    } else {
+      setError(result.error || 'Failed to set status');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="border-t border-slate-200 px-6 py-4 space-y-3">
+      <h2 className="text-sm font-semibold text-slate-800">Your status</h2>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={status}
+          onChange={e => setStatus(e.target.value as UserStatus)}
+          className="messaging-input text-sm w-auto"
+        >
+          {Object.entries(USER_STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          value={message}
+          onChange={e => setMessage(e.target.value)}
+          maxLength={100}
+          placeholder="What's your status?"
+          className="messaging-input text-sm flex-1 min-w-[12rem]"
+        />
+        <select
+          value={expiryMinutes}
+          onChange={e => setExpiryMinutes(Number(e.target.value))}
+          className="messaging-input text-sm w-auto"
+        >
+          {EXPIRY_OPTIONS.map(option => (
+            <option key={option.minutes} value={option.minutes}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button type="submit" disabled={isSaving} className="messaging-button-secondary text-sm">
+          {isSaving ? 'Saving...' : 'Set status'}
+        </button>
+      </div>
+
+      {current && (
+        <div className="text-sm text-slate-500">
+          Showing as {USER_STATUS_LABELS[current.status]}
+          {current.status_message && ` — ${current.status_message}`}
+          {current.status_expires_at &&
+            ` until ${new Date(current.status_expires_at).toLocaleTimeString()}`}
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </form>
+  );
+}
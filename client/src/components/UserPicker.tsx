@@ -10,7 +10,7 @@ interface User {
 }
 
 interface UserPickerProps {
-  onSelectUser: (user: User) => void;
+  onSelectUser: (user: User | null) => void;
   selectedUser?: User;
 }
 
@@ -111,7 +111,7 @@ export function UserPicker({ onSelectUser, selectedUser }: UserPickerProps) {
               <div className="text-sm text-blue-700">{selectedUser.email}</div>
             </div>
             <button
-              onClick={() => onSelectUser(null!)}
+              onClick={() => onSelectUser(null)}
               className="text-blue-600 hover:text-blue-800 font-medium"
             >
               Change
@@ -1,21 +1,44 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuthStore } from '../store/auth';
-
-interface RealtimeMessage {
-  type: 'new-message' | 'message-sent' | 'typing' | 'connected' | 'user-status';
-  senderId?: string;
-  message?: any;
-  isTyping?: boolean;
-  userId?: string;
-  isOnline?: boolean;
-  timestamp: string;
-}
+import { realtimeSocket } from '../lib/realtime-socket';
+import {
+  API_BASE_URL,
+  grpcClient,
+  MessageReaction,
+  ServerMessage,
+  UserPresence,
+} from '../lib/api-client';
+import {
+  parseRealtimeEvent,
+  REALTIME_EVENT_TYPES,
+  REALTIME_PROTOCOL_VERSION,
+} from '@messaging/shared';
+
+// How often activity pings go out at most while the user interacts with the page
+const ACTIVITY_PING_INTERVAL_MS = 60000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'focus'];
 
 interface UseRealTimeMessagingOptions {
-  onNewMessage?: (senderId: string, message: any) => void;
-  onTyping?: (senderId: string, isTyping: boolean) => void;
+  onNewMessage?: (senderId: string, message: ServerMessage) => void;
+  onTyping?: (senderId: string, conversationId: string, isTyping: boolean) => void;
   onConnected?: () => void;
-  onUserStatusChange?: (userId: string, isOnline: boolean) => void;
+  onUserStatusChange?: (userId: string, isOnline: boolean, presence?: UserPresence) => void;
+  onConversationUpdated?: (conversationId: string, change: string) => void;
+  onMessageEdited?: (message: ServerMessage) => void;
+  onMessageDeleted?: (messageId: string, conversationId: string) => void;
+  onReactionUpdated?: (
+    messageId: string,
+    conversationId: string,
+    reactions: MessageReaction[]
+  ) => void;
+  onReceipt?: (
+    conversationId: string,
+    messageIds: string[],
+    status: 'delivered' | 'read'
+  ) => void;
+  onSessionRevoked?: () => void;
+  onResyncRequired?: () => void;
 }
 
 export function useRealTimeMessaging({
@@ -23,28 +46,39 @@ export function useRealTimeMessaging({
   onTyping,
   onConnected,
   onUserStatusChange,
+  onConversationUpdated,
+  onMessageEdited,
+  onMessageDeleted,
+  onReactionUpdated,
+  onReceipt,
+  onSessionRevoked,
+  onResyncRequired,
 }: UseRealTimeMessagingOptions = {}) {
   const [isConnected, setIsConnected] = useState(false);
   const [reconnectAttempts, setReconnectAttempts] = useState(0);
   const { token, user } = useAuthStore();
   const eventSourceRef = useRef<EventSource | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const webSocketFailedRef = useRef(false); // Set once a WebSocket can't open, to stay on SSE
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
   const isConnectingRef = useRef(false); // Synchronous flag to prevent double connections
+  const lastEventIdRef = useRef<string | null>(null); // Resume point for replay after reconnects
 
   // Send typing notification to server
   const sendTypingNotification = useCallback(
-    async (recipientId: string, isTyping: boolean) => {
+    async (conversationId: string, isTyping: boolean) => {
       if (!token) return;
+      if (realtimeSocket.sendTyping(conversationId, isTyping)) return;
 
       try {
-        await fetch('http://localhost:8080/api/sse/typing', {
+        await fetch(`${API_BASE_URL}/api/sse/typing`, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
             Authorization: `Bearer ${token}`,
           },
           body: JSON.stringify({
-            recipientId,
+            conversationId,
             isTyping,
           }),
         });
@@ -55,11 +89,162 @@ export function useRealTimeMessaging({
     [token]
   );
 
+  // Parses an event from either transport against the shared protocol and routes
+  // it to the matching callback. Events this build doesn't know, e.g. from a
+  // newer server, are skipped rather than breaking the connection.
+  const handleRealtimeEvent = (raw: unknown, eventId?: string) => {
+    // Only logged events carry ids; remember the newest as the replay point
+    if (eventId) lastEventIdRef.current = eventId;
+
+    const event = parseRealtimeEvent(raw);
+    if (!event) {
+      console.warn('Ignoring unrecognised real-time event:', raw);
+      return;
+    }
+
+    switch (event.type) {
+      case 'connected':
+        if (event.protocolVersion > REALTIME_PROTOCOL_VERSION) {
+          console.info('Server speaks a newer real-time protocol; unknown events will be ignored');
+        }
+        onConnected?.();
+        break;
+      case 'online-users':
+        // This will be handled by RealTimeProvider
+        window.dispatchEvent(
+          new CustomEvent('online-users-update', {
+            detail: { users: event.users },
+          })
+        );
+        break;
+      case 'user-status':
+        onUserStatusChange?.(
+          event.userId,
+          event.isOnline,
+          // Servers that predate away and statuses only send isOnline
+          event.state && event.status
+            ? {
+                user_id: event.userId,
+                state: event.state,
+                status: event.status,
+                status_message: event.statusMessage ?? null,
+                status_expires_at: event.statusExpiresAt ?? null,
+                last_seen_at: event.lastSeenAt ?? null,
+              }
+            : undefined
+        );
+        break;
+      case 'new-message':
+        // Messages arrive whole; the schema only checks the fields it relies on
+        onNewMessage?.(event.senderId, event.message as unknown as ServerMessage);
+        break;
+      case 'typing':
+      case 'group-typing':
+        onTyping?.(event.senderId, event.conversationId, event.isTyping);
+        break;
+      case 'conversation-updated':
+        onConversationUpdated?.(event.conversationId, event.change);
+        break;
+      case 'message-edited':
+        onMessageEdited?.(event.message as unknown as ServerMessage);
+        break;
+      case 'message-deleted':
+        onMessageDeleted?.(event.messageId, event.conversationId);
+        break;
+      case 'reaction-updated':
+        onReactionUpdated?.(event.messageId, event.conversationId, event.reactions);
+        break;
+      case 'receipt':
+        if (event.status !== 'sent') {
+          onReceipt?.(event.conversationId, event.messageIds, event.status);
+        }
+        break;
+      case 'resync-required':
+        // Too much was missed to replay, so views should refetch from the api
+        console.log('Resync required after reconnect');
+        onResyncRequired?.();
+        break;
+      case 'session-revoked':
+        console.log('Session revoked by server');
+        onSessionRevoked?.();
+        break;
+      case 'ack':
+        realtimeSocket.handleAck(event);
+        break;
+      case 'error':
+        console.error('Real-time frame rejected:', event.error);
+        break;
+    }
+  };
+
   const connectRef = useRef<() => Promise<void>>();
 
+  const scheduleReconnect = () => {
+    // Only reconnect if we have token and user
+    if (!token || !user) return;
+
+    // Exponential backoff for reconnection
+    const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
+    console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttempts + 1})`);
+
+    reconnectTimeoutRef.current = setTimeout(() => {
+      setReconnectAttempts(prev => prev + 1);
+      if (token && user && connectRef.current) {
+        connectRef.current().catch(console.error);
+      }
+    }, delay);
+  };
+
+  const openWebSocket = (sessionToken: string) => {
+    const params = new URLSearchParams({
+      session: sessionToken,
+      v: String(REALTIME_PROTOCOL_VERSION),
+    });
+    if (lastEventIdRef.current) params.set('since', lastEventIdRef.current);
+    const socket = new WebSocket(`${API_BASE_URL.replace(/^http/, 'ws')}/api/ws?${params}`);
+    let opened = false;
+
+    socket.onopen = () => {
+      opened = true;
+      realtimeSocket.attach(socket);
+      setIsConnected(true);
+      setReconnectAttempts(0);
+      isConnectingRef.current = false;
+    };
+
+    socket.onmessage = message => {
+      try {
+        const frame = JSON.parse(message.data);
+        handleRealtimeEvent(frame.data, frame.id === undefined ? undefined : String(frame.id));
+      } catch (_error) {
+        console.error('Failed to parse real-time message:', _error);
+      }
+    };
+
+    socket.onclose = () => {
+      realtimeSocket.detach(socket);
+      if (socketRef.current !== socket) return;
+
+      socketRef.current = null;
+      setIsConnected(false);
+      isConnectingRef.current = false;
+
+      if (!opened) {
+        // Blocked by a proxy or unsupported by the server, so use SSE from now on
+        webSocketFailedRef.current = true;
+        connectRef.current?.().catch(console.error);
+        return;
+      }
+
+      scheduleReconnect();
+    };
+
+    socketRef.current = socket;
+  };
+
   connectRef.current = async () => {
     console.log('connectRef.current called', { token: !!token, user: !!user, existing: !!eventSourceRef.current, isConnecting: isConnectingRef.current });
-    if (!token || !user || eventSourceRef.current || isConnectingRef.current) {
+    if (!token || !user || eventSourceRef.current || socketRef.current || isConnectingRef.current) {
       console.log('connectRef.current early return:', { token: !!token, user: !!user, existing: !!eventSourceRef.current, isConnecting: isConnectingRef.current });
       return;
     }
@@ -71,7 +256,7 @@ export function useRealTimeMessaging({
 
     try {
       // Create a temporary SSE session token for security
-      const sessionResponse = await fetch('http://localhost:8080/api/sse/session', {
+      const sessionResponse = await fetch(`${API_BASE_URL}/api/sse/session`, {
         method: 'POST',
         headers: {
           'Authorization': `Bearer ${token}`,
@@ -88,11 +273,21 @@ export function useRealTimeMessaging({
         throw new Error('Invalid session response');
       }
 
+      // Prefer a WebSocket, which also carries typing, reads and sends upstream
+      if (typeof WebSocket !== 'undefined' && !webSocketFailedRef.current) {
+        openWebSocket(sessionData.data.sessionToken);
+        return;
+      }
+
       // Use session token in URL instead of main auth token
       console.log('Creating EventSource with session:', sessionData.data.sessionToken.substring(0, 10) + '...', 'timestamp:', Date.now());
-      const eventSourceWithAuth = new EventSource(
-        `http://localhost:8080/api/sse/events?session=${encodeURIComponent(sessionData.data.sessionToken)}`
-      );
+      const params = new URLSearchParams({
+        session: sessionData.data.sessionToken,
+        v: String(REALTIME_PROTOCOL_VERSION),
+      });
+      // A new EventSource doesn't send Last-Event-ID, so pass where we left off explicitly
+      if (lastEventIdRef.current) params.set('since', lastEventIdRef.current);
+      const eventSourceWithAuth = new EventSource(`${API_BASE_URL}/api/sse/events?${params}`);
 
       eventSourceWithAuth.onopen = () => {
       console.log('Real-time messaging connected');
@@ -101,93 +296,16 @@ export function useRealTimeMessaging({
       isConnectingRef.current = false;
     };
 
-    eventSourceWithAuth.addEventListener('message', event => {
-      console.log('Raw SSE message received:', event);
-      try {
-        const data: RealtimeMessage = JSON.parse(event.data);
-        console.log('Parsed real-time event:', data);
-
-        switch (data.type) {
-          case 'connected':
-            onConnected?.();
-            break;
-          case 'new-message':
-            if (data.senderId && data.message) {
-              onNewMessage?.(data.senderId, data.message);
-              // Show browser notification if supported and page is not focused
-              if (
-                'Notification' in window &&
-                Notification.permission === 'granted' &&
-                document.hidden
-              ) {
-                new Notification(`New message from @${data.message.sender_username || 'Unknown'}`, {
-                  body: data.message.content,
-                  icon: '/favicon.ico',
-                });
-              }
-            }
-            break;
-          case 'typing':
-            if (data.senderId !== undefined && data.isTyping !== undefined) {
-              onTyping?.(data.senderId, data.isTyping);
-            }
-            break;
-          case 'message-sent':
-            // Handle confirmation of sent message if needed
-            break;
-          case 'user-status':
-            if (data.userId !== undefined && data.isOnline !== undefined) {
-              onUserStatusChange?.(data.userId, data.isOnline);
-            }
-            break;
+    // The server names every event, so listen for each type in the protocol
+    for (const type of REALTIME_EVENT_TYPES) {
+      eventSourceWithAuth.addEventListener(type, event => {
+        try {
+          handleRealtimeEvent(JSON.parse(event.data), event.lastEventId);
+        } catch (_error) {
+          console.error('Failed to parse real-time message:', _error);
         }
-      } catch (_error) {
-        console.error('Failed to parse real-time message:', _error);
-      }
-    });
-
-    // Also listen for specific event types
-    eventSourceWithAuth.addEventListener('connected', event => {
-      console.log('Connected event:', event.data);
-      onConnected?.();
-    });
-
-    eventSourceWithAuth.addEventListener('online-users', event => {
-      console.log('Online users event:', event.data);
-      const data = JSON.parse(event.data);
-      if (data.users && Array.isArray(data.users)) {
-        // This will be handled by RealTimeProvider
-        window.dispatchEvent(
-          new CustomEvent('online-users-update', {
-            detail: { users: data.users },
-          })
-        );
-      }
-    });
-
-    eventSourceWithAuth.addEventListener('user-status', event => {
-      console.log('User status event:', event.data);
-      const data = JSON.parse(event.data);
-      if (data.userId !== undefined && data.isOnline !== undefined) {
-        onUserStatusChange?.(data.userId, data.isOnline);
-      }
-    });
-
-    eventSourceWithAuth.addEventListener('new-message', event => {
-      console.log('New message event:', event.data);
-      const data = JSON.parse(event.data);
-      if (data.senderId && data.message) {
-        onNewMessage?.(data.senderId, data.message);
-      }
-    });
-
-    eventSourceWithAuth.addEventListener('typing', event => {
-      console.log('Typing event:', event.data);
-      const data = JSON.parse(event.data);
-      if (data.senderId !== undefined && data.isTyping !== undefined) {
-        onTyping?.(data.senderId, data.isTyping);
-      }
-    });
+      });
+    }
 
     eventSourceWithAuth.onerror = error => {
       console.error('Real-time messaging error:', error);
@@ -196,40 +314,18 @@ export function useRealTimeMessaging({
       setIsConnected(false);
       isConnectingRef.current = false;
       eventSourceWithAuth.close();
+      eventSourceRef.current = null;
 
-      // Only reconnect if we have token and user
-      if (token && user) {
-        // Exponential backoff for reconnection
-        const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
-        console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttempts + 1})`);
-
-        reconnectTimeoutRef.current = setTimeout(() => {
-          setReconnectAttempts(prev => prev + 1);
-          if (token && user && connectRef.current) {
-            connectRef.current().catch(console.error);
-          }
-        }, delay);
-      }
+      scheduleReconnect();
     };
 
       eventSourceRef.current = eventSourceWithAuth;
     } catch (error) {
-      console.error('Failed to establish SSE connection:', error);
+      console.error('Failed to establish real-time connection:', error);
       setIsConnected(false);
       isConnectingRef.current = false;
       
-      // Retry with exponential backoff
-      if (token && user) {
-        const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
-        console.log(`Retrying SSE connection in ${delay}ms`);
-        
-        reconnectTimeoutRef.current = setTimeout(() => {
-          setReconnectAttempts(prev => prev + 1);
-          if (token && user && connectRef.current) {
-            connectRef.current().catch(console.error);
-          }
-        }, delay);
-      }
+      scheduleReconnect();
     }
   };
 
@@ -244,6 +340,14 @@ export function useRealTimeMessaging({
       eventSourceRef.current = null;
     }
 
+    if (socketRef.current) {
+      console.log('Disconnecting from real-time messaging');
+      const socket = socketRef.current;
+      socketRef.current = null;
+      realtimeSocket.detach(socket);
+      socket.close();
+    }
+
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
@@ -251,6 +355,8 @@ export function useRealTimeMessaging({
     setIsConnected(false);
     setReconnectAttempts(0);
     isConnectingRef.current = false;
+    lastEventIdRef.current = null;
+    webSocketFailedRef.current = false;
   }, []);
 
   // Auto-connect when token and user are available
@@ -260,15 +366,15 @@ export function useRealTimeMessaging({
     if (!token || !user) {
       console.log('No token or user, disconnecting');
       // Disconnect if we lose auth
-      if (eventSourceRef.current) {
+      if (eventSourceRef.current || socketRef.current) {
         disconnect();
       }
       return;
     }
 
     // Only connect if not already connected or connecting
-    if (!eventSourceRef.current && !isConnectingRef.current) {
-      console.log('Setting up SSE connection for user:', user.id, 'timestamp:', Date.now());
+    if (!eventSourceRef.current && !socketRef.current && !isConnectingRef.current) {
+      console.log('Setting up real-time connection for user:', user.id, 'timestamp:', Date.now());
       connect();
     } else {
       console.log('Connection already exists or connecting for user:', user.id, 'existing:', !!eventSourceRef.current, 'isConnecting:', isConnectingRef.current);
@@ -278,6 +384,31 @@ export function useRealTimeMessaging({
     // Only disconnect if token/user actually changes
   }, [token, user?.id]);
 
+  // Tell the server the user is active, at most once a minute while they interact,
+  // so contacts see them as away once they stop
+  useEffect(() => {
+    if (!isConnected || !token) return;
+
+    let lastPingAt = Date.now();
+    const handleActivity = () => {
+      if (document.hidden || Date.now() - lastPingAt < ACTIVITY_PING_INTERVAL_MS) return;
+
+      lastPingAt = Date.now();
+      if (!realtimeSocket.sendActivity()) {
+        grpcClient.sendActivity(token).catch(console.error);
+      }
+    };
+
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, handleActivity, { passive: true });
+    }
+    return () => {
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, handleActivity);
+      }
+    };
+  }, [isConnected, token]);
+
   // Request notification permission on first use
   useEffect(() => {
     if ('Notification' in window && Notification.permission === 'default') {
@@ -0,0 +1,42 @@
+import { useState, useEffect } from 'react';
+
+// Returns the ids of the users typing in a conversation. The server clears
+// typing when someone stops refreshing it, and a message from them ends it too.
+export function useTypingUsers(conversationId?: string) {
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setTypingUserIds([]);
+
+    const setTyping = (senderId: string, typing: boolean) => {
+      setTypingUserIds(prev => {
+        const others = prev.filter(id => id !== senderId);
+        return typing ? [...others, senderId] : others;
+      });
+    };
+
+    const handleTyping = (event: WindowEventMap['user-typing']) => {
+      const { senderId, conversationId: typingConversationId, isTyping } = event.detail;
+      if (typingConversationId === conversationId) {
+        setTyping(senderId, isTyping);
+      }
+    };
+
+    const handleNewMessage = (event: WindowEventMap['new-message']) => {
+      const { senderId, message } = event.detail;
+      if (message?.conversation_id === conversationId) {
+        setTyping(senderId, false);
+      }
+    };
+
+    window.addEventListener('user-typing', handleTyping);
+    window.addEventListener('new-message', handleNewMessage);
+
+    return () => {
+      window.removeEventListener('user-typing', handleTyping);
+      window.removeEventListener('new-message', handleNewMessage);
+    };
+  }, [conversationId]);
+
+  return typingUserIds;
+}
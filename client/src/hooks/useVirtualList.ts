@@ -0,0 +1,211 @@
+import { useLayoutEffect, useMemo, useRef, useState } from 'react';
+
+interface VirtualListOptions {
+  // Row identities in display order
+  keys: string[];
+  // Height assumed for rows that haven't been rendered yet
+  estimatedHeight: number;
+  // Height rendered beyond each edge of the viewport so fast scrolling doesn't show gaps
+  overscan?: number;
+  // Within this distance of the end the list keeps following the newest rows
+  followThreshold?: number;
+}
+
+// Keeps the reader's place: the row at the top of the viewport and how far into it
+// the viewport starts. No anchor means the list follows its end.
+interface ScrollAnchor {
+  key: string;
+  offset: number;
+}
+
+// Start offset of a row, or the total height for the index past the last row
+function offsetOf(offsets: number[], index: number) {
+  return offsets[index] ?? 0;
+}
+
+// Index of the row covering a position, given each row's start offset plus the total
+function rowAt(offsets: number[], position: number) {
+  let low = 0;
+  let high = Math.max(0, offsets.length - 2);
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsetOf(offsets, mid + 1) <= position) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// Renders only the rows near the viewport of a scroll container. Rows are measured
+// once rendered, and the row the reader is looking at stays put when rows are added
+// above it or resize; at the end of the list new rows are followed instead.
+// Rows must be the direct children of the list element.
+export function useVirtualList({
+  keys,
+  estimatedHeight,
+  overscan = 800,
+  followThreshold = 80,
+}: VirtualListOptions) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  const observedRef = useRef(new Set<HTMLElement>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const [measured, setMeasured] = useState(0);
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0, listTop: 0 });
+  const [atEnd, setAtEnd] = useState(true);
+
+  const offsets = useMemo(() => {
+    const result = [0];
+    let total = 0;
+    for (const key of keys) {
+      total += heightsRef.current.get(key) ?? estimatedHeight;
+      result.push(total);
+    }
+    return result;
+  }, [keys, measured, estimatedHeight]);
+
+  const indexByKey = useMemo(() => new Map(keys.map((key, index) => [key, index])), [keys]);
+
+  const totalHeight = offsetOf(offsets, keys.length);
+  const position = viewport.scrollTop - viewport.listTop;
+  const start = keys.length ? rowAt(offsets, position - overscan) : 0;
+  const end = keys.length ? rowAt(offsets, position + viewport.height + overscan) + 1 : 0;
+
+  const recordHeight = (element: HTMLElement) => {
+    const key = element.dataset['virtualKey'];
+    if (!key || heightsRef.current.get(key) === element.offsetHeight) return false;
+
+    heightsRef.current.set(key, element.offsetHeight);
+    return true;
+  };
+
+  // Declared ahead of the measuring effect below so the observer exists on its first run
+  useLayoutEffect(() => {
+    // Rows change height after their first render when images load or reactions come in
+    observerRef.current = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        changed = recordHeight(entry.target as HTMLElement) || changed;
+      }
+      if (changed) setMeasured(count => count + 1);
+    });
+
+    return () => {
+      observerRef.current?.disconnect();
+      observedRef.current.clear();
+    };
+  }, []);
+
+  // Runs after every render, before paint: measures new rows, then puts the anchored
+  // row back where the reader had it. Both re-render synchronously until settled.
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+
+    let changed = false;
+    for (const element of observedRef.current) {
+      if (element.isConnected) continue;
+      observerRef.current?.unobserve(element);
+      observedRef.current.delete(element);
+    }
+    for (const element of Array.from(list.children) as HTMLElement[]) {
+      if (observedRef.current.has(element)) continue;
+      observerRef.current?.observe(element);
+      observedRef.current.add(element);
+      changed = recordHeight(element) || changed;
+    }
+    if (changed) {
+      setMeasured(count => count + 1);
+      return;
+    }
+
+    const anchor = anchorRef.current;
+    const anchorIndex = anchor ? indexByKey.get(anchor.key) : undefined;
+    if (anchorIndex === undefined) {
+      // Nothing to hold on to, such as a freshly loaded list: show the newest rows
+      anchorRef.current = null;
+      if (!atEnd) setAtEnd(true);
+    }
+
+    const target =
+      anchor && anchorIndex !== undefined
+        ? list.offsetTop + offsetOf(offsets, anchorIndex) + anchor.offset
+        : container.scrollHeight - container.clientHeight;
+    if (Math.abs(container.scrollTop - target) > 1) {
+      container.scrollTop = target;
+    }
+
+    if (
+      viewport.scrollTop !== container.scrollTop ||
+      viewport.height !== container.clientHeight ||
+      viewport.listTop !== list.offsetTop
+    ) {
+      setViewport({
+        scrollTop: container.scrollTop,
+        height: container.clientHeight,
+        listTop: list.offsetTop,
+      });
+    }
+  });
+
+  const onScroll = () => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return;
+
+    const following =
+      container.scrollHeight - container.scrollTop - container.clientHeight < followThreshold;
+    const top = container.scrollTop - list.offsetTop;
+    const index = rowAt(offsets, Math.max(0, top));
+    const key = keys[index];
+    anchorRef.current =
+      following || key === undefined ? null : { key, offset: top - offsetOf(offsets, index) };
+
+    setAtEnd(following);
+    setViewport({
+      scrollTop: container.scrollTop,
+      height: container.clientHeight,
+      listTop: list.offsetTop,
+    });
+  };
+
+  // Centres a row in the viewport and holds it there while rows around it are measured
+  const scrollToIndex = (index: number) => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    const key = keys[index];
+    if (!container || !list || key === undefined) return;
+
+    const rowHeight = offsetOf(offsets, index + 1) - offsetOf(offsets, index);
+    const offset = (rowHeight - container.clientHeight) / 2;
+    anchorRef.current = { key, offset };
+    container.scrollTop = list.offsetTop + offsetOf(offsets, index) + offset;
+    setAtEnd(false);
+  };
+
+  const scrollToEnd = () => {
+    const container = containerRef.current;
+    anchorRef.current = null;
+    if (container) container.scrollTop = container.scrollHeight;
+    setAtEnd(true);
+  };
+
+  return {
+    containerRef,
+    listRef,
+    onScroll,
+    start,
+    end,
+    // Space standing in for the rows that aren't rendered
+    paddingTop: offsetOf(offsets, start),
+    paddingBottom: totalHeight - offsetOf(offsets, end),
+    // Row at the top of the viewport
+    firstVisible: keys.length ? rowAt(offsets, Math.max(0, position)) : -1,
+    indexOf: (key: string) => indexByKey.get(key),
+    atEnd,
+    scrollToIndex,
+    scrollToEnd,
+  };
+}
@@ -1,6 +1,8 @@
 interface LoginResponse {
   success: boolean;
   token?: string;
+  refreshToken?: string;
+  expiresAt?: string;
   user?: {
     id: string;
     username: string;
@@ -13,16 +15,158 @@ interface Message {
   id: string;
   content: string;
   sender_id: string;
-  recipient_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
+  status?: MessageStatus;
   created_at: number;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reactions?: MessageReaction[];
+  reply_to_id?: string | null;
+  reply_to?: MessageQuote | null;
+  attachments?: AttachmentSummary[];
 }
 
+// A message as the server sends it, in api responses and real-time events
+export interface ServerMessage extends Omit<Message, 'created_at'> {
+  sender_username?: string;
+  created_at: string;
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+export interface AttachmentSummary {
+  id: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  has_thumbnail: boolean;
+}
+
+export interface MessageQuote {
+  id: string;
+  sender_id: string;
+  sender_username: string;
+  content: string;
+  deleted_at: string | null;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  users: { id: string; username: string }[];
+}
+
+export interface MessageSearchHit {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  sender_username: string;
+  created_at: string;
+  snippet: string;
+}
+
+// a run of messages, oldest first; pass prevCursor as `before` for older
+// messages and nextCursor as `after` to catch up on newer ones
+export interface MessagePage {
+  messages: Message[];
+  prevCursor?: string;
+  nextCursor?: string;
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+export interface ConversationParticipant {
+  id: string;
+  username: string;
+  email: string;
+  role: 'admin' | 'member';
+}
+
+export interface ConversationSummary {
+  id: string;
+  type: 'direct' | 'group';
+  name: string | null;
+  created_at: string;
+  last_message_at: string | null;
+  unread_count: number;
+  participants: ConversationParticipant[];
+  counterpart: {
+    id: string;
+    username: string;
+    email: string;
+  } | null;
+  last_message: {
+    id: string;
+    content: string;
+    sender_id: string;
+    sender_username: string;
+    created_at: string;
+    deleted_at: string | null;
+  } | null;
+}
+
+export interface UserSession {
+  id: string;
+  created_at: string;
+  expires_at: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  current: boolean;
+}
+
+export type PresenceState = 'online' | 'away' | 'offline';
+
+export type UserStatus = 'available' | 'busy' | 'do-not-disturb';
+
+export interface UserPresence {
+  user_id: string;
+  state: PresenceState;
+  status: UserStatus;
+  status_message: string | null;
+  status_expires_at: string | null;
+  last_seen_at: string | null;
+}
+
+// Where the server runs; the real-time connections are made to the same host
+export const API_BASE_URL = 'http://localhost:8080';
+
 class ApiClient {
-  private baseUrl = 'http://localhost:8080';
+  private baseUrl = API_BASE_URL;
+  private tokenRefresher: (() => Promise<string | null>) | null = null;
+
+  /**
+   * Registers the callback used to renew an expired access token
+   */
+  setTokenRefresher(refresher: (() => Promise<string | null>) | null) {
+    this.tokenRefresher = refresher;
+  }
+
+  /**
+   * fetch that retries once with a refreshed access token after a 401
+   */
+  private async authorizedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(input, init);
+
+    const headers = new Headers(init.headers);
+    if (response.status !== 401 || !headers.has('Authorization') || !this.tokenRefresher) {
+      return response;
+    }
+
+    const newToken = await this.tokenRefresher();
+    if (!newToken) {
+      return response;
+    }
+
+    headers.set('Authorization', `Bearer ${newToken}`);
+    return fetch(input, { ...init, headers });
+  }
 
   async validateToken(token: string): Promise<LoginResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/auth/validate`, {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/auth/validate`, {
         headers: { Authorization: `Bearer ${token}` },
       });
       const data = await response.json();
@@ -54,6 +198,56 @@ class ApiClient {
           success: true,
           user: data.data.user,
           token: data.data.token,
+          refreshToken: data.data.refreshToken,
+          expiresAt: data.data.expiresAt,
+        };
+      }
+      return data;
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async register(username: string, email: string, password: string): Promise<LoginResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/auth/register`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, email, password }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return {
+          success: true,
+          user: data.data.user,
+          token: data.data.token,
+          refreshToken: data.data.refreshToken,
+          expiresAt: data.data.expiresAt,
+        };
+      }
+      return data;
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async refreshSession(refreshToken: string): Promise<LoginResponse> {
+    try {
+      const response = await fetch(`${this.baseUrl}/api/auth/refresh`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ refreshToken }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return {
+          success: true,
+          user: data.data.user,
+          token: data.data.token,
+          refreshToken: data.data.refreshToken,
+          expiresAt: data.data.expiresAt,
         };
       }
       return data;
@@ -62,13 +256,81 @@ class ApiClient {
     }
   }
 
-  async sendMessage(messageData: { content: string; recipient_id: string }, token?: string): Promise<any> {
+  async logout(token: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/auth/logout`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async getSessions(token: string): Promise<{ sessions: UserSession[] }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/auth/sessions`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return { sessions: data.data.sessions };
+      }
+      return { sessions: [] };
+    } catch (_error) {
+      return { sessions: [] };
+    }
+  }
+
+  async revokeSession(token: string, sessionId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/auth/sessions/${sessionId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async revokeOtherSessions(token: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/auth/sessions`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async sendMessage(
+    messageData: {
+      content: string;
+      conversation_id?: string;
+      recipient_id?: string;
+      reply_to_id?: string;
+      attachment_ids?: string[];
+      client_id?: string;
+    },
+    token?: string
+  ): Promise<{ success: boolean; data?: ServerMessage; error?: string; retryable?: boolean }> {
     if (!token) {
       return { success: false, error: 'Authentication token required' };
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/api/messages`, {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/messages`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -81,12 +343,158 @@ class ApiClient {
       if (data.success && data.data) {
         return { success: true, data: data.data };
       }
-      return data;
+      // Resending is safe with a client_id, and a server error may not happen twice
+      return { ...data, retryable: response.status >= 500 };
+    } catch (_error) {
+      return { success: false, error: 'Network error', retryable: true };
+    }
+  }
+
+  async editMessage(
+    token: string,
+    messageId: string,
+    content: string
+  ): Promise<{ success: boolean; data?: Message; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/messages/${messageId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ content }),
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true, data: data.data } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async deleteMessage(
+    token: string,
+    messageId: string
+  ): Promise<{ success: boolean; data?: Message; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/messages/${messageId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true, data: data.data } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async addReaction(
+    token: string,
+    messageId: string,
+    emoji: string
+  ): Promise<{ success: boolean; reactions?: MessageReaction[]; error?: string }> {
+    return this.updateReaction(token, messageId, emoji, 'POST');
+  }
+
+  async removeReaction(
+    token: string,
+    messageId: string,
+    emoji: string
+  ): Promise<{ success: boolean; reactions?: MessageReaction[]; error?: string }> {
+    return this.updateReaction(token, messageId, emoji, 'DELETE');
+  }
+
+  private async updateReaction(
+    token: string,
+    messageId: string,
+    emoji: string,
+    method: 'POST' | 'DELETE'
+  ): Promise<{ success: boolean; reactions?: MessageReaction[]; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(
+        `${this.baseUrl}/api/messages/${messageId}/reactions`,
+        {
+          method,
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ emoji }),
+        }
+      );
+      const data = await response.json();
+
+      return data.success
+        ? { success: true, reactions: data.data.reactions }
+        : { success: false, error: data.error };
     } catch (_error) {
       return { success: false, error: 'Network error' };
     }
   }
 
+  async uploadAttachment(
+    token: string,
+    conversationId: string,
+    file: File
+  ): Promise<{ success: boolean; data?: AttachmentSummary; error?: string }> {
+    const form = new FormData();
+    form.append('conversation_id', conversationId);
+    form.append('file', file);
+
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/attachments`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true, data: data.data } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async removeAttachment(
+    token: string,
+    attachmentId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/attachments/${attachmentId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  /**
+   * downloads an attachment (or its thumbnail) as a blob, since img tags can't send the bearer token
+   */
+  async getAttachmentBlob(
+    token: string,
+    attachmentId: string,
+    thumbnail: boolean = false
+  ): Promise<Blob | null> {
+    try {
+      const response = await this.authorizedFetch(
+        `${this.baseUrl}/api/attachments/${attachmentId}${thumbnail ? '/thumbnail' : ''}`,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+
+      return response.ok ? await response.blob() : null;
+    } catch (_error) {
+      return null;
+    }
+  }
+
   async searchUsers(
     token: string,
     query?: string,
@@ -102,7 +510,7 @@ class ApiClient {
       params.set('limit', limit.toString());
       params.set('offset', offset.toString());
 
-      const response = await fetch(`${this.baseUrl}/api/auth/users/search?${params}`, {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/auth/users/search?${params}`, {
         headers: { Authorization: `Bearer ${token}` },
       });
       const data = await response.json();
@@ -119,9 +527,32 @@ class ApiClient {
     }
   }
 
+  async searchMessages(
+    token: string,
+    query: string,
+    cursor?: string
+  ): Promise<{ results: MessageSearchHit[]; nextCursor?: string; error?: string }> {
+    try {
+      const params = new URLSearchParams({ q: query });
+      if (cursor) params.set('cursor', cursor);
+
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/messages/search?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return { results: data.data.results, nextCursor: data.data.next_cursor };
+      }
+      return { results: [], error: data.error };
+    } catch (_error) {
+      return { results: [], error: 'Network error' };
+    }
+  }
+
   async getMessages(token: string): Promise<{ messages: Message[] }> {
     try {
-      const response = await fetch(`${this.baseUrl}/api/messages`, {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/messages`, {
         headers: { Authorization: `Bearer ${token}` },
       });
       const data = await response.json();
@@ -135,22 +566,263 @@ class ApiClient {
     }
   }
 
-  async getConversationMessages(token: string, userId: string, limit: number = 50, cursor?: string): Promise<{ messages: Message[] }> {
+  async getConversations(
+    token: string,
+    limit = 20,
+    offset = 0
+  ): Promise<{ conversations: ConversationSummary[]; hasMore: boolean }> {
+    try {
+      const params = new URLSearchParams({
+        limit: limit.toString(),
+        offset: offset.toString(),
+      });
+
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/conversations?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return {
+          conversations: data.data.conversations,
+          hasMore: data.data.hasMore,
+        };
+      }
+      return { conversations: [], hasMore: false };
+    } catch (_error) {
+      return { conversations: [], hasMore: false };
+    }
+  }
+
+  async getConversation(token: string, conversationId: string): Promise<ConversationSummary | null> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/conversations/${conversationId}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return data.data;
+      }
+      return null;
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  async openDirectConversation(token: string, participantId: string): Promise<ConversationSummary | null> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/conversations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ participant_id: participantId }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return this.getConversation(token, data.data.id);
+      }
+      return null;
+    } catch (_error) {
+      return null;
+    }
+  }
+
+  async createGroup(
+    token: string,
+    name: string,
+    memberIds: string[]
+  ): Promise<{ success: boolean; conversation?: ConversationSummary; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/conversations/groups`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name, member_ids: memberIds }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return { success: true, conversation: data.data };
+      }
+      return { success: false, error: data.error || 'Failed to create group' };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async addGroupMembers(
+    token: string,
+    conversationId: string,
+    memberIds: string[]
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/conversations/${conversationId}/members`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ member_ids: memberIds }),
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async removeGroupMember(
+    token: string,
+    conversationId: string,
+    userId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(
+        `${this.baseUrl}/api/conversations/${conversationId}/members/${userId}`,
+        {
+          method: 'DELETE',
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async markConversationRead(
+    token: string,
+    conversationId: string,
+    messageId: string
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(
+        `${this.baseUrl}/api/conversations/${conversationId}/read`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ message_id: messageId }),
+        }
+      );
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async leaveGroup(token: string, conversationId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/conversations/${conversationId}/leave`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async getConversationMessages(
+    token: string,
+    conversationId: string,
+    limit: number = 50,
+    page: { before?: string; after?: string; around?: string } = {}
+  ): Promise<MessagePage> {
     try {
       const params = new URLSearchParams({ limit: limit.toString() });
-      if (cursor) params.append('cursor', cursor);
+      if (page.before) params.append('before', page.before);
+      if (page.after) params.append('after', page.after);
+      if (page.around) params.append('around', page.around);
+
+      const response = await this.authorizedFetch(
+        `${this.baseUrl}/api/conversations/${conversationId}/messages?${params}`,
+        {
+          headers: { Authorization: `Bearer ${token}` },
+        }
+      );
+      const data = await response.json();
+
+      if (data.success && data.data) {
+        return {
+          messages: data.data.messages,
+          prevCursor: data.data.prev_cursor,
+          nextCursor: data.data.next_cursor,
+          hasOlder: data.data.has_older,
+          hasNewer: data.data.has_newer,
+        };
+      }
+      return { messages: [], hasOlder: false, hasNewer: false };
+    } catch (_error) {
+      return { messages: [], hasOlder: false, hasNewer: false };
+    }
+  }
 
-      const response = await fetch(`${this.baseUrl}/api/messages/conversation/${userId}?${params}`, {
+  async getPresence(token: string): Promise<{ presence: UserPresence[] }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/presence`, {
         headers: { Authorization: `Bearer ${token}` },
       });
       const data = await response.json();
 
       if (data.success && data.data) {
-        return { messages: data.data.messages };
+        return { presence: data.data.presence };
       }
-      return { messages: [] };
+      return { presence: [] };
     } catch (_error) {
-      return { messages: [] };
+      return { presence: [] };
+    }
+  }
+
+  async setStatus(
+    token: string,
+    status: UserStatus,
+    message?: string,
+    expiresAt?: string
+  ): Promise<{ success: boolean; data?: UserPresence; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/presence/status`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ status, message, expires_at: expiresAt }),
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true, data: data.data } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
+    }
+  }
+
+  async sendActivity(token: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const response = await this.authorizedFetch(`${this.baseUrl}/api/presence/activity`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      return data.success ? { success: true } : { success: false, error: data.error };
+    } catch (_error) {
+      return { success: false, error: 'Network error' };
     }
   }
 }
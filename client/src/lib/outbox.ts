@@ -0,0 +1,222 @@
+// Messages the user has sent but the server hasn't confirmed yet. They are kept in
+// IndexedDB so they survive reloads, and sent oldest first whenever there is a
+// connection. Each carries a client_id the server treats as an idempotency key, so
+// resending one that did get through returns the original instead of a copy.
+import { grpcClient, AttachmentSummary, MessageQuote } from './api-client';
+import { realtimeSocket, SendMessageAck } from './realtime-socket';
+
+export interface OutboxMessage {
+  client_id: string;
+  conversation_id: string;
+  sender_id: string;
+  sender_username: string;
+  content: string;
+  reply_to: MessageQuote | null;
+  attachments: AttachmentSummary[];
+  created_at: number;
+  // Pending messages are sent automatically; failed ones were refused by the server
+  // and wait for the user to retry or discard them
+  state: 'pending' | 'failed';
+  error?: string;
+}
+
+interface OutboxSession {
+  token: string;
+  userId: string;
+}
+
+const DATABASE_NAME = 'messaging';
+const STORE_NAME = 'outbox';
+
+// Waits between attempts while the server can't be reached, doubling up to the max
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'client_id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class Outbox {
+  // Mirrors the database, which is only read once; without IndexedDB (such as in
+  // some private windows) the outbox still works, it just doesn't survive a reload
+  private messages = new Map<string, OutboxMessage>();
+  private database: Promise<IDBDatabase | null> | null = null;
+  private loaded: Promise<void> | null = null;
+  private session: OutboxSession | null = null;
+  private flushing = false;
+  private flushAgain = false;
+  private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = RETRY_MIN_MS;
+
+  private openStore() {
+    this.database ??= openDatabase().catch(error => {
+      console.error('Outbox storage unavailable:', error);
+      return null;
+    });
+    return this.database;
+  }
+
+  private async request(
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<IDBRequest['result'] | undefined> {
+    const database = await this.openStore();
+    if (!database) return undefined;
+
+    return new Promise(resolve => {
+      const request = operation(
+        database.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+      );
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Outbox storage error:', request.error);
+        resolve(undefined);
+      };
+    });
+  }
+
+  private load() {
+    this.loaded ??= this.request(store => store.getAll()).then(stored => {
+      for (const message of (stored ?? []) as OutboxMessage[]) {
+        this.messages.set(message.client_id, message);
+      }
+    });
+    return this.loaded;
+  }
+
+  private async save(message: OutboxMessage) {
+    this.messages.set(message.client_id, message);
+    this.announce(message.conversation_id);
+    await this.request(store => store.put(message));
+  }
+
+  private async remove(message: OutboxMessage) {
+    this.messages.delete(message.client_id);
+    this.announce(message.conversation_id);
+    await this.request(store => store.delete(message.client_id));
+  }
+
+  private announce(conversationId: string) {
+    window.dispatchEvent(new CustomEvent('outbox-changed', { detail: { conversationId } }));
+  }
+
+  // The user's unconfirmed messages in a conversation, oldest first
+  async list(conversationId: string, senderId: string): Promise<OutboxMessage[]> {
+    await this.load();
+    return [...this.messages.values()]
+      .filter(m => m.conversation_id === conversationId && m.sender_id === senderId)
+      .sort((a, b) => a.created_at - b.created_at);
+  }
+
+  async enqueue(message: Omit<OutboxMessage, 'client_id' | 'state'>) {
+    await this.load();
+    await this.save({ ...message, client_id: crypto.randomUUID(), state: 'pending' });
+  }
+
+  async retry(clientId: string) {
+    await this.load();
+    const message = this.messages.get(clientId);
+    if (!message) return;
+
+    await this.save({ ...message, state: 'pending', error: undefined });
+  }
+
+  // Only failed messages can be discarded; pending ones may already be on their way
+  async discard(clientId: string) {
+    await this.load();
+    const message = this.messages.get(clientId);
+    if (message?.state === 'failed') await this.remove(message);
+  }
+
+  // Sends pending messages in order. Called after queueing or retrying a message and
+  // whenever the connection may be back; the session it was last given is kept for retries
+  async flush(session: OutboxSession | null = this.session) {
+    this.session = session;
+    if (!session) return;
+    if (this.flushing) {
+      this.flushAgain = true;
+      return;
+    }
+
+    this.flushing = true;
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+
+    try {
+      await this.load();
+      do {
+        this.flushAgain = false;
+        if (!(await this.sendPending(session))) {
+          // Later messages wait too, so they never arrive ahead of this one
+          if (this.session) {
+            this.retryTimeout = setTimeout(() => this.flush(), this.retryDelay);
+            this.retryDelay = Math.min(this.retryDelay * 2, RETRY_MAX_MS);
+          }
+          return;
+        }
+        this.retryDelay = RETRY_MIN_MS;
+      } while (this.flushAgain);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  // Stops retrying, such as when the user signs out; queued messages stay for next time
+  stop() {
+    this.session = null;
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+  }
+
+  // Returns false when the server couldn't be reached and sending should pause
+  private async sendPending(session: OutboxSession) {
+    const pending = [...this.messages.values()]
+      .filter(m => m.state === 'pending' && m.sender_id === session.userId)
+      .sort((a, b) => a.created_at - b.created_at);
+
+    for (const message of pending) {
+      const outgoing = {
+        content: message.content,
+        conversation_id: message.conversation_id,
+        reply_to_id: message.reply_to?.id,
+        attachment_ids: message.attachments.map(attachment => attachment.id),
+        client_id: message.client_id,
+      };
+      // Send over the WebSocket when there is one, otherwise via the API
+      const response: SendMessageAck =
+        (await realtimeSocket.sendMessage(outgoing)) ??
+        (await grpcClient.sendMessage(outgoing, session.token));
+
+      if (response.success) {
+        // Announced before it leaves the outbox so the confirmed message can take its place
+        window.dispatchEvent(
+          new CustomEvent('outbox-sent', {
+            detail: { clientId: message.client_id, message: response.data },
+          })
+        );
+        window.dispatchEvent(
+          new CustomEvent('message-sent', { detail: { message: response.data } })
+        );
+        await this.remove(message);
+      } else if (response.retryable) {
+        return false;
+      } else {
+        await this.save({ ...message, state: 'failed', error: response.error });
+      }
+    }
+
+    return true;
+  }
+}
+
+export const outbox = new Outbox();
@@ -0,0 +1,99 @@
+import type { RealtimeEventOf } from '@messaging/shared';
+import type { ServerMessage } from './api-client';
+
+// Holds the WebSocket useRealTimeMessaging opened, if it got one, so components
+// can send typing updates, read receipts, activity pings and messages over it instead of
+// making separate HTTP requests. Every method reports when there's no open
+// socket so callers can fall back to the REST api.
+
+export interface SendMessageAck {
+  success: boolean;
+  data?: ServerMessage;
+  error?: string;
+  // Set when the server may not have seen the message, so sending again may succeed
+  retryable?: boolean;
+}
+
+interface OutgoingMessage {
+  content: string;
+  conversation_id?: string;
+  recipient_id?: string;
+  reply_to_id?: string;
+  attachment_ids?: string[];
+  client_id?: string;
+}
+
+const ACK_TIMEOUT_MS = 10000;
+
+class RealtimeSocket {
+  private socket: WebSocket | null = null;
+  private pendingAcks = new Map<string, (ack: SendMessageAck) => void>();
+  private nextRequestId = 0;
+
+  attach(socket: WebSocket) {
+    this.socket = socket;
+  }
+
+  detach(socket: WebSocket) {
+    if (this.socket !== socket) return;
+    this.socket = null;
+
+    // The server may or may not have saved these; messages with a client_id
+    // can be resent without risking duplicates
+    for (const resolve of this.pendingAcks.values()) {
+      resolve({ success: false, error: 'Connection lost', retryable: true });
+    }
+    this.pendingAcks.clear();
+  }
+
+  private send(frame: object): boolean {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+
+    this.socket.send(JSON.stringify(frame));
+    return true;
+  }
+
+  sendTyping(conversationId: string, isTyping: boolean): boolean {
+    return this.send({ type: 'typing', conversationId, isTyping });
+  }
+
+  markRead(conversationId: string, messageId: string): boolean {
+    return this.send({ type: 'read', conversationId, messageId });
+  }
+
+  sendActivity(): boolean {
+    return this.send({ type: 'activity' });
+  }
+
+  // Resolves with the server's ack, or returns null when there's no socket
+  sendMessage(message: OutgoingMessage): Promise<SendMessageAck> | null {
+    const requestId = `${Date.now()}-${++this.nextRequestId}`;
+    if (!this.send({ type: 'send-message', requestId, message })) return null;
+
+    return new Promise(resolve => {
+      const timeout = setTimeout(() => {
+        this.pendingAcks.delete(requestId);
+        resolve({ success: false, error: 'Timed out waiting for the server', retryable: true });
+      }, ACK_TIMEOUT_MS);
+
+      this.pendingAcks.set(requestId, ack => {
+        clearTimeout(timeout);
+        resolve(ack);
+      });
+    });
+  }
+
+  handleAck(ack: RealtimeEventOf<'ack'>) {
+    if (!ack.requestId) return;
+
+    const resolve = this.pendingAcks.get(ack.requestId);
+    if (!resolve) return;
+
+    this.pendingAcks.delete(ack.requestId);
+    // Messages arrive whole; the schema only checks the fields it relies on
+    const data = ack.data as unknown as ServerMessage | undefined;
+    resolve({ success: ack.success, data, error: ack.error, retryable: ack.retryable });
+  }
+}
+
+export const realtimeSocket = new RealtimeSocket();
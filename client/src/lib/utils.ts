@@ -4,3 +4,51 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatLastSeen(lastSeenAt: string | null, now: number = Date.now()) {
+  if (!lastSeenAt) return 'Offline';
+
+  const minutes = Math.floor((now - new Date(lastSeenAt).getTime()) / 60000);
+  if (minutes < 1) return 'last seen just now';
+  if (minutes < 60) return `last seen ${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `last seen ${hours} h ago`;
+
+  return `last seen ${new Date(lastSeenAt).toLocaleDateString()}`;
+}
+
+// Local calendar day, for grouping messages under day separators
+export function dayKey(value: string | number) {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+export function formatDayLabel(value: string | number, now: number = Date.now()) {
+  const date = new Date(value);
+  const today = new Date(now);
+  const yesterday = new Date(now);
+  yesterday.setDate(today.getDate() - 1);
+
+  if (dayKey(date.getTime()) === dayKey(now)) return 'Today';
+  if (dayKey(date.getTime()) === dayKey(yesterday.getTime())) return 'Yesterday';
+
+  return date.toLocaleDateString(undefined, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    ...(date.getFullYear() === today.getFullYear() ? {} : { year: 'numeric' }),
+  });
+}
+
+export const USER_STATUS_LABELS = {
+  available: 'Available',
+  busy: 'Busy',
+  'do-not-disturb': 'Do not disturb',
+} as const;
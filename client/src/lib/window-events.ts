@@ -0,0 +1,29 @@
+import type { MessageReaction, ServerMessage } from './api-client';
+
+// Events components use to tell each other about real-time updates, the outbox
+// and what the user has read, so listeners get typed details
+declare global {
+  interface WindowEventMap {
+    'user-typing': CustomEvent<{ senderId: string; conversationId: string; isTyping: boolean }>;
+    'new-message': CustomEvent<{ senderId: string; message: ServerMessage }>;
+    'message-sent': CustomEvent<{ message: ServerMessage }>;
+    'message-edited': CustomEvent<{ message: ServerMessage }>;
+    'message-deleted': CustomEvent<{ messageId: string; conversationId: string }>;
+    'reaction-updated': CustomEvent<{
+      messageId: string;
+      conversationId: string;
+      reactions: MessageReaction[];
+    }>;
+    'message-receipt': CustomEvent<{
+      conversationId: string;
+      messageIds: string[];
+      status: 'delivered' | 'read';
+    }>;
+    'conversation-updated': CustomEvent<{ conversationId: string; change: string }>;
+    'conversation-read': CustomEvent<{ conversationId: string }>;
+    'online-users-update': CustomEvent<{ users: string[] }>;
+    'realtime-resync': CustomEvent;
+    'outbox-changed': CustomEvent<{ conversationId: string }>;
+    'outbox-sent': CustomEvent<{ clientId: string; message: ServerMessage }>;
+  }
+}
@@ -1,4 +1,5 @@
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import { LoginForm } from '../components/LoginForm';
 import { grpcClient } from '../lib/api-client';
 import { useAuthStore } from '../store/auth';
@@ -16,7 +17,7 @@ export function LoginPage() {
       const response = await grpcClient.login(email, password);
 
       if (response.success && response.user && response.token) {
-        login(response.user, response.token);
+        login(response.user, response.token, response.refreshToken, response.expiresAt);
       } else {
         setError(response.error || 'Login failed');
       }
@@ -40,7 +41,13 @@ export function LoginPage() {
 
         <LoginForm onLogin={handleLogin} error={error} loading={loading} />
 
-        <div className="mt-6 text-center">
+        <div className="mt-6 text-center space-y-2">
+          <p className="text-sm text-slate-500">
+            New here?{' '}
+            <Link to="/signup" className="font-medium text-blue-600 hover:text-blue-800">
+              Create an account
+            </Link>
+          </p>
           <p className="text-sm text-slate-500">Demo credentials: user@legora.com / legora123</p>
         </div>
       </div>
@@ -0,0 +1,172 @@
+import { ComponentProps, useEffect, useRef, useState } from 'react';
+import { MessageList } from '../components/MessageList';
+import { Button } from '../components/ui/Button';
+
+type BenchmarkMessage = ComponentProps<typeof MessageList>['messages'][number];
+
+const SEEDED_MESSAGES = 50_000;
+const OLDER_PAGE_SIZE = 1_000;
+const ME = 'benchmark-me';
+const THEM = 'benchmark-them';
+
+const WORDS = 'lorem ipsum dolor sit amet consectetur adipiscing elit sed do'.split(' ');
+
+// Seeded so every run lays out the same conversation
+const seeded = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const random = seeded(42);
+let nextId = 0;
+
+// Mostly short lines with the odd long paragraph, so row heights vary a lot
+function syntheticMessage(createdAt: number, previous?: BenchmarkMessage): BenchmarkMessage {
+  const fromMe = random() < 0.5;
+  const length = random() < 0.1 ? 40 + Math.floor(random() * 120) : 1 + Math.floor(random() * 14);
+  const content = Array.from({ length }, () => WORDS[Math.floor(random() * WORDS.length)]).join(
+    ' '
+  );
+  const id = `benchmark-${nextId++}`;
+
+  return {
+    id,
+    content,
+    sender_id: fromMe ? ME : THEM,
+    recipient_id: fromMe ? THEM : ME,
+    conversation_id: 'benchmark',
+    sender_username: fromMe ? 'me' : 'them',
+    status: 'read',
+    created_at: createdAt,
+    deleted_at: random() < 0.02 ? new Date(createdAt).toISOString() : null,
+    reactions:
+      random() < 0.05 ? [{ emoji: '👍', count: 1, users: [{ id: THEM, username: 'them' }] }] : [],
+    reply_to:
+      previous && random() < 0.05
+        ? {
+            id: previous.id,
+            sender_id: previous.sender_id,
+            content: previous.content,
+            sender_username: previous.sender_username ?? '',
+            deleted_at: null,
+          }
+        : null,
+  };
+}
+
+// Messages ending just before `before`, oldest first, a few minutes to a few hours apart
+function syntheticHistory(count: number, before: number) {
+  const times: number[] = [];
+  let time = before;
+  for (let n = 0; n < count; n++) {
+    time -= 60_000 * (1 + Math.floor(random() * (random() < 0.05 ? 600 : 20)));
+    times.push(time);
+  }
+
+  const messages: BenchmarkMessage[] = [];
+  for (const createdAt of times.reverse()) {
+    messages.push(syntheticMessage(createdAt, messages[messages.length - 1]));
+  }
+  return messages;
+}
+
+// Renders a very long synthetic conversation to check MessageList stays responsive
+export function MessageListBenchmarkPage() {
+  const [seed] = useState(() => {
+    const startedAt = performance.now();
+    const seededMessages = syntheticHistory(SEEDED_MESSAGES, Date.now());
+    return { messages: seededMessages, ms: performance.now() - startedAt };
+  });
+  const [messages, setMessages] = useState(seed.messages);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [firstRenderMs, setFirstRenderMs] = useState<number | null>(null);
+  const [renderedRows, setRenderedRows] = useState(0);
+  const mountedAtRef = useRef(performance.now());
+  const listBoxRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setFirstRenderMs(performance.now() - mountedAtRef.current);
+  }, []);
+
+  // How many messages are actually in the DOM, to show the windowing at work
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setRenderedRows(listBoxRef.current?.querySelectorAll('[data-virtual-key]').length ?? 0);
+    }, 500);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Stands in for a network round trip when scrolling reaches the top
+  const loadOlder = () => {
+    if (loadingOlder) return;
+
+    setLoadingOlder(true);
+    setTimeout(() => {
+      setMessages(current => [
+        ...syntheticHistory(OLDER_PAGE_SIZE, current[0]?.created_at ?? Date.now()),
+        ...current,
+      ]);
+      setLoadingOlder(false);
+    }, 300);
+  };
+
+  const addMessage = (fromMe: boolean) => {
+    setMessages(current => {
+      const message = syntheticMessage(Date.now(), current[current.length - 1]);
+      const sender = fromMe
+        ? { sender_id: ME, recipient_id: THEM, sender_username: 'me' }
+        : { sender_id: THEM, recipient_id: ME, sender_username: 'them' };
+      return [...current, { ...message, ...sender }];
+    });
+  };
+
+  const jumpToRandom = () => {
+    const target = messages[Math.floor(random() * messages.length)];
+    if (target) setFocusMessageId(target.id);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h1 className="text-2xl font-bold text-slate-800">Message list benchmark</h1>
+        <p className="text-sm text-slate-500">
+          {messages.length.toLocaleString()} messages · seeded in {seed.ms.toFixed(0)}ms · first
+          render in {firstRenderMs === null ? '…' : `${firstRenderMs.toFixed(0)}ms`} ·{' '}
+          {renderedRows} rows in the DOM
+        </p>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="secondary" onClick={() => addMessage(false)}>
+          Receive a message
+        </Button>
+        <Button size="sm" variant="secondary" onClick={() => addMessage(true)}>
+          Send a message
+        </Button>
+        <Button size="sm" variant="secondary" onClick={jumpToRandom}>
+          Jump to a random message
+        </Button>
+        {focusMessageId && (
+          <Button size="sm" variant="secondary" onClick={() => setFocusMessageId(null)}>
+            Clear jump
+          </Button>
+        )}
+      </div>
+      <div
+        ref={listBoxRef}
+        className="h-[70vh] rounded-xl border border-slate-200 bg-slate-50 overflow-hidden"
+      >
+        <MessageList
+          messages={messages}
+          currentUserId={ME}
+          focusMessageId={focusMessageId}
+          hasOlder
+          loadingOlder={loadingOlder}
+          onLoadOlder={loadOlder}
+        />
+      </div>
+    </div>
+  );
+}
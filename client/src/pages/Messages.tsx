@@ -1,22 +1,71 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { MessageComposer } from '../components/MessageComposer';
 import { UserSearch } from '../components/UserSearch';
+import { ConversationList } from '../components/ConversationList';
+import { NewGroupForm } from '../components/NewGroupForm';
+import { MessageSearchPanel } from '../components/MessageSearchPanel';
+import { grpcClient, ConversationSummary, MessageSearchHit } from '../lib/api-client';
 import { useAuthStore } from '../store/auth';
 
-interface User {
-  id: string;
-  username: string;
-  email: string;
-}
-
 export function MessagesPage() {
-  const { user } = useAuthStore();
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const { user, token } = useAuthStore();
+  const [selectedConversation, setSelectedConversation] = useState<ConversationSummary | null>(
+    null
+  );
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+
+  const selectConversation = (conversation: ConversationSummary | null) => {
+    setFocusMessageId(null);
+    setSelectedConversation(conversation);
+  };
+
+  const handleUserSelect = async (selectedUser: { id: string; username: string }) => {
+    if (!token) return;
 
-  const handleUserSelect = (selectedUser: User) => {
-    setSelectedUser(selectedUser);
+    const conversation = await grpcClient.openDirectConversation(token, selectedUser.id);
+    if (conversation) {
+      selectConversation(conversation);
+    }
   };
 
+  // Open the conversation a search hit belongs to, scrolled to the hit
+  const handleSearchResult = async (hit: MessageSearchHit) => {
+    if (!token) return;
+
+    const conversation =
+      selectedConversation?.id === hit.conversation_id
+        ? selectedConversation
+        : await grpcClient.getConversation(token, hit.conversation_id);
+    if (conversation) {
+      setSelectedConversation(conversation);
+      setFocusMessageId(hit.id);
+    }
+  };
+
+  const refreshSelectedConversation = useCallback(async () => {
+    if (!token || !selectedConversation) return;
+
+    // A null result means we are no longer a participant
+    const conversation = await grpcClient.getConversation(token, selectedConversation.id);
+    setSelectedConversation(conversation);
+  }, [token, selectedConversation?.id]);
+
+  // Keep the open conversation in sync with membership changes
+  useEffect(() => {
+    const handleConversationUpdated = (event: WindowEventMap['conversation-updated']) => {
+      if (event.detail.conversationId === selectedConversation?.id) {
+        refreshSelectedConversation();
+      }
+    };
+
+    window.addEventListener('conversation-updated', handleConversationUpdated);
+    return () => {
+      window.removeEventListener('conversation-updated', handleConversationUpdated);
+    };
+  }, [selectedConversation?.id, refreshSelectedConversation]);
+
 
   if (!user) {
     return (
@@ -34,20 +83,64 @@ export function MessagesPage() {
       {/* Sidebar */}
       <div className="w-1/3 bg-white border-r border-gray-200 flex flex-col">
         <div className="p-4 border-b border-gray-200">
-          <h2 className="text-lg font-semibold text-gray-800">Messages</h2>
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-800">Messages</h2>
+            <button
+              onClick={() => setShowSearch(prev => !prev)}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              {showSearch ? 'Close search' : 'Search'}
+            </button>
+          </div>
           <p className="text-sm text-gray-600">Welcome, {user.username}</p>
         </div>
         
         <div className="flex-1 overflow-y-auto">
+          {showSearch && <MessageSearchPanel onSelectResult={handleSearchResult} />}
+
+          <div className="border-b border-gray-200">
+            <div className="px-4 pt-3 flex items-center justify-between">
+              <span className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                Conversations
+              </span>
+              <button
+                onClick={() => setShowNewGroup(prev => !prev)}
+                className="text-xs font-medium text-blue-600 hover:text-blue-800"
+              >
+                {showNewGroup ? 'Cancel' : 'New group'}
+              </button>
+            </div>
+            {showNewGroup && (
+              <NewGroupForm
+                onCreated={conversation => {
+                  setShowNewGroup(false);
+                  selectConversation(conversation);
+                }}
+                onCancel={() => setShowNewGroup(false)}
+              />
+            )}
+            <ConversationList
+              selectedConversationId={selectedConversation?.id}
+              onSelect={selectConversation}
+            />
+          </div>
+
+          <div className="px-4 pt-3 text-xs font-medium uppercase tracking-wide text-gray-500">
+            Start a new chat
+          </div>
           <UserSearch onUserSelect={handleUserSelect} />
         </div>
       </div>
 
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col">
-        {selectedUser ? (
-          <MessageComposer 
-            selectedUser={selectedUser}
+        {selectedConversation ? (
+          <MessageComposer
+            conversation={selectedConversation}
+            focusMessageId={focusMessageId}
+            onFocusCleared={() => setFocusMessageId(null)}
+            onConversationChanged={refreshSelectedConversation}
+            onLeft={() => selectConversation(null)}
           />
         ) : (
           <div className="flex items-center justify-center h-full bg-gray-50">
@@ -58,7 +151,7 @@ export function MessagesPage() {
                 </svg>
               </div>
               <h3 className="text-lg font-medium text-gray-800 mb-2">Select a conversation</h3>
-              <p className="text-gray-600">Choose a user from the sidebar to start messaging</p>
+              <p className="text-gray-600">Choose a conversation or user from the sidebar to start messaging</p>
             </div>
           </div>
         )}
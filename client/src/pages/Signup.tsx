@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { SignupForm } from '../components/SignupForm';
+import { grpcClient } from '../lib/api-client';
+import { useAuthStore } from '../store/auth';
+
+export function SignupPage() {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const { login, isLoggedIn } = useAuthStore();
+
+  const handleSignup = async (username: string, email: string, password: string) => {
+    setLoading(true);
+    setError('');
+
+    try {
+      const response = await grpcClient.register(username, email, password);
+
+      if (response.success && response.user && response.token) {
+        login(response.user, response.token, response.refreshToken, response.expiresAt);
+      } else {
+        setError(response.error || 'Registration failed');
+      }
+    } catch (_err) {
+      setError('Network error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (isLoggedIn) {
+    return <Navigate to="/" replace />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-purple-600 rounded-2xl mx-auto mb-4 flex items-center justify-center">
+            <div className="w-8 h-8 bg-white rounded-lg"></div>
+          </div>
+          <h1 className="text-3xl font-bold text-slate-800 mb-2">Create an Account</h1>
+          <p className="text-slate-500">Sign up to start messaging</p>
+        </div>
+
+        <SignupForm onSignup={handleSignup} error={error} loading={loading} />
+
+        <div className="mt-6 text-center">
+          <p className="text-sm text-slate-500">
+            Already have an account?{' '}
+            <Link to="/" className="font-medium text-blue-600 hover:text-blue-800">
+              Sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
 import { Routes, Route } from 'react-router-dom';
 import { Layout } from './components/Layout';
 import { HomePage } from './pages/Home';
+import { SignupPage } from './pages/Signup';
 import { NotFoundPage } from './pages/NotFound';
+import { MessageListBenchmarkPage } from './pages/MessageListBenchmark';
 
 export function Router() {
   return (
     <Routes>
       <Route path="/" element={<Layout />}>
         <Route index element={<HomePage />} />
+        <Route path="signup" element={<SignupPage />} />
+        <Route path="benchmark" element={<MessageListBenchmarkPage />} />
         <Route path="*" element={<NotFoundPage />} />
       </Route>
     </Routes>
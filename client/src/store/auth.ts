@@ -6,12 +6,22 @@ interface User {
   email: string;
 }
 
+interface StoredAuth {
+  user: User;
+  token: string;
+  refreshToken: string | null;
+  expiresAt: string | null;
+}
+
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
+  expiresAt: string | null;
   isLoggedIn: boolean;
   isInitialized: boolean;
-  login: (user: User, token: string) => void;
+  login: (user: User, token: string, refreshToken?: string, expiresAt?: string) => void;
+  setTokens: (token: string, refreshToken: string, expiresAt: string) => void;
   logout: () => void;
   initializeAuth: () => void;
   setAuthFromStorage: (user: User, token: string) => void;
@@ -20,21 +30,26 @@ interface AuthState {
 
 const AUTH_STORAGE_KEY = 'messaging_auth';
 
-function saveAuthToStorage(user: User, token: string) {
+function saveAuthToStorage(auth: StoredAuth) {
   try {
-    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify({ user, token }));
+    localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(auth));
   } catch (_error) {
     console.error('Failed to save auth to localStorage:', _error);
   }
 }
 
-function loadAuthFromStorage(): { user: User; token: string } | null {
+export function loadAuthFromStorage(): StoredAuth | null {
   try {
     const stored = localStorage.getItem(AUTH_STORAGE_KEY);
     if (stored) {
       const parsed = JSON.parse(stored);
       if (parsed.user && parsed.token) {
-        return { user: parsed.user, token: parsed.token };
+        return {
+          user: parsed.user,
+          token: parsed.token,
+          refreshToken: parsed.refreshToken ?? null,
+          expiresAt: parsed.expiresAt ?? null,
+        };
       }
     }
   } catch (_error) {
@@ -54,24 +69,42 @@ function clearAuthFromStorage() {
 export const useAuthStore = create<AuthState>((set, _get) => ({
   user: null,
   token: null,
+  refreshToken: null,
+  expiresAt: null,
   isLoggedIn: false,
   isInitialized: false,
 
-  login: (user, token) => {
-    saveAuthToStorage(user, token);
+  login: (user, token, refreshToken, expiresAt) => {
+    // Re-validating a stored token keeps the refresh token we already hold
+    const nextRefreshToken = refreshToken ?? _get().refreshToken;
+    const nextExpiresAt = expiresAt ?? _get().expiresAt;
+
+    saveAuthToStorage({ user, token, refreshToken: nextRefreshToken, expiresAt: nextExpiresAt });
     set({
       user,
       token,
+      refreshToken: nextRefreshToken,
+      expiresAt: nextExpiresAt,
       isLoggedIn: true,
       isInitialized: true,
     });
   },
 
+  setTokens: (token, refreshToken, expiresAt) => {
+    const { user } = _get();
+    if (!user) return;
+
+    saveAuthToStorage({ user, token, refreshToken, expiresAt });
+    set({ token, refreshToken, expiresAt });
+  },
+
   logout: () => {
     clearAuthFromStorage();
     set({
       user: null,
       token: null,
+      refreshToken: null,
+      expiresAt: null,
       isLoggedIn: false,
       isInitialized: true,
     });
@@ -96,6 +129,8 @@ export const useAuthStore = create<AuthState>((set, _get) => ({
       set({
         user: stored.user,
         token: stored.token,
+        refreshToken: stored.refreshToken,
+        expiresAt: stored.expiresAt,
         isLoggedIn: false,
         isInitialized: false, // Will be set to true after validation
       });
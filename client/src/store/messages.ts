@@ -4,7 +4,8 @@ interface Message {
   id: string;
   content: string;
   sender_id: string;
-  recipient_id: string;
+  recipient_id: string | null;
+  conversation_id?: string;
   created_at: number;
 }
 
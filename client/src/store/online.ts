@@ -1,16 +1,22 @@
 import { create } from 'zustand';
+import type { UserPresence } from '../lib/api-client';
 
 interface OnlineStore {
   onlineUsers: Set<string>;
+  // Away state, chosen status and last seen time of contacts, by user id
+  presence: Record<string, UserPresence>;
   setUserOnline: (userId: string) => void;
   setUserOffline: (userId: string) => void;
   isUserOnline: (userId: string) => boolean;
   setOnlineUsers: (userIds: string[]) => void;
+  setPresence: (presence: UserPresence) => void;
+  setPresenceList: (presence: UserPresence[]) => void;
   clearOnlineUsers: () => void;
 }
 
 export const useOnlineStore = create<OnlineStore>((set, get) => ({
   onlineUsers: new Set(),
+  presence: {},
 
   setUserOnline: (userId: string) => {
     set(state => {
@@ -36,7 +42,29 @@ export const useOnlineStore = create<OnlineStore>((set, get) => ({
     set({ onlineUsers: new Set(userIds) });
   },
 
+  setPresence: (presence: UserPresence) => {
+    set(state => {
+      const newSet = new Set(state.onlineUsers);
+      if (presence.state === 'offline') {
+        newSet.delete(presence.user_id);
+      } else {
+        newSet.add(presence.user_id);
+      }
+      return {
+        onlineUsers: newSet,
+        presence: { ...state.presence, [presence.user_id]: presence },
+      };
+    });
+  },
+
+  setPresenceList: (presence: UserPresence[]) => {
+    set({
+      onlineUsers: new Set(presence.filter(p => p.state !== 'offline').map(p => p.user_id)),
+      presence: Object.fromEntries(presence.map(p => [p.user_id, p])),
+    });
+  },
+
   clearOnlineUsers: () => {
-    set({ onlineUsers: new Set() });
+    set({ onlineUsers: new Set(), presence: {} });
   },
 }));
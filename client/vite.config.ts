@@ -3,6 +3,16 @@ import react from '@vitejs/plugin-react-swc';
 
 export default defineConfig({
   plugins: [react()],
+  // @messaging/shared is a linked CommonJS workspace package, so it has to be
+  // pre-bundled and converted like a regular dependency
+  optimizeDeps: {
+    include: ['@messaging/shared'],
+  },
+  build: {
+    commonjsOptions: {
+      include: [/shared/, /node_modules/],
+    },
+  },
   server: {
     port: 3000,
     proxy: {
@@ -0,0 +1,97 @@
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import pino from 'pino';
+import { createAuthRouter } from './routes/api/auth';
+import { createMessagesRouter } from './routes/api/messages';
+import { createConversationsRouter } from './routes/api/conversations';
+import { createSseRouter } from './routes/api/sse';
+import { createAttachmentsRouter } from './routes/api/attachments';
+import { createPresenceRouter } from './routes/api/presence';
+import { recordDeliveries } from './helpers/receipts';
+import { announcePresence } from './helpers/presence';
+import { createSuccess, createError } from '@messaging/shared';
+import { AttachmentStorage, Realtime, Repositories } from './types';
+
+/**
+ * creates the http app with every route reading and writing through the
+ * given repositories and pushing events through the given real-time state,
+ * which belongs to this app alone so its listeners only ever see its streams
+ * @param repositories - postgres or in-memory persistence
+ * @param realtime - the app's sse and typing managers
+ * @param storage - local or s3 attachment storage
+ * @param logger - logger for unhandled errors
+ * @returns express app ready to listen
+ */
+export function createApp(
+  repositories: Repositories,
+  realtime: Realtime,
+  storage: AttachmentStorage,
+  logger: pino.Logger = pino()
+): express.Application {
+  realtime.sse.onNewMessageDelivered((userIds, message) =>
+    recordDeliveries(repositories, realtime, userIds, message)
+  );
+  realtime.sse.onPresenceChanged((userId, state) =>
+    announcePresence(repositories, realtime, userId, state)
+  );
+
+  const app = express();
+
+  app.use(helmet());
+  app.use(
+    cors({
+      origin: ['http://localhost:3000', 'http://localhost:8080'],
+      credentials: true,
+    })
+  );
+
+  app.use(express.json({ limit: '10mb' }));
+  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+  app.get('/health', (_req, res) => {
+    res.json(
+      createSuccess({
+        status: 'Server healthy',
+        timestamp: new Date().toISOString(),
+        services: {
+          http: 'running',
+        },
+      })
+    );
+  });
+
+  app.use('/api/auth', createAuthRouter(repositories, realtime));
+  app.use('/api/messages', createMessagesRouter(repositories, realtime, storage));
+  app.use('/api/conversations', createConversationsRouter(repositories, realtime));
+  app.use('/api/sse', createSseRouter(repositories, realtime));
+  app.use('/api/attachments', createAttachmentsRouter(repositories, storage));
+  app.use('/api/presence', createPresenceRouter(repositories, realtime));
+
+  app.get('/', (_req, res) => {
+    res.json(
+      createSuccess({
+        message: 'Messaging Platform API',
+        version: '1.0.0',
+        endpoints: {
+          health: '/health',
+          auth: '/api/auth',
+          messages: '/api/messages',
+          conversations: '/api/conversations',
+          attachments: '/api/attachments',
+        },
+      })
+    );
+  });
+
+  app.use('*', (req, res) => {
+    res.status(404).json(createError(`Endpoint not found: ${req.method} ${req.originalUrl}`));
+  });
+
+  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    logger.error('Unhandled HTTP error:', err);
+    res.status(500).json(createError('Internal server error'));
+  });
+
+  return app;
+}
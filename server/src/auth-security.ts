@@ -1,4 +1,5 @@
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 
 const BCRYPT_ROUNDS = 12;
 // TODO: if you have time check this again
@@ -109,6 +110,17 @@ export async function verifyPassword(
   }
 }
 
+/**
+ * Session tokens are random, so a fast unsalted digest is enough to keep them out of the database
+ */
+export function generateSessionToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+export function hashSessionToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * Validates user registration data
  */
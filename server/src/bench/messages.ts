@@ -0,0 +1,124 @@
+// Measures throughput and latency of POST /api/messages against a running
+// server. Signs in as two benchmark users (signing them up on the first run),
+// opens their direct conversation and sends messages from a fixed number of
+// concurrent workers.
+//
+//   npm run dev:server
+//   npm run bench:messages -w server
+//
+// BENCH_URL, BENCH_REQUESTS and BENCH_CONCURRENCY override the defaults. To
+// compare two builds, run it against each with the same database and settings.
+
+const baseUrl = process.env['BENCH_URL'] || 'http://localhost:8080';
+const totalRequests = Number(process.env['BENCH_REQUESTS'] || 2000);
+const concurrency = Number(process.env['BENCH_CONCURRENCY'] || 20);
+
+interface ApiBody<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface BenchUser {
+  username: string;
+  email: string;
+  password: string;
+}
+
+const sender: BenchUser = {
+  username: 'benchsender',
+  email: 'benchsender@example.com',
+  password: 'benchmark123',
+};
+const recipient: BenchUser = {
+  username: 'benchrecipient',
+  email: 'benchrecipient@example.com',
+  password: 'benchmark123',
+};
+
+async function authenticate(path: string, body: object) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return (await response.json()) as ApiBody<{ token: string; user: { id: string } }>;
+}
+
+async function signIn(user: BenchUser) {
+  let body = await authenticate('/api/auth/login', { email: user.email, password: user.password });
+  if (!body.success) {
+    body = await authenticate('/api/auth/register', user);
+  }
+  if (!body.success || !body.data) {
+    throw new Error(`Could not sign in as ${user.username}: ${body.error}`);
+  }
+
+  return body.data;
+}
+
+async function openConversation(token: string, participantId: string) {
+  const response = await fetch(`${baseUrl}/api/conversations`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ participant_id: participantId }),
+  });
+  const body = (await response.json()) as ApiBody<{ id: string }>;
+  if (!body.success || !body.data) {
+    throw new Error(`Could not open conversation: ${body.error}`);
+  }
+
+  return body.data.id;
+}
+
+function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length))]!;
+}
+
+async function run() {
+  const { token } = await signIn(sender);
+  const { user: recipientUser } = await signIn(recipient);
+  const conversationId = await openConversation(token, recipientUser.id);
+
+  const latencies: number[] = [];
+  let failures = 0;
+  let issued = 0;
+
+  const worker = async () => {
+    while (issued < totalRequests) {
+      const n = ++issued;
+      const start = performance.now();
+      try {
+        const response = await fetch(`${baseUrl}/api/messages`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+          body: JSON.stringify({ conversation_id: conversationId, content: `bench message ${n}` }),
+        });
+        await response.arrayBuffer();
+        if (response.status !== 201) failures++;
+      } catch (_error) {
+        failures++;
+      }
+      latencies.push(performance.now() - start);
+    }
+  };
+
+  console.log(`POST /api/messages: ${totalRequests} requests, ${concurrency} concurrent, ${baseUrl}`);
+  const started = performance.now();
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  const elapsedSeconds = (performance.now() - started) / 1000;
+
+  latencies.sort((a, b) => a - b);
+  console.log(`  throughput: ${(totalRequests / elapsedSeconds).toFixed(1)} req/s`);
+  console.log(
+    `  latency:    p50 ${percentile(latencies, 50).toFixed(1)}ms, ` +
+      `p95 ${percentile(latencies, 95).toFixed(1)}ms, p99 ${percentile(latencies, 99).toFixed(1)}ms`
+  );
+  console.log(`  failures:   ${failures}`);
+}
+
+run().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -6,6 +6,22 @@ const envSchema = z.object({
   DATABASE_URL: z
     .string()
     .default(`postgresql://${process.env['USER'] || 'postgres'}@localhost:5432/messaging_db`),
+  ACCESS_TOKEN_TTL_MINUTES: z.string().default('15').transform(Number),
+  REFRESH_TOKEN_TTL_DAYS: z.string().default('30').transform(Number),
+  MESSAGE_EDIT_WINDOW_MINUTES: z.string().default('15').transform(Number),
+  SSE_REPLAY_WINDOW_MINUTES: z.string().default('10').transform(Number),
+  // postgres fans events out across server instances; memory is enough for one
+  REALTIME_BUS: z.enum(['memory', 'postgres']).default('memory'),
+  PRESENCE_IDLE_MINUTES: z.string().default('5').transform(Number),
+  ATTACHMENT_STORAGE: z.enum(['local', 's3']).default('local'),
+  ATTACHMENT_MAX_MB: z.string().default('10').transform(Number),
+  ATTACHMENT_DIR: z.string().default('uploads'),
+  S3_BUCKET: z.string().default('messaging-attachments'),
+  S3_REGION: z.string().default('us-east-1'),
+  // point at minio or another local stand-in, e.g. http://localhost:9000
+  S3_ENDPOINT: z.string().optional(),
+  S3_ACCESS_KEY_ID: z.string().optional(),
+  S3_SECRET_ACCESS_KEY: z.string().optional(),
 });
 
 const env = envSchema.parse(process.env);
@@ -21,4 +37,47 @@ export const config = {
   database: {
     url: env.DATABASE_URL,
   },
+  auth: {
+    accessTokenTtlSeconds: env.ACCESS_TOKEN_TTL_MINUTES * 60,
+    // sliding window: each refresh pushes session expiry this far out
+    refreshTokenTtlSeconds: env.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60,
+  },
+  messages: {
+    editWindowSeconds: env.MESSAGE_EDIT_WINDOW_MINUTES * 60,
+  },
+  sse: {
+    // events kept per user for replay after a reconnect; older gaps need a resync
+    replayLogSize: 200,
+    replayWindowSeconds: env.SSE_REPLAY_WINDOW_MINUTES * 60,
+  },
+  realtime: {
+    bus: env.REALTIME_BUS,
+    channel: 'realtime_events',
+    // nodes re-announce who is connected to them; silent nodes are presumed gone
+    presenceAnnounceSeconds: 30,
+    presenceExpirySeconds: 90,
+  },
+  presence: {
+    // users whose clients stop sending activity pings for this long are away
+    idleSeconds: env.PRESENCE_IDLE_MINUTES * 60,
+  },
+  typing: {
+    // clients refresh typing while keys are pressed; without a refresh it clears
+    expirySeconds: 6,
+    // a user starts typing in a conversation at most once per window
+    throttleSeconds: 2,
+  },
+  attachments: {
+    storage: env.ATTACHMENT_STORAGE,
+    maxBytes: env.ATTACHMENT_MAX_MB * 1024 * 1024,
+    maxFilesPerMessage: 10,
+    localDir: env.ATTACHMENT_DIR,
+    s3: {
+      bucket: env.S3_BUCKET,
+      region: env.S3_REGION,
+      endpoint: env.S3_ENDPOINT,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    },
+  },
 } as const;
@@ -0,0 +1,376 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { ClientBase } from 'pg';
+import pino from 'pino';
+import { closeDatabasePool, getDatabaseClient } from './index';
+import { AppliedMigration, Migration, MigrationStatusEntry, ParsedData } from '../types';
+
+const logger = pino();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+const MIGRATIONS_DIR = join(__dirname, 'migrations');
+
+// e.g. 0002_add_message_index.up.sql and 0002_add_message_index.down.sql
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_-]+)\.(up|down)\.sql$/i;
+
+/**
+ * names a migration the way its files are named, e.g. 0001_baseline
+ */
+function migrationLabel(migration: { version: number; name: string }) {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}`;
+}
+
+/**
+ * reads the numbered migrations from disk, oldest first
+ * @param dir - directory holding the .up.sql / .down.sql pairs
+ * @returns migrations, or error message for a malformed set
+ */
+export function loadMigrations(dir = MIGRATIONS_DIR): ParsedData<Migration[]> {
+  const byVersion = new Map<number, Migration>();
+
+  try {
+    for (const filename of readdirSync(dir).sort()) {
+      if (!filename.endsWith('.sql')) continue;
+
+      const match = MIGRATION_FILE_PATTERN.exec(filename);
+      if (!match) {
+        return { error: `Unrecognized migration file: ${filename}` };
+      }
+
+      const version = Number(match[1]);
+      const name = match[2]!;
+      const sql = readFileSync(join(dir, filename), 'utf-8');
+
+      const migration = byVersion.get(version) ?? { version, name, up: '', down: null, checksum: '' };
+      if (migration.name !== name) {
+        return { error: `Migration ${version} has two names: ${migration.name} and ${name}` };
+      }
+
+      if (match[3]!.toLowerCase() === 'up') {
+        migration.up = sql;
+        migration.checksum = createHash('sha256').update(sql).digest('hex');
+      } else {
+        migration.down = sql;
+      }
+      byVersion.set(version, migration);
+    }
+  } catch (_error) {
+    const message = _error instanceof Error ? _error.message : 'Could not read migrations';
+    return { error: message };
+  }
+
+  const migrations = [...byVersion.values()].sort((a, b) => a.version - b.version);
+  const missingUp = migrations.find(migration => !migration.checksum);
+  if (missingUp) {
+    return { error: `Migration ${migrationLabel(missingUp)} has no up file` };
+  }
+
+  return { data: migrations };
+}
+
+/**
+ * holds a database-wide advisory lock while running fn, so servers booting at
+ * the same time migrate one after another instead of racing; the lock is tied
+ * to the client's session, so one that dies mid-migration releases it too
+ */
+async function withMigrationLock<T>(
+  client: ClientBase,
+  fn: () => Promise<ParsedData<T>>
+): Promise<ParsedData<T>> {
+  try {
+    await client.query(`SELECT pg_advisory_lock(hashtext('schema_migrations'))`);
+  } catch (_error) {
+    const message = _error instanceof Error ? _error.message : 'Could not take migration lock';
+    return { error: message };
+  }
+
+  try {
+    return await fn();
+  } catch (_error) {
+    const message = _error instanceof Error ? _error.message : 'Migration failed';
+    return { error: message };
+  } finally {
+    await client
+      .query(`SELECT pg_advisory_unlock(hashtext('schema_migrations'))`)
+      .catch(unlockError => logger.error(`Migration unlock failed: ${unlockError}`));
+  }
+}
+
+async function getAppliedMigrations(client: ClientBase): Promise<AppliedMigration[]> {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      execution_ms INTEGER NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )`);
+
+  const result = await client.query<AppliedMigration>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows;
+}
+
+/**
+ * finds a migration edited after it ran; the database then no longer matches
+ * what its file says, so migrating further would build on an unknown schema
+ */
+function findChangedMigration(
+  migrations: Migration[],
+  applied: AppliedMigration[]
+): Migration | undefined {
+  const checksums = new Map(applied.map(row => [row.version, row.checksum]));
+  return migrations.find(migration => {
+    const checksum = checksums.get(migration.version);
+    return checksum !== undefined && checksum !== migration.checksum;
+  });
+}
+
+/**
+ * runs one migration step in its own transaction together with its
+ * bookkeeping row, so a failed step leaves no trace
+ */
+async function runStep(client: ClientBase, sql: string, bookkeeping: () => Promise<unknown>) {
+  await client.query('BEGIN');
+  try {
+    await client.query(sql);
+    await bookkeeping();
+    await client.query('COMMIT');
+  } catch (_error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw _error;
+  }
+}
+
+/**
+ * applies every migration that hasn't run yet, oldest first
+ * @param client - connection to migrate through
+ * @returns the migrations applied, or error message
+ */
+export async function migrateUp(client: ClientBase): Promise<ParsedData<Migration[]>> {
+  const migrationsResult = loadMigrations();
+  if (migrationsResult.error) {
+    return { error: migrationsResult.error };
+  }
+  const migrations = migrationsResult.data!;
+
+  return withMigrationLock(client, async () => {
+    const applied = await getAppliedMigrations(client);
+
+    const changed = findChangedMigration(migrations, applied);
+    if (changed) {
+      return { error: `Migration ${migrationLabel(changed)} was edited after it was applied` };
+    }
+
+    const appliedVersions = new Set(applied.map(row => row.version));
+    const pending = migrations.filter(migration => !appliedVersions.has(migration.version));
+
+    for (const migration of pending) {
+      const start = Date.now();
+      try {
+        await runStep(client, migration.up, () =>
+          client.query(
+            'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+            [migration.version, migration.name, migration.checksum, Date.now() - start]
+          )
+        );
+      } catch (_error) {
+        const message = _error instanceof Error ? _error.message : 'Migration failed';
+        return { error: `Migration ${migrationLabel(migration)} failed: ${message}` };
+      }
+      logger.info(`Applied migration ${migrationLabel(migration)} in ${Date.now() - start}ms`);
+    }
+
+    return { data: pending };
+  });
+}
+
+/**
+ * reverts the most recently applied migrations, newest first
+ * @param client - connection to migrate through
+ * @param steps - how many migrations to revert
+ * @returns the migrations reverted, or error message
+ */
+export async function migrateDown(
+  client: ClientBase,
+  steps = 1
+): Promise<ParsedData<Migration[]>> {
+  const migrationsResult = loadMigrations();
+  if (migrationsResult.error) {
+    return { error: migrationsResult.error };
+  }
+  const migrations = migrationsResult.data!;
+
+  return withMigrationLock(client, async () => {
+    const applied = await getAppliedMigrations(client);
+
+    const changed = findChangedMigration(migrations, applied);
+    if (changed) {
+      return { error: `Migration ${migrationLabel(changed)} was edited after it was applied` };
+    }
+
+    const reverted: Migration[] = [];
+    for (const row of applied.slice(-steps).reverse()) {
+      const migration = migrations.find(candidate => candidate.version === row.version);
+      if (!migration) {
+        return { error: `Migration ${migrationLabel(row)} is applied but its files are missing` };
+      }
+      if (migration.down === null) {
+        return { error: `Migration ${migrationLabel(migration)} has no down file` };
+      }
+
+      try {
+        await runStep(client, migration.down, () =>
+          client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+        );
+      } catch (_error) {
+        const message = _error instanceof Error ? _error.message : 'Migration failed';
+        return { error: `Reverting ${migrationLabel(migration)} failed: ${message}` };
+      }
+      logger.info(`Reverted migration ${migrationLabel(migration)}`);
+      reverted.push(migration);
+    }
+
+    return { data: reverted };
+  });
+}
+
+/**
+ * lists every migration on disk or in the database and whether it has run
+ * @param client - connection to inspect
+ * @returns one entry per migration, oldest first, or error message
+ */
+export async function getMigrationStatus(
+  client: ClientBase
+): Promise<ParsedData<MigrationStatusEntry[]>> {
+  const migrationsResult = loadMigrations();
+  if (migrationsResult.error) {
+    return { error: migrationsResult.error };
+  }
+
+  return withMigrationLock(client, async () => {
+    const applied = new Map(
+      (await getAppliedMigrations(client)).map(row => [row.version, row])
+    );
+
+    const entries: MigrationStatusEntry[] = migrationsResult.data!.map(migration => {
+      const row = applied.get(migration.version);
+      applied.delete(migration.version);
+      if (!row) {
+        return { version: migration.version, name: migration.name, state: 'pending', applied_at: null };
+      }
+
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: row.checksum === migration.checksum ? 'applied' : 'changed',
+        applied_at: row.applied_at,
+      };
+    });
+
+    // applied by a newer build whose files this one doesn't have
+    for (const row of applied.values()) {
+      entries.push({ version: row.version, name: row.name, state: 'missing', applied_at: row.applied_at });
+    }
+
+    return { data: entries.sort((a, b) => a.version - b.version) };
+  });
+}
+
+/**
+ * brings the database the server is configured for up to date, on boot
+ * @returns the migrations applied, or error message
+ */
+export async function migrateDatabase(): Promise<ParsedData<Migration[]>> {
+  const clientResult = await getDatabaseClient();
+  if (clientResult.error) {
+    return { error: clientResult.error };
+  }
+
+  const client = clientResult.data!;
+  try {
+    return await migrateUp(client);
+  } finally {
+    client.release();
+  }
+}
+
+function formatMigrations(migrations: Migration[]) {
+  return migrations.map(migration => `  ${migrationLabel(migration)}`).join('\n');
+}
+
+async function runCommand(command: string, arg?: string): Promise<ParsedData<string>> {
+  const clientResult = await getDatabaseClient();
+  if (clientResult.error) {
+    return { error: clientResult.error };
+  }
+
+  const client = clientResult.data!;
+  try {
+    switch (command) {
+      case 'up': {
+        const result = await migrateUp(client);
+        if (result.error) return { error: result.error };
+        return {
+          data: result.data!.length
+            ? `Applied:\n${formatMigrations(result.data!)}`
+            : 'Database is up to date',
+        };
+      }
+      case 'down': {
+        const steps = arg === undefined ? 1 : Number(arg);
+        if (!Number.isInteger(steps) || steps < 1) {
+          return { error: 'Steps must be a positive whole number' };
+        }
+
+        const result = await migrateDown(client, steps);
+        if (result.error) return { error: result.error };
+        return {
+          data: result.data!.length
+            ? `Reverted:\n${formatMigrations(result.data!)}`
+            : 'No migrations to revert',
+        };
+      }
+      case 'status': {
+        const result = await getMigrationStatus(client);
+        if (result.error) return { error: result.error };
+        return {
+          data: result
+            .data!.map(entry => {
+              const appliedAt = entry.applied_at ? new Date(entry.applied_at).toISOString() : '';
+              return `  ${entry.state.padEnd(8)} ${migrationLabel(entry).padEnd(40)} ${appliedAt}`;
+            })
+            .join('\n'),
+        };
+      }
+      default:
+        return { error: `Unknown command: ${command}. Use up, down [steps] or status` };
+    }
+  } finally {
+    client.release();
+  }
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [command = 'up', arg] = process.argv.slice(2);
+
+  runCommand(command, arg)
+    .then(async result => {
+      await closeDatabasePool();
+      if (result.error) {
+        console.error(`Migration failed: ${result.error}`);
+        process.exit(1);
+      }
+      console.log(result.data);
+      process.exit(0);
+    })
+    .catch(error => {
+      console.error('Migration failed:', error.message);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,13 @@
+-- Drops everything the baseline creates
+DROP TABLE IF EXISTS realtime_events;
+DROP TABLE IF EXISTS session_refresh_tokens;
+DROP TABLE IF EXISTS user_sessions;
+DROP TABLE IF EXISTS attachments;
+DROP TABLE IF EXISTS message_reactions;
+DROP TABLE IF EXISTS message_edits;
+DROP TABLE IF EXISTS messages;
+DROP TABLE IF EXISTS conversation_participants;
+DROP TABLE IF EXISTS conversations;
+DROP TABLE IF EXISTS users;
+DROP TYPE IF EXISTS message_status;
+DROP FUNCTION IF EXISTS update_updated_at_column();
@@ -0,0 +1,285 @@
+-- MESSAGING PLATFORM DATABASE SCHEMA
+-- Optimized for security, performance, and correctness
+--
+-- Baseline: the schema as db:setup used to apply it. Every statement is
+-- idempotent, so databases set up before migrations existed adopt it as-is.
+-- Later schema changes go in their own numbered migrations
+
+-- Create users table with proper constraints
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    username VARCHAR(30) UNIQUE NOT NULL,
+    email VARCHAR(255) UNIQUE NOT NULL,
+    password_hash VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    
+    -- Security constraints
+    CONSTRAINT username_length CHECK (LENGTH(username) >= 3),
+    CONSTRAINT email_format CHECK (email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$'),
+    CONSTRAINT password_hash_length CHECK (LENGTH(password_hash) >= 50)
+);
+
+-- Presence: when the user was last active, and the status they chose
+ALTER TABLE users ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'available';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS status_message VARCHAR(100);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS status_expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS user_status;
+ALTER TABLE users ADD CONSTRAINT user_status CHECK (
+    status IN ('available', 'busy', 'do-not-disturb')
+);
+
+-- Create message status enum type
+DO $$ BEGIN
+    CREATE TYPE message_status AS ENUM ('sent', 'delivered', 'read');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Conversation threads; direct threads are keyed by their ordered participant pair
+CREATE TABLE IF NOT EXISTS conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type VARCHAR(10) NOT NULL DEFAULT 'direct',
+    name VARCHAR(100),
+    created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    direct_key VARCHAR(80) UNIQUE,
+    last_message_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS type VARCHAR(10) NOT NULL DEFAULT 'direct';
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS name VARCHAR(100);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE conversations DROP CONSTRAINT IF EXISTS conversation_type;
+ALTER TABLE conversations ADD CONSTRAINT conversation_type CHECK (
+    (type = 'direct' AND direct_key IS NOT NULL) OR
+    (type = 'group' AND direct_key IS NULL AND LENGTH(TRIM(name)) >= 1)
+);
+
+CREATE TABLE IF NOT EXISTS conversation_participants (
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(10) NOT NULL DEFAULT 'member',
+    joined_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_read_at TIMESTAMP WITH TIME ZONE,
+    last_delivered_at TIMESTAMP WITH TIME ZONE,
+
+    PRIMARY KEY (conversation_id, user_id),
+    CONSTRAINT participant_role CHECK (role IN ('admin', 'member'))
+);
+
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS role VARCHAR(10) NOT NULL DEFAULT 'member';
+ALTER TABLE conversation_participants DROP CONSTRAINT IF EXISTS participant_role;
+ALTER TABLE conversation_participants ADD CONSTRAINT participant_role CHECK (role IN ('admin', 'member'));
+
+-- How far each member's client has received the thread; drives delivered receipts
+ALTER TABLE conversation_participants ADD COLUMN IF NOT EXISTS last_delivered_at TIMESTAMP WITH TIME ZONE;
+
+-- Create messages table with optimized structure
+CREATE TABLE IF NOT EXISTS messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    content TEXT NOT NULL,
+    sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    recipient_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE,
+    status message_status NOT NULL DEFAULT 'sent',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    read_at TIMESTAMP WITH TIME ZONE,
+    edited_at TIMESTAMP WITH TIME ZONE,
+    deleted_at TIMESTAMP WITH TIME ZONE,
+    reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+    
+    -- Security and business logic constraints
+    CONSTRAINT content_length CHECK (
+        (deleted_at IS NULL AND LENGTH(content) <= 5000) OR
+        (deleted_at IS NOT NULL AND content = '')
+    ),
+    CONSTRAINT different_users CHECK (recipient_id IS NULL OR sender_id != recipient_id),
+    CONSTRAINT read_at_logic CHECK (
+        (status = 'read' AND read_at IS NOT NULL) OR 
+        (status != 'read' AND read_at IS NULL)
+    )
+);
+
+-- Databases created before conversations existed need the column added explicitly
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS conversation_id UUID REFERENCES conversations(id) ON DELETE CASCADE;
+
+-- Group messages have no single recipient
+ALTER TABLE messages ALTER COLUMN recipient_id DROP NOT NULL;
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS different_users;
+ALTER TABLE messages ADD CONSTRAINT different_users CHECK (recipient_id IS NULL OR sender_id != recipient_id);
+
+-- Replies point at an earlier message in the same conversation
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES messages(id) ON DELETE SET NULL;
+
+-- Edits keep history; deletes leave an empty tombstone row so threads keep their shape
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS content_length;
+-- Full-text search over message bodies; tombstones have empty content so drop out naturally
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+
+-- Text may be empty when a message only carries attachments
+ALTER TABLE messages ADD CONSTRAINT content_length CHECK (
+    (deleted_at IS NULL AND LENGTH(content) <= 5000) OR
+    (deleted_at IS NOT NULL AND content = '')
+);
+
+CREATE TABLE IF NOT EXISTS message_edits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    previous_content TEXT NOT NULL,
+    edited_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+    message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    emoji VARCHAR(32) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (message_id, user_id, emoji)
+);
+
+-- Uploaded files live in attachment storage; rows stay unlinked until sent with a message
+CREATE TABLE IF NOT EXISTS attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    uploader_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    message_id UUID REFERENCES messages(id) ON DELETE CASCADE,
+    storage_key VARCHAR(255) NOT NULL,
+    thumbnail_key VARCHAR(255),
+    filename VARCHAR(255) NOT NULL,
+    mime_type VARCHAR(100) NOT NULL,
+    size_bytes BIGINT NOT NULL,
+    width INTEGER,
+    height INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT attachment_size CHECK (size_bytes > 0)
+);
+
+-- Backfill conversations for messages sent before threads were persisted
+INSERT INTO conversations (direct_key, last_message_at, created_at)
+SELECT
+    LEAST(sender_id, recipient_id)::text || ':' || GREATEST(sender_id, recipient_id)::text,
+    MAX(created_at),
+    MIN(created_at)
+FROM messages
+WHERE conversation_id IS NULL AND recipient_id IS NOT NULL
+GROUP BY LEAST(sender_id, recipient_id), GREATEST(sender_id, recipient_id)
+ON CONFLICT (direct_key) DO NOTHING;
+
+UPDATE messages m
+SET conversation_id = c.id
+FROM conversations c
+WHERE m.conversation_id IS NULL
+  AND c.direct_key = LEAST(m.sender_id, m.recipient_id)::text || ':' || GREATEST(m.sender_id, m.recipient_id)::text;
+
+INSERT INTO conversation_participants (conversation_id, user_id, joined_at)
+SELECT DISTINCT m.conversation_id, participant.user_id, c.created_at
+FROM messages m
+JOIN conversations c ON c.id = m.conversation_id
+CROSS JOIN LATERAL (VALUES (m.sender_id), (m.recipient_id)) AS participant(user_id)
+WHERE c.type = 'direct'
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- Sessions created before tokens were hashed stored them in plaintext; drop them (users sign in again)
+DO $$ BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'user_sessions' AND column_name = 'token'
+    ) THEN
+        DROP TABLE user_sessions CASCADE;
+    END IF;
+END $$;
+
+-- One row per login; the access token rotates on every refresh and only its sha-256 hash is stored
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash CHAR(64) UNIQUE NOT NULL,
+    access_expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    user_agent TEXT,
+    ip_address VARCHAR(45),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Every refresh token ever issued for a session; presenting a used one revokes the session
+CREATE TABLE IF NOT EXISTS session_refresh_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+    token_hash CHAR(64) UNIQUE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    used_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Real-time events too large for a NOTIFY payload; listeners read them by id.
+-- Unlogged since rows only live for a few minutes
+CREATE UNLOGGED TABLE IF NOT EXISTS realtime_events (
+    id BIGSERIAL PRIMARY KEY,
+    payload TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Performance indexes for common query patterns
+CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
+CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
+
+-- Message indexes for optimal query performance
+CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages(sender_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_recipient ON messages(recipient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation 
+    ON messages(LEAST(sender_id, recipient_id), GREATEST(sender_id, recipient_id), created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_unread 
+    ON messages(recipient_id, created_at DESC) WHERE status != 'read';
+CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_id ON messages(conversation_id, created_at DESC);
+
+-- Conversation indexes for the inbox
+CREATE INDEX IF NOT EXISTS idx_conversation_participants_user ON conversation_participants(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message ON conversations(last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to ON messages(reply_to_id) WHERE reply_to_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits(message_id, edited_at);
+CREATE INDEX IF NOT EXISTS idx_attachments_message ON attachments(message_id);
+CREATE INDEX IF NOT EXISTS idx_attachments_pending ON attachments(uploader_id, created_at) WHERE message_id IS NULL;
+CREATE INDEX IF NOT EXISTS idx_message_reactions_user ON message_reactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions(user_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_session_refresh_tokens_session ON session_refresh_tokens(session_id);
+CREATE INDEX IF NOT EXISTS idx_realtime_events_created ON realtime_events(created_at);
+
+-- Optimized trigger function for updated_at
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = CURRENT_TIMESTAMP;
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+-- Apply triggers
+DROP TRIGGER IF EXISTS update_users_updated_at ON users;
+CREATE TRIGGER update_users_updated_at 
+    BEFORE UPDATE ON users
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_messages_updated_at ON messages;
+CREATE TRIGGER update_messages_updated_at 
+    BEFORE UPDATE ON messages
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_conversations_updated_at ON conversations;
+CREATE TRIGGER update_conversations_updated_at 
+    BEFORE UPDATE ON conversations
+    FOR EACH ROW 
+    EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
@@ -0,0 +1,6 @@
+-- Message pages are keyed on (created_at, id) so messages sharing a
+-- timestamp page in a stable order; index the full key per conversation
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_keyset
+    ON messages(conversation_id, created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS idx_messages_conversation_id;
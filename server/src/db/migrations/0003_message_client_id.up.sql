@@ -0,0 +1,6 @@
+-- Clients generate an id for each message they send and repeat it when
+-- retrying, so a retried send returns the first message instead of a copy
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS client_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_sender_client_id
+    ON messages(sender_id, client_id) WHERE client_id IS NOT NULL;
@@ -0,0 +1,7 @@
+-- Real-time event ids come from one sequence shared by every server node, so
+-- clients resuming a stream on any node compare ids from a single order. Nodes
+-- used to number events from their clock, so start past those ids
+CREATE SEQUENCE IF NOT EXISTS realtime_event_ids;
+
+SELECT setval('realtime_event_ids', (EXTRACT(EPOCH FROM NOW()) * 1000)::BIGINT)
+WHERE NOT EXISTS (SELECT 1 FROM realtime_event_ids WHERE is_called);
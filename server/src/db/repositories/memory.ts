@@ -0,0 +1,1255 @@
+import { randomUUID } from 'crypto';
+import { hashSessionToken } from '../../auth-security';
+import {
+  Attachment,
+  AttachmentSummary,
+  Conversation,
+  ConversationMessage,
+  ConversationSummary,
+  MessagePageQuery,
+  MessageQuote,
+  MessageReaction,
+  MessageReceipt,
+  MessageStatus,
+  ParticipantRole,
+  Repositories,
+  User,
+  UserPresenceRecord,
+  UserStatus,
+} from '../../types';
+
+// quoted replies only carry the start of the original message
+const QUOTE_PREVIEW_LENGTH = 200;
+
+const STATUS_ORDER: Record<MessageStatus, number> = { sent: 0, delivered: 1, read: 2 };
+
+interface StoredUser {
+  id: string;
+  username: string;
+  email: string;
+  password_hash: string;
+  last_seen_at: Date | null;
+  status: UserStatus;
+  status_message: string | null;
+  status_expires_at: Date | null;
+}
+
+interface StoredSession {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  access_expires_at: Date;
+  expires_at: Date;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: Date;
+  last_used_at: Date;
+}
+
+interface StoredRefreshToken {
+  session_id: string;
+  used_at: Date | null;
+}
+
+interface StoredParticipant {
+  conversation_id: string;
+  user_id: string;
+  role: ParticipantRole;
+  joined_at: Date;
+  last_read_at: Date | null;
+  last_delivered_at: Date | null;
+}
+
+interface StoredMessage {
+  id: string;
+  content: string;
+  sender_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
+  reply_to_id: string | null;
+  client_id: string | null;
+  status: MessageStatus;
+  created_at: Date;
+  read_at: Date | null;
+  edited_at: Date | null;
+  deleted_at: Date | null;
+}
+
+type MessagePosition = Pick<StoredMessage, 'id'> & { created_at: Date | string };
+
+interface StoredReaction {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: Date;
+}
+
+interface StoredEdit {
+  id: string;
+  message_id: string;
+  previous_content: string;
+  edited_at: Date;
+}
+
+export interface MemoryRepositoryOptions {
+  // tests pass a clock that repeats timestamps to check how ties are ordered
+  clock?: () => Date;
+}
+
+/**
+ * creates repositories that keep everything in process memory, mirroring
+ * what the postgres queries do closely enough to run the app against in tests.
+ * full-text search is approximated: every search word must appear in the
+ * message, and matches are wrapped in <mark> without stemming
+ * @param options - clock to stamp rows with; by default timestamps never repeat
+ * @returns empty repositories for createApp
+ */
+export function createMemoryRepositories(options: MemoryRepositoryOptions = {}): Repositories {
+  const users = new Map<string, StoredUser>();
+  const sessions = new Map<string, StoredSession>();
+  const refreshTokens = new Map<string, StoredRefreshToken>();
+  const conversations = new Map<string, Conversation & { created_at: Date }>();
+  let participants: StoredParticipant[] = [];
+  const messages = new Map<string, StoredMessage>();
+  let reactions: StoredReaction[] = [];
+  let edits: StoredEdit[] = [];
+  const attachments = new Map<string, Attachment & { created_at: Date }>();
+
+  // timestamps strictly increase so rows written in the same millisecond
+  // still sort in the order they were written, as they would in postgres
+  let lastTimestamp = 0;
+  const now =
+    options.clock ??
+    (() => {
+      lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+      return new Date(lastTimestamp);
+    });
+  const time = (value: string | Date | null | undefined) =>
+    value ? new Date(value).getTime() : -Infinity;
+
+  const publicUser = (user: StoredUser): Omit<User, 'password_hash'> => ({
+    id: user.id,
+    username: user.username,
+    email: user.email,
+  });
+
+  const presenceRecord = (user: StoredUser): UserPresenceRecord => {
+    const active = !user.status_expires_at || time(user.status_expires_at) > Date.now();
+    return {
+      user_id: user.id,
+      last_seen_at: user.last_seen_at,
+      status: active ? user.status : 'available',
+      status_message: active ? user.status_message : null,
+      status_expires_at: active ? user.status_expires_at : null,
+    };
+  };
+
+  const deleteSession = (sessionId: string) => {
+    sessions.delete(sessionId);
+    for (const [hash, token] of refreshTokens) {
+      if (token.session_id === sessionId) refreshTokens.delete(hash);
+    }
+  };
+
+  const conversationMembers = (conversationId: string) =>
+    participants
+      .filter(participant => participant.conversation_id === conversationId)
+      .sort((a, b) => time(a.joined_at) - time(b.joined_at));
+
+  const isMember = (conversationId: string, userId: string) =>
+    participants.some(
+      participant =>
+        participant.conversation_id === conversationId && participant.user_id === userId
+    );
+
+  const addParticipant = (conversationId: string, userId: string, role: ParticipantRole) => {
+    if (isMember(conversationId, userId)) return false;
+    participants.push({
+      conversation_id: conversationId,
+      user_id: userId,
+      role,
+      joined_at: now(),
+      last_read_at: null,
+      last_delivered_at: null,
+    });
+    return true;
+  };
+
+  const messageRow = (message: StoredMessage) => ({
+    id: message.id,
+    content: message.content,
+    sender_id: message.sender_id,
+    recipient_id: message.recipient_id,
+    conversation_id: message.conversation_id,
+    status: message.status,
+    created_at: message.created_at,
+    edited_at: message.edited_at,
+    deleted_at: message.deleted_at,
+  });
+
+  const messageReactions = (messageId: string): MessageReaction[] => {
+    const byEmoji = new Map<string, MessageReaction>();
+    const ordered = reactions
+      .filter(reaction => reaction.message_id === messageId)
+      .sort((a, b) => time(a.created_at) - time(b.created_at));
+
+    for (const reaction of ordered) {
+      const user = users.get(reaction.user_id);
+      if (!user) continue;
+      const entry = byEmoji.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, users: [] };
+      entry.count++;
+      entry.users.push({ id: user.id, username: user.username });
+      byEmoji.set(reaction.emoji, entry);
+    }
+
+    return [...byEmoji.values()];
+  };
+
+  const messageAttachments = (messageId: string): AttachmentSummary[] =>
+    [...attachments.values()]
+      .filter(attachment => attachment.message_id === messageId)
+      .sort((a, b) => time(a.created_at) - time(b.created_at))
+      .map(attachment => ({
+        id: attachment.id,
+        filename: attachment.filename,
+        mime_type: attachment.mime_type,
+        size_bytes: attachment.size_bytes,
+        width: attachment.width,
+        height: attachment.height,
+        has_thumbnail: attachment.thumbnail_key !== null,
+      }));
+
+  const quote = (message: StoredMessage): MessageQuote => ({
+    id: message.id,
+    sender_id: message.sender_id,
+    sender_username: users.get(message.sender_id)?.username ?? '',
+    content: message.content.slice(0, QUOTE_PREVIEW_LENGTH),
+    deleted_at: message.deleted_at,
+  });
+
+  const conversationMessage = (message: StoredMessage): ConversationMessage => {
+    const replyTo = message.reply_to_id ? messages.get(message.reply_to_id) : undefined;
+    return {
+      ...messageRow(message),
+      sender_username: users.get(message.sender_id)?.username ?? '',
+      reactions: messageReactions(message.id),
+      reply_to_id: message.reply_to_id,
+      reply_to: replyTo ? quote(replyTo) : null,
+      attachments: messageAttachments(message.id),
+    };
+  };
+
+  const conversationPageRow = (message: StoredMessage) => ({
+    ...conversationMessage(message),
+    cursor_created_at: message.created_at.toISOString(),
+  });
+
+  // newest first, with the id breaking ties like the (created_at, id) keysets
+  const byNewest = (a: MessagePosition, b: MessagePosition) =>
+    time(b.created_at) - time(a.created_at) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+  const threadMessages = (conversationId: string) =>
+    [...messages.values()].filter(message => message.conversation_id === conversationId);
+
+  // mirrors messagePageSql: the messages nearest the cursor, older than
+  // `before` newest first, or newer than `after` oldest first
+  const pageMessages = (candidates: StoredMessage[], page: MessagePageQuery) => {
+    const { before, after } = page;
+    if (after) {
+      return candidates
+        .filter(message => byNewest(message, after) < 0)
+        .sort(byNewest)
+        .reverse()
+        .slice(0, page.limit);
+    }
+
+    return candidates
+      .filter(message => !before || byNewest(message, before) > 0)
+      .sort(byNewest)
+      .slice(0, page.limit);
+  };
+
+  const summary = (conversation: Conversation, userId: string): ConversationSummary | undefined => {
+    const membership = participants.find(
+      participant =>
+        participant.conversation_id === conversation.id && participant.user_id === userId
+    );
+    if (!membership) return undefined;
+
+    const members = conversationMembers(conversation.id).flatMap(participant => {
+      const user = users.get(participant.user_id);
+      return user ? [{ ...publicUser(user), role: participant.role }] : [];
+    });
+    const thread = threadMessages(conversation.id).sort(byNewest);
+    const last = thread[0];
+
+    return {
+      id: conversation.id,
+      type: conversation.type,
+      name: conversation.name ?? null,
+      created_at: conversation.created_at,
+      last_message_at: conversation.last_message_at ?? null,
+      unread_count: thread.filter(
+        message =>
+          message.sender_id !== userId &&
+          !message.deleted_at &&
+          time(message.created_at) > time(membership.last_read_at)
+      ).length,
+      participants: members,
+      counterpart:
+        conversation.type === 'direct'
+          ? members
+              .filter(member => member.id !== userId)
+              .map(({ id, username, email }) => ({ id, username, email }))[0] || null
+          : null,
+      last_message: last
+        ? {
+            id: last.id,
+            content: last.content,
+            sender_id: last.sender_id,
+            sender_username: users.get(last.sender_id)?.username ?? '',
+            created_at: last.created_at,
+            deleted_at: last.deleted_at,
+          }
+        : null,
+    };
+  };
+
+  /**
+   * moves users' delivered/read positions forward to each target, then
+   * advances every message that all of its recipients have now caught up on;
+   * the same rules as messageReceiptsSql
+   */
+  const applyReceipts = (
+    targets: { conversation_id: string; created_at: Date }[],
+    userIds: string[],
+    status: 'delivered' | 'read'
+  ): MessageReceipt[] => {
+    for (const target of targets) {
+      for (const participant of participants) {
+        if (participant.conversation_id !== target.conversation_id) continue;
+        if (!userIds.includes(participant.user_id)) continue;
+
+        participant.last_delivered_at = new Date(
+          Math.max(time(participant.last_delivered_at), time(target.created_at))
+        );
+        if (status === 'read') {
+          participant.last_read_at = new Date(
+            Math.max(time(participant.last_read_at), time(target.created_at))
+          );
+        }
+      }
+    }
+
+    const changed: MessageReceipt[] = [];
+    const changedAt = now();
+    for (const target of targets) {
+      for (const message of threadMessages(target.conversation_id)) {
+        if (time(message.created_at) > time(target.created_at)) continue;
+        if (message.deleted_at || STATUS_ORDER[message.status] >= STATUS_ORDER[status]) continue;
+
+        const waiting = conversationMembers(message.conversation_id).some(
+          participant =>
+            participant.user_id !== message.sender_id &&
+            !userIds.includes(participant.user_id) &&
+            time(participant.joined_at) <= time(message.created_at) &&
+            time(status === 'read' ? participant.last_read_at : participant.last_delivered_at) <
+              time(message.created_at)
+        );
+        if (waiting) continue;
+
+        message.status = status;
+        message.read_at = status === 'read' ? changedAt : null;
+        changed.push({
+          id: message.id,
+          conversation_id: message.conversation_id,
+          sender_id: message.sender_id,
+          status,
+        });
+      }
+    }
+
+    return changed;
+  };
+
+  const searchWords = (text: string) =>
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+
+  const highlight = (content: string, words: string[]) =>
+    content.replace(
+      new RegExp(
+        `(${words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+        'gi'
+      ),
+      '<mark>$1</mark>'
+    );
+
+  return {
+    users: {
+      async getByEmail(email) {
+        if (!email || typeof email !== 'string') {
+          return { error: 'Email is required' };
+        }
+
+        const user = [...users.values()].find(candidate => candidate.email === email.toLowerCase());
+        return {
+          data: user ? { ...publicUser(user), password_hash: user.password_hash } : undefined,
+        };
+      },
+
+      async getRegistrationConflicts(username, email) {
+        if (!username || !email) {
+          return { error: 'Username and email are required' };
+        }
+
+        const all = [...users.values()];
+        return {
+          data: {
+            username: all.some(user => user.username.toLowerCase() === username.toLowerCase()),
+            email: all.some(user => user.email === email.toLowerCase()),
+          },
+        };
+      },
+
+      async create(userData) {
+        if (!userData.username || !userData.email || !userData.password_hash) {
+          return { error: 'Username, email, and password hash are required' };
+        }
+
+        const email = userData.email.toLowerCase();
+        const taken = [...users.values()].some(
+          user => user.username === userData.username || user.email === email
+        );
+        if (taken) {
+          return { data: undefined };
+        }
+
+        const user: StoredUser = {
+          id: randomUUID(),
+          username: userData.username,
+          email,
+          password_hash: userData.password_hash,
+          last_seen_at: null,
+          status: 'available',
+          status_message: null,
+          status_expires_at: null,
+        };
+        users.set(user.id, user);
+        return { data: publicUser(user) };
+      },
+
+      async search(query, currentUserId, limit, offset) {
+        const needle = query.trim().toLowerCase();
+        const rank = (user: StoredUser) =>
+          user.username.toLowerCase().includes(needle)
+            ? 1
+            : user.email.toLowerCase().includes(needle)
+              ? 2
+              : 3;
+
+        const matches = [...users.values()]
+          .filter(
+            user =>
+              user.id !== currentUserId &&
+              [user.username, user.email, user.id].some(value =>
+                value.toLowerCase().includes(needle)
+              )
+          )
+          .sort((a, b) => rank(a) - rank(b) || a.username.localeCompare(b.username));
+
+        return { data: matches.slice(offset, offset + limit).map(publicUser) };
+      },
+
+      async getRandom(currentUserId, limit, offset) {
+        const others = [...users.values()].filter(user => user.id !== currentUserId);
+        for (let i = others.length - 1; i > 0; i--) {
+          const j = Math.floor(Math.random() * (i + 1));
+          [others[i], others[j]] = [others[j]!, others[i]!];
+        }
+
+        return { data: others.slice(offset, offset + limit).map(publicUser) };
+      },
+
+      async getContactIds(userId) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        const contactIds = new Set<string>();
+        for (const own of participants.filter(participant => participant.user_id === userId)) {
+          for (const other of conversationMembers(own.conversation_id)) {
+            if (other.user_id !== userId) contactIds.add(other.user_id);
+          }
+        }
+
+        return { data: [...contactIds] };
+      },
+
+      async getPresence(userIds) {
+        return {
+          data: userIds.flatMap(userId => {
+            const user = users.get(userId);
+            return user ? [presenceRecord(user)] : [];
+          }),
+        };
+      },
+
+      async touchLastSeen(userId) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        const user = users.get(userId);
+        if (!user) {
+          return { error: 'User not found' };
+        }
+
+        user.last_seen_at = now();
+        return { data: presenceRecord(user) };
+      },
+
+      async setStatus(userId, status, message, expiresAt) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        const user = users.get(userId);
+        if (!user) {
+          return { error: 'User not found' };
+        }
+
+        user.status = status;
+        user.status_message = message;
+        user.status_expires_at = expiresAt ? new Date(expiresAt) : null;
+        return { data: presenceRecord(user) };
+      },
+    },
+
+    sessions: {
+      async getUserByToken(token) {
+        if (!token || typeof token !== 'string') {
+          return { error: 'Token is required' };
+        }
+
+        const tokenHash = hashSessionToken(token);
+        const session = [...sessions.values()].find(
+          candidate =>
+            candidate.token_hash === tokenHash &&
+            time(candidate.access_expires_at) > Date.now() &&
+            time(candidate.expires_at) > Date.now()
+        );
+        const user = session && users.get(session.user_id);
+
+        return { data: user ? { ...publicUser(user), session_id: session.id } : undefined };
+      },
+
+      async create(userId, tokens, clientInfo = {}) {
+        if (!userId || !tokens.accessToken || !tokens.refreshToken) {
+          return { error: 'User ID and tokens are required' };
+        }
+
+        if (!users.has(userId)) {
+          return { error: 'User not found' };
+        }
+
+        const createdAt = now();
+        const session: StoredSession = {
+          id: randomUUID(),
+          user_id: userId,
+          token_hash: hashSessionToken(tokens.accessToken),
+          access_expires_at: new Date(createdAt.getTime() + tokens.accessTtlSeconds * 1000),
+          expires_at: new Date(createdAt.getTime() + tokens.refreshTtlSeconds * 1000),
+          user_agent: clientInfo.user_agent?.slice(0, 512) || null,
+          ip_address: clientInfo.ip_address || null,
+          created_at: createdAt,
+          last_used_at: createdAt,
+        };
+        sessions.set(session.id, session);
+        refreshTokens.set(hashSessionToken(tokens.refreshToken), {
+          session_id: session.id,
+          used_at: null,
+        });
+
+        return { data: session.id };
+      },
+
+      async rotate(refreshToken, tokens) {
+        if (!refreshToken || !tokens.accessToken || !tokens.refreshToken) {
+          return { error: 'Refresh token and new tokens are required' };
+        }
+
+        const claimed = refreshTokens.get(hashSessionToken(refreshToken));
+        if (claimed && !claimed.used_at) {
+          claimed.used_at = now();
+
+          const session = sessions.get(claimed.session_id);
+          const user = session && users.get(session.user_id);
+          if (session && user && time(session.expires_at) > Date.now()) {
+            const rotatedAt = now();
+            session.token_hash = hashSessionToken(tokens.accessToken);
+            session.access_expires_at = new Date(
+              rotatedAt.getTime() + tokens.accessTtlSeconds * 1000
+            );
+            session.expires_at = new Date(rotatedAt.getTime() + tokens.refreshTtlSeconds * 1000);
+            session.last_used_at = rotatedAt;
+            refreshTokens.set(hashSessionToken(tokens.refreshToken), {
+              session_id: session.id,
+              used_at: null,
+            });
+
+            return {
+              data: { status: 'rotated', user: { ...publicUser(user), session_id: session.id } },
+            };
+          }
+        }
+
+        // a token that was already used means it leaked: revoke its session
+        if (claimed?.used_at && sessions.has(claimed.session_id)) {
+          deleteSession(claimed.session_id);
+          return { data: { status: 'reused', sessionId: claimed.session_id } };
+        }
+
+        return { data: { status: 'invalid' } };
+      },
+
+      async listForUser(userId) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        return {
+          data: [...sessions.values()]
+            .filter(session => session.user_id === userId && time(session.expires_at) > Date.now())
+            .sort((a, b) => time(b.created_at) - time(a.created_at))
+            .map(session => ({
+              id: session.id,
+              created_at: session.created_at,
+              last_used_at: session.last_used_at,
+              expires_at: session.expires_at,
+              user_agent: session.user_agent,
+              ip_address: session.ip_address,
+            })),
+        };
+      },
+
+      async delete(sessionId, userId) {
+        if (!sessionId || !userId) {
+          return { error: 'Session ID and user ID are required' };
+        }
+
+        if (sessions.get(sessionId)?.user_id !== userId) {
+          return { data: false };
+        }
+
+        deleteSession(sessionId);
+        return { data: true };
+      },
+
+      async deleteOthers(userId, keepSessionId) {
+        if (!userId || !keepSessionId) {
+          return { error: 'User ID and session ID are required' };
+        }
+
+        const revoked = [...sessions.values()]
+          .filter(session => session.user_id === userId && session.id !== keepSessionId)
+          .map(session => session.id);
+        revoked.forEach(deleteSession);
+
+        return { data: revoked };
+      },
+    },
+
+    conversations: {
+      async getById(conversationId) {
+        if (!conversationId) {
+          return { error: 'Conversation ID is required' };
+        }
+
+        const conversation = conversations.get(conversationId);
+        return { data: conversation ? { ...conversation } : undefined };
+      },
+
+      async getDirect(userId1, userId2) {
+        if (!userId1 || !userId2) {
+          return { error: 'Both user IDs are required' };
+        }
+
+        const key = [userId1, userId2].sort().join(':');
+        const conversation = [...conversations.values()].find(
+          candidate => candidate.direct_key === key
+        );
+        return { data: conversation ? { ...conversation } : undefined };
+      },
+
+      async getOrCreateDirect(userId1, userId2) {
+        if (!userId1 || !userId2) {
+          return { error: 'Both user IDs are required' };
+        }
+
+        if (userId1 === userId2) {
+          return { error: 'Cannot start a conversation with yourself' };
+        }
+
+        if (!users.has(userId1) || !users.has(userId2)) {
+          return { error: 'User not found' };
+        }
+
+        const key = [userId1, userId2].sort().join(':');
+        let conversation = [...conversations.values()].find(
+          candidate => candidate.direct_key === key
+        );
+        if (!conversation) {
+          conversation = {
+            id: randomUUID(),
+            type: 'direct',
+            name: null,
+            created_by: userId1,
+            direct_key: key,
+            last_message_at: null,
+            created_at: now(),
+          };
+          conversations.set(conversation.id, conversation);
+        }
+
+        addParticipant(conversation.id, userId1, 'member');
+        addParticipant(conversation.id, userId2, 'member');
+
+        return { data: { ...conversation } };
+      },
+
+      async createGroup(creatorId, name, memberIds) {
+        if (!creatorId || !name) {
+          return { error: 'Creator ID and group name are required' };
+        }
+
+        const conversation = {
+          id: randomUUID(),
+          type: 'group' as const,
+          name: name.trim(),
+          created_by: creatorId,
+          direct_key: null,
+          last_message_at: null,
+          created_at: now(),
+        };
+        conversations.set(conversation.id, conversation);
+
+        for (const memberId of new Set([creatorId, ...memberIds])) {
+          if (users.has(memberId)) {
+            addParticipant(conversation.id, memberId, memberId === creatorId ? 'admin' : 'member');
+          }
+        }
+
+        return { data: { ...conversation } };
+      },
+
+      async getParticipants(conversationId) {
+        if (!conversationId) {
+          return { error: 'Conversation ID is required' };
+        }
+
+        return {
+          data: conversationMembers(conversationId).map(participant => ({
+            user_id: participant.user_id,
+            role: participant.role,
+            joined_at: participant.joined_at,
+            last_read_at: participant.last_read_at,
+          })),
+        };
+      },
+
+      async isParticipant(conversationId, userId) {
+        if (!conversationId || !userId) {
+          return { error: 'Conversation ID and user ID are required' };
+        }
+
+        return { data: isMember(conversationId, userId) };
+      },
+
+      async addMembers(conversationId, userIds) {
+        if (!conversationId || userIds.length === 0) {
+          return { error: 'Conversation ID and at least one user ID are required' };
+        }
+
+        return {
+          data: userIds.filter(
+            userId => users.has(userId) && addParticipant(conversationId, userId, 'member')
+          ),
+        };
+      },
+
+      async removeMember(conversationId, userId) {
+        if (!conversationId || !userId) {
+          return { error: 'Conversation ID and user ID are required' };
+        }
+
+        if (!isMember(conversationId, userId)) {
+          return { data: false };
+        }
+
+        participants = participants.filter(
+          participant =>
+            !(participant.conversation_id === conversationId && participant.user_id === userId)
+        );
+
+        // a group never sits without an admin
+        const remaining = conversationMembers(conversationId);
+        if (remaining.length > 0 && !remaining.some(participant => participant.role === 'admin')) {
+          remaining[0]!.role = 'admin';
+        }
+
+        return { data: true };
+      },
+
+      async listForUser(userId, limit, offset) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        const activity = (conversation: ConversationSummary) =>
+          time(conversation.last_message_at ?? conversation.created_at);
+
+        return {
+          data: [...conversations.values()]
+            .flatMap(conversation => summary(conversation, userId) ?? [])
+            .sort((a, b) => activity(b) - activity(a))
+            .slice(offset, offset + limit),
+        };
+      },
+
+      async getSummary(conversationId, userId) {
+        if (!conversationId || !userId) {
+          return { error: 'Conversation ID and user ID are required' };
+        }
+
+        const conversation = conversations.get(conversationId);
+        return { data: conversation && summary(conversation, userId) };
+      },
+    },
+
+    messages: {
+      async create(messageData) {
+        const attachmentIds = messageData.attachment_ids || [];
+
+        if (
+          (!messageData.content && attachmentIds.length === 0) ||
+          !messageData.sender_id ||
+          !messageData.conversation_id
+        ) {
+          return { error: 'Content, sender ID, and conversation ID are required' };
+        }
+
+        if (messageData.content.length > 5000) {
+          return { error: 'Message content too long (max 5000 characters)' };
+        }
+
+        const conversation = conversations.get(messageData.conversation_id);
+        if (!conversation || !users.has(messageData.sender_id)) {
+          return { error: 'Conversation or sender not found' };
+        }
+
+        // the sender already sent a message with this client id
+        const clientId = messageData.client_id || null;
+        const alreadySent =
+          clientId &&
+          [...messages.values()].some(
+            message => message.sender_id === messageData.sender_id && message.client_id === clientId
+          );
+        if (alreadySent) {
+          return { data: undefined };
+        }
+
+        const message: StoredMessage = {
+          id: randomUUID(),
+          content: messageData.content,
+          sender_id: messageData.sender_id,
+          recipient_id: messageData.recipient_id,
+          conversation_id: messageData.conversation_id,
+          reply_to_id: messageData.reply_to_id || null,
+          client_id: clientId,
+          status: 'sent',
+          created_at: now(),
+          read_at: null,
+          edited_at: null,
+          deleted_at: null,
+        };
+        messages.set(message.id, message);
+
+        for (const attachmentId of attachmentIds) {
+          const attachment = attachments.get(attachmentId);
+          if (
+            attachment &&
+            attachment.uploader_id === message.sender_id &&
+            attachment.conversation_id === message.conversation_id &&
+            !attachment.message_id
+          ) {
+            attachment.message_id = message.id;
+          }
+        }
+
+        if (time(conversation.last_message_at) < time(message.created_at)) {
+          conversation.last_message_at = message.created_at;
+        }
+
+        return {
+          data: {
+            id: message.id,
+            content: message.content,
+            sender_id: message.sender_id,
+            recipient_id: message.recipient_id,
+            conversation_id: message.conversation_id,
+            reply_to_id: message.reply_to_id,
+            status: message.status,
+            created_at: message.created_at.toISOString(),
+          },
+        };
+      },
+
+      async getById(messageId) {
+        if (!messageId) {
+          return { error: 'Message ID is required' };
+        }
+
+        const message = messages.get(messageId);
+        return { data: message ? messageRow(message) : undefined };
+      },
+
+      async getByClientId(conversationId, senderId, clientId) {
+        if (!conversationId || !senderId || !clientId) {
+          return { error: 'Conversation ID, sender ID and client ID are required' };
+        }
+
+        const message = [...messages.values()].find(
+          message =>
+            message.conversation_id === conversationId &&
+            message.sender_id === senderId &&
+            message.client_id === clientId
+        );
+        return { data: message && conversationMessage(message) };
+      },
+
+      async getQuote(messageId) {
+        if (!messageId) {
+          return { error: 'Message ID is required' };
+        }
+
+        const message = messages.get(messageId);
+        return {
+          data: message
+            ? { ...quote(message), conversation_id: message.conversation_id }
+            : undefined,
+        };
+      },
+
+      async edit(messageId, senderId, content, editWindowSeconds) {
+        if (!messageId || !senderId || !content) {
+          return { error: 'Message ID, sender ID, and content are required' };
+        }
+
+        if (content.length > 5000) {
+          return { error: 'Message content too long (max 5000 characters)' };
+        }
+
+        const message = messages.get(messageId);
+        if (
+          !message ||
+          message.sender_id !== senderId ||
+          message.deleted_at ||
+          time(message.created_at) <= Date.now() - editWindowSeconds * 1000
+        ) {
+          return { data: undefined };
+        }
+
+        const editedAt = now();
+        edits.push({
+          id: randomUUID(),
+          message_id: message.id,
+          previous_content: message.content,
+          edited_at: editedAt,
+        });
+        message.content = content;
+        message.edited_at = editedAt;
+
+        return { data: messageRow(message) };
+      },
+
+      async delete(messageId, senderId) {
+        if (!messageId || !senderId) {
+          return { error: 'Message ID and sender ID are required' };
+        }
+
+        const message = messages.get(messageId);
+        if (!message || message.sender_id !== senderId || message.deleted_at) {
+          return { data: undefined };
+        }
+
+        message.content = '';
+        message.deleted_at = now();
+        edits = edits.filter(edit => edit.message_id !== messageId);
+        reactions = reactions.filter(reaction => reaction.message_id !== messageId);
+
+        return { data: messageRow(message) };
+      },
+
+      async listForUser(userId, page) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        const conversationIds = new Set(
+          participants
+            .filter(participant => participant.user_id === userId)
+            .map(participant => participant.conversation_id)
+        );
+        const rows = pageMessages(
+          [...messages.values()].filter(message => conversationIds.has(message.conversation_id)),
+          page
+        );
+
+        return {
+          data: rows.map(message => ({
+            id: message.id,
+            content: message.content,
+            sender_id: message.sender_id,
+            recipient_id: message.recipient_id,
+            conversation_id: message.conversation_id,
+            status: message.status,
+            created_at: message.created_at.toISOString(),
+            cursor_created_at: message.created_at.toISOString(),
+          })),
+        };
+      },
+
+      async listForConversation(conversationId, page) {
+        if (!conversationId) {
+          return { error: 'Conversation ID is required' };
+        }
+
+        return {
+          data: pageMessages(threadMessages(conversationId), page).map(conversationPageRow),
+        };
+      },
+
+      async getContext(conversationId, messageId, radius = 25) {
+        if (!conversationId || !messageId) {
+          return { error: 'Conversation ID and message ID are required' };
+        }
+
+        const target = messages.get(messageId);
+        if (!target || target.conversation_id !== conversationId) {
+          return { data: undefined };
+        }
+
+        const thread = threadMessages(conversationId).sort(byNewest);
+        const index = thread.indexOf(target);
+        const window = thread.slice(Math.max(0, index - radius), index + radius + 1).reverse();
+
+        return { data: { messages: window.map(conversationPageRow) } };
+      },
+
+      async search(userId, search) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        const words = searchWords(search.text);
+        const usernameIs = (id: string, username: string) =>
+          users.get(id)?.username.toLowerCase() === username.toLowerCase();
+
+        const hits = [...messages.values()]
+          .filter(message => {
+            if (message.deleted_at || !isMember(message.conversation_id, userId)) return false;
+
+            const contentWords = searchWords(message.content);
+            if (
+              !words.every(word => contentWords.some(contentWord => contentWord.startsWith(word)))
+            ) {
+              return false;
+            }
+            if (search.from && !usernameIs(message.sender_id, search.from)) return false;
+            if (
+              search.with &&
+              !conversationMembers(message.conversation_id).some(
+                participant =>
+                  participant.user_id !== userId && usernameIs(participant.user_id, search.with!)
+              )
+            ) {
+              return false;
+            }
+            if (search.before && time(message.created_at) >= time(search.before)) return false;
+            if (search.after && time(message.created_at) < time(search.after)) return false;
+            if (search.cursor && byNewest(message, search.cursor) <= 0) return false;
+            return true;
+          })
+          .sort(byNewest)
+          .slice(0, search.limit);
+
+        return {
+          data: hits.map(message => ({
+            id: message.id,
+            conversation_id: message.conversation_id,
+            sender_id: message.sender_id,
+            sender_username: users.get(message.sender_id)?.username ?? '',
+            created_at: message.created_at,
+            cursor_created_at: message.created_at.toISOString(),
+            snippet: words.length
+              ? highlight(message.content, words)
+              : message.content.slice(0, 160),
+          })),
+        };
+      },
+
+      async getEdits(messageId) {
+        if (!messageId) {
+          return { error: 'Message ID is required' };
+        }
+
+        return {
+          data: edits
+            .filter(edit => edit.message_id === messageId)
+            .sort((a, b) => time(a.edited_at) - time(b.edited_at))
+            .map(({ id, previous_content, edited_at }) => ({ id, previous_content, edited_at })),
+        };
+      },
+
+      async addReaction(messageId, userId, emoji) {
+        if (!messageId || !userId || !emoji) {
+          return { error: 'Message ID, user ID, and emoji are required' };
+        }
+
+        const message = messages.get(messageId);
+        const exists = reactions.some(
+          reaction =>
+            reaction.message_id === messageId &&
+            reaction.user_id === userId &&
+            reaction.emoji === emoji
+        );
+        if (message && !message.deleted_at && !exists) {
+          reactions.push({ message_id: messageId, user_id: userId, emoji, created_at: now() });
+        }
+
+        return { data: messageReactions(messageId) };
+      },
+
+      async removeReaction(messageId, userId, emoji) {
+        if (!messageId || !userId || !emoji) {
+          return { error: 'Message ID, user ID, and emoji are required' };
+        }
+
+        reactions = reactions.filter(
+          reaction =>
+            !(
+              reaction.message_id === messageId &&
+              reaction.user_id === userId &&
+              reaction.emoji === emoji
+            )
+        );
+
+        return { data: messageReactions(messageId) };
+      },
+
+      async markReceipts(conversationId, messageId, userIds, status) {
+        if (!conversationId || !messageId || userIds.length === 0) {
+          return { error: 'Conversation ID, message ID, and user IDs are required' };
+        }
+
+        const message = messages.get(messageId);
+        if (!message || message.conversation_id !== conversationId) {
+          return { data: [] };
+        }
+
+        return {
+          data: applyReceipts(
+            [{ conversation_id: conversationId, created_at: message.created_at }],
+            userIds,
+            status
+          ),
+        };
+      },
+
+      async markPendingDelivered(userId) {
+        if (!userId) {
+          return { error: 'User ID is required' };
+        }
+
+        const targets = participants
+          .filter(participant => participant.user_id === userId)
+          .flatMap(participant => {
+            const newest = threadMessages(participant.conversation_id)
+              .filter(
+                message =>
+                  message.sender_id !== userId &&
+                  time(message.created_at) > time(participant.last_delivered_at)
+              )
+              .sort(byNewest)[0];
+            return newest
+              ? [{ conversation_id: participant.conversation_id, created_at: newest.created_at }]
+              : [];
+          });
+
+        return { data: applyReceipts(targets, [userId], 'delivered') };
+      },
+    },
+
+    attachments: {
+      async create(attachmentData) {
+        if (
+          !attachmentData.conversation_id ||
+          !attachmentData.uploader_id ||
+          !attachmentData.storage_key
+        ) {
+          return { error: 'Conversation ID, uploader ID, and storage key are required' };
+        }
+
+        const attachment = { ...attachmentData, message_id: null, created_at: now() };
+        attachments.set(attachment.id, attachment);
+        return { data: { ...attachment } };
+      },
+
+      async getById(attachmentId) {
+        if (!attachmentId) {
+          return { error: 'Attachment ID is required' };
+        }
+
+        const attachment = attachments.get(attachmentId);
+        return { data: attachment ? { ...attachment } : undefined };
+      },
+
+      async getPending(attachmentIds, uploaderId, conversationId) {
+        return {
+          data: attachmentIds
+            .flatMap(attachmentId => attachments.get(attachmentId) ?? [])
+            .filter(
+              attachment =>
+                attachment.uploader_id === uploaderId &&
+                attachment.conversation_id === conversationId &&
+                !attachment.message_id
+            )
+            .sort((a, b) => time(a.created_at) - time(b.created_at))
+            .map(attachment => ({ ...attachment })),
+        };
+      },
+
+      async delete(filter) {
+        if (!filter.attachmentId && !filter.messageId) {
+          return { error: 'Attachment ID or message ID is required' };
+        }
+
+        const deleted = [...attachments.values()].filter(attachment =>
+          filter.attachmentId
+            ? attachment.id === filter.attachmentId && !attachment.message_id
+            : attachment.message_id === filter.messageId
+        );
+        for (const attachment of deleted) {
+          attachments.delete(attachment.id);
+        }
+
+        return {
+          data: deleted.map(({ storage_key, thumbnail_key }) => ({ storage_key, thumbnail_key })),
+        };
+      },
+    },
+  };
+}
@@ -0,0 +1,110 @@
+import {
+  getUserByEmail,
+  getRegistrationConflicts,
+  createUser,
+  searchUsers,
+  getRandomUsers,
+  getContactIds,
+  getUserPresence,
+  touchLastSeen,
+  setUserStatus,
+  getUserByToken,
+  createUserSession,
+  rotateSessionTokens,
+  getUserSessions,
+  deleteUserSession,
+  deleteOtherUserSessions,
+  getConversationById,
+  getDirectConversation,
+  getOrCreateDirectConversation,
+  createGroupConversation,
+  getConversationParticipants,
+  isConversationParticipant,
+  addConversationMembers,
+  removeConversationMember,
+  getUserConversations,
+  getConversationSummary,
+  createMessage,
+  getMessageById,
+  getMessageByClientId,
+  getMessageQuote,
+  editMessage,
+  deleteMessage,
+  getUserMessages,
+  getConversationMessages,
+  getMessageContext,
+  searchMessages,
+  getMessageEdits,
+  addMessageReaction,
+  removeMessageReaction,
+  markConversationReceipts,
+  markPendingDelivered,
+  createAttachment,
+  getAttachmentById,
+  getPendingAttachments,
+  deleteAttachments,
+} from '../operations';
+import { Repositories } from '../../types';
+
+/**
+ * creates repositories backed by the shared postgres pool
+ * @returns repositories for createApp
+ */
+export function createPostgresRepositories(): Repositories {
+  return {
+    users: {
+      getByEmail: getUserByEmail,
+      getRegistrationConflicts,
+      create: createUser,
+      search: searchUsers,
+      getRandom: getRandomUsers,
+      getContactIds,
+      getPresence: getUserPresence,
+      touchLastSeen,
+      setStatus: setUserStatus,
+    },
+    sessions: {
+      getUserByToken,
+      create: createUserSession,
+      rotate: rotateSessionTokens,
+      listForUser: getUserSessions,
+      delete: deleteUserSession,
+      deleteOthers: deleteOtherUserSessions,
+    },
+    conversations: {
+      getById: getConversationById,
+      getDirect: getDirectConversation,
+      getOrCreateDirect: getOrCreateDirectConversation,
+      createGroup: createGroupConversation,
+      getParticipants: getConversationParticipants,
+      isParticipant: isConversationParticipant,
+      addMembers: addConversationMembers,
+      removeMember: removeConversationMember,
+      listForUser: getUserConversations,
+      getSummary: getConversationSummary,
+    },
+    messages: {
+      create: createMessage,
+      getById: getMessageById,
+      getByClientId: getMessageByClientId,
+      getQuote: getMessageQuote,
+      edit: editMessage,
+      delete: deleteMessage,
+      listForUser: getUserMessages,
+      listForConversation: getConversationMessages,
+      getContext: getMessageContext,
+      search: searchMessages,
+      getEdits: getMessageEdits,
+      addReaction: addMessageReaction,
+      removeReaction: removeMessageReaction,
+      markReceipts: markConversationReceipts,
+      markPendingDelivered,
+    },
+    attachments: {
+      create: createAttachment,
+      getById: getAttachmentById,
+      getPending: getPendingAttachments,
+      delete: deleteAttachments,
+    },
+  };
+}
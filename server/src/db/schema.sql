@@ -1,79 +0,0 @@
--- MESSAGING PLATFORM DATABASE SCHEMA
--- Optimized for security, performance, and correctness
-
--- Create users table with proper constraints
-CREATE TABLE IF NOT EXISTS users (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    username VARCHAR(30) UNIQUE NOT NULL,
-    email VARCHAR(255) UNIQUE NOT NULL,
-    password_hash VARCHAR(255) NOT NULL,
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    
-    -- Security constraints
-    CONSTRAINT username_length CHECK (LENGTH(username) >= 3),
-    CONSTRAINT email_format CHECK (email ~* '^[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}$'),
-    CONSTRAINT password_hash_length CHECK (LENGTH(password_hash) >= 50)
-);
-
--- Create message status enum type
-DO $$ BEGIN
-    CREATE TYPE message_status AS ENUM ('sent', 'delivered', 'read');
-EXCEPTION
-    WHEN duplicate_object THEN null;
-END $$;
-
--- Create messages table with optimized structure
-CREATE TABLE IF NOT EXISTS messages (
-    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    content TEXT NOT NULL,
-    sender_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    recipient_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
-    status message_status NOT NULL DEFAULT 'sent',
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-    read_at TIMESTAMP WITH TIME ZONE,
-    
-    -- Security and business logic constraints
-    CONSTRAINT content_length CHECK (LENGTH(content) >= 1 AND LENGTH(content) <= 5000),
-    CONSTRAINT different_users CHECK (sender_id != recipient_id),
-    CONSTRAINT read_at_logic CHECK (
-        (status = 'read' AND read_at IS NOT NULL) OR 
-        (status != 'read' AND read_at IS NULL)
-    )
-);
-
--- Performance indexes for common query patterns
-CREATE INDEX IF NOT EXISTS idx_users_email ON users(email);
-CREATE INDEX IF NOT EXISTS idx_users_username ON users(username);
-
--- Message indexes for optimal query performance
-CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages(sender_id, created_at DESC);
-CREATE INDEX IF NOT EXISTS idx_messages_recipient ON messages(recipient_id, created_at DESC);
-CREATE INDEX IF NOT EXISTS idx_messages_conversation 
-    ON messages(LEAST(sender_id, recipient_id), GREATEST(sender_id, recipient_id), created_at DESC);
-CREATE INDEX IF NOT EXISTS idx_messages_unread 
-    ON messages(recipient_id, created_at DESC) WHERE status != 'read';
-CREATE INDEX IF NOT EXISTS idx_messages_status ON messages(status, created_at DESC);
-
--- Optimized trigger function for updated_at
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-    NEW.updated_at = CURRENT_TIMESTAMP;
-    RETURN NEW;
-END;
-$$ language 'plpgsql';
-
--- Apply triggers
-DROP TRIGGER IF EXISTS update_users_updated_at ON users;
-CREATE TRIGGER update_users_updated_at 
-    BEFORE UPDATE ON users
-    FOR EACH ROW 
-    EXECUTE FUNCTION update_updated_at_column();
-
-DROP TRIGGER IF EXISTS update_messages_updated_at ON messages;
-CREATE TRIGGER update_messages_updated_at 
-    BEFORE UPDATE ON messages
-    FOR EACH ROW 
-    EXECUTE FUNCTION update_updated_at_column();
\ No newline at end of file
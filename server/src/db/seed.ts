@@ -118,6 +118,33 @@ async function createTestUsers(client: Client): Promise<{ error?: string; data?:
   return { data: createdUsers };
 }
 
+async function getOrCreateConversation(
+  client: Client,
+  userId1: string,
+  userId2: string
+): Promise<{ error?: string; data?: string }> {
+  try {
+    const result = await client.query(
+      `WITH upserted AS (
+         INSERT INTO conversations (direct_key) VALUES ($1)
+         ON CONFLICT (direct_key) DO UPDATE SET direct_key = EXCLUDED.direct_key
+         RETURNING id
+       ), participants AS (
+         INSERT INTO conversation_participants (conversation_id, user_id)
+         SELECT upserted.id, unnest(ARRAY[$2::uuid, $3::uuid]) FROM upserted
+         ON CONFLICT (conversation_id, user_id) DO NOTHING
+       )
+       SELECT id FROM upserted`,
+      [[userId1, userId2].sort().join(':'), userId1, userId2]
+    );
+    return { data: result.rows[0].id };
+  } catch (_error) {
+    return {
+      error: `Conversation creation failed: ${_error instanceof Error ? _error.message : 'unknown error'}`,
+    };
+  }
+}
+
 async function createSampleMessages(
   client: Client,
   users: any[]
@@ -218,12 +245,23 @@ async function createSampleMessages(
 
     const messageTime = new Date(baseTime.getTime() - 60000 * (conversations.length - conv.delay));
 
+    const conversationResult = await getOrCreateConversation(client, senderId, recipientId);
+    if (conversationResult.error) {
+      console.warn(`Failed to create conversation between ${conv.sender} and ${conv.recipient}:`, conversationResult.error);
+      continue;
+    }
+
     try {
       const result = await client.query(
-        `INSERT INTO messages (content, sender_id, recipient_id, created_at) 
-         VALUES ($1, $2, $3, $4) 
-         RETURNING id, content, sender_id, recipient_id, created_at`,
-        [conv.content, senderId, recipientId, messageTime]
+        `INSERT INTO messages (content, sender_id, recipient_id, conversation_id, created_at) 
+         VALUES ($1, $2, $3, $4, $5) 
+         RETURNING id, content, sender_id, recipient_id, conversation_id, created_at`,
+        [conv.content, senderId, recipientId, conversationResult.data!, messageTime]
+      );
+      await client.query(
+        `UPDATE conversations SET last_message_at = $2
+         WHERE id = $1 AND (last_message_at IS NULL OR last_message_at < $2)`,
+        [conversationResult.data!, messageTime]
       );
       createdMessages.push(result.rows[0]);
     } catch (_error) {
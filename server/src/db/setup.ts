@@ -1,10 +1,5 @@
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
 import { Client } from 'pg';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+import { migrateUp } from './migrate';
 
 // Smart PostgreSQL connection | tries common configurations -- dx tingz
 async function getWorkingConnection() {
@@ -173,13 +168,14 @@ Then run this script again.
   const client = new Client(targetDb);
 
   try {
-    console.log('Setting up database schema...');
+    console.log('Running database migrations...');
     await client.connect();
 
-    const schemaPath = join(__dirname, 'schema.sql');
-    const schema = readFileSync(schemaPath, 'utf-8');
-
-    await client.query(schema);
+    const migrateResult = await migrateUp(client);
+    if (migrateResult.error) {
+      throw new Error(migrateResult.error);
+    }
+    console.log(`[OK] Applied ${migrateResult.data!.length} migration(s)`);
 
     console.log(`
 +--------------------------------------------------+
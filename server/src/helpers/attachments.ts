@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+import { AttachmentIdSchema, UploadAttachmentSchema } from '@messaging/shared';
+import {
+  Attachment,
+  AttachmentStorage,
+  AttachmentSummary,
+  ParsedData,
+  Repositories,
+} from '../types';
+import pino from 'pino';
+
+const logger = pino();
+
+const IMAGE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp']);
+
+const ALLOWED_MIME_TYPES = new Set([
+  ...IMAGE_MIME_TYPES,
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+]);
+
+const THUMBNAIL_SIZE = 320;
+
+/**
+ * detects a file's type from its leading bytes rather than trusting the client
+ * @param data - file contents
+ * @returns sniffed mime type, application/octet-stream when unrecognised
+ */
+export function sniffMimeType(data: Buffer): string {
+  const startsWith = (bytes: number[], offset = 0) =>
+    data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith([0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith([0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp';
+  }
+  if (startsWith([0x25, 0x50, 0x44, 0x46, 0x2d])) return 'application/pdf';
+  if (startsWith([0x50, 0x4b, 0x03, 0x04]) || startsWith([0x50, 0x4b, 0x05, 0x06])) {
+    return 'application/zip';
+  }
+
+  // treat it as text when the start decodes as utf-8 and has no nul bytes
+  const head = data.subarray(0, 8192);
+  if (head.length > 0 && !head.includes(0)) {
+    try {
+      new TextDecoder('utf-8', { fatal: true }).decode(head, { stream: true });
+      return 'text/plain';
+    } catch (_error) {
+      // not text
+    }
+  }
+
+  return 'application/octet-stream';
+}
+
+/**
+ * strips path components and control characters from an uploaded file name
+ * @param filename - original name sent by the client
+ * @returns a name that is safe to store and echo back in headers
+ */
+export function sanitizeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() || '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim();
+  return cleaned.slice(0, 255) || 'file';
+}
+
+/**
+ * reduces a stored attachment to the fields clients need
+ * @param attachment - attachment row
+ * @returns public attachment summary
+ */
+export function toAttachmentSummary(attachment: Attachment): AttachmentSummary {
+  return {
+    id: attachment.id,
+    filename: attachment.filename,
+    mime_type: attachment.mime_type,
+    size_bytes: Number(attachment.size_bytes),
+    width: attachment.width,
+    height: attachment.height,
+    has_thumbnail: Boolean(attachment.thumbnail_key),
+  };
+}
+
+/**
+ * parses and validates attachment upload form fields
+ * @param body - multipart form fields
+ * @returns conversation id the upload belongs to, or error message
+ */
+export function parseUploadAttachmentBody(body: any): ParsedData<string> {
+  const parsed = UploadAttachmentSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid upload data' };
+  }
+
+  return { data: parsed.data.conversation_id };
+}
+
+/**
+ * validates attachment id route parameter
+ * @param attachmentId - attachment id from the route
+ * @returns validated attachment id or error message
+ */
+export function parseAttachmentIdParam(attachmentId?: string): ParsedData<string> {
+  const parsed = AttachmentIdSchema.safeParse(attachmentId);
+  if (!parsed.success) {
+    return { error: 'Invalid attachment ID' };
+  }
+
+  return { data: parsed.data };
+}
+
+/**
+ * checks that a user belongs to a conversation
+ * @param repositories - persistence to read from
+ * @param conversationId - conversation identifier
+ * @param userId - user to check
+ * @returns true when the user is a member, or error message with http status
+ */
+async function requireConversationMember(
+  repositories: Repositories,
+  conversationId: string,
+  userId: string
+): Promise<ParsedData<true> & { status?: number }> {
+  const membershipResult = await repositories.conversations.isParticipant(conversationId, userId);
+  if (membershipResult.error) {
+    logger.error(`Conversation membership error: ${membershipResult.error}`);
+    return { error: 'Failed to load conversation', status: 500 };
+  }
+
+  if (!membershipResult.data) {
+    return { error: 'Conversation not found', status: 404 };
+  }
+
+  return { data: true };
+}
+
+/**
+ * sniffs, thumbnails and stores an uploaded file for a conversation
+ * @param repositories - persistence to read and write through
+ * @param storage - where the file and its thumbnail are stored
+ * @param file - uploaded file held in memory
+ * @param conversationId - conversation the file will be sent to
+ * @param userId - uploading user
+ * @returns stored attachment, or error message with http status
+ */
+export async function storeAttachmentUpload(
+  repositories: Repositories,
+  storage: AttachmentStorage,
+  file: { buffer: Buffer; originalname: string; size: number },
+  conversationId: string,
+  userId: string
+): Promise<ParsedData<Attachment> & { status?: number }> {
+  const membership = await requireConversationMember(repositories, conversationId, userId);
+  if (membership.error) {
+    return { error: membership.error, status: membership.status };
+  }
+
+  const mimeType = sniffMimeType(file.buffer);
+  if (!ALLOWED_MIME_TYPES.has(mimeType)) {
+    return { error: 'Unsupported file type', status: 415 };
+  }
+
+  const id = randomUUID();
+  const storageKey = `${id}/original`;
+  let thumbnailKey: string | null = null;
+  let width: number | null = null;
+  let height: number | null = null;
+
+  if (IMAGE_MIME_TYPES.has(mimeType)) {
+    try {
+      const metadata = await sharp(file.buffer).metadata();
+      width = metadata.width ?? null;
+      height = metadata.height ?? null;
+
+      const thumbnail = await sharp(file.buffer)
+        .rotate()
+        .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: 'inside', withoutEnlargement: true })
+        .webp({ quality: 80 })
+        .toBuffer();
+
+      thumbnailKey = `${id}/thumbnail.webp`;
+      const thumbnailResult = await storage.put(thumbnailKey, thumbnail, 'image/webp');
+      if (thumbnailResult.error) {
+        logger.error(`Thumbnail storage error: ${thumbnailResult.error}`);
+        return { error: 'Failed to store attachment', status: 500 };
+      }
+    } catch (_error) {
+      return { error: 'Image could not be processed', status: 415 };
+    }
+  }
+
+  const putResult = await storage.put(storageKey, file.buffer, mimeType);
+  if (putResult.error) {
+    logger.error(`Attachment storage error: ${putResult.error}`);
+    await removeStoredObjects(storage, [{ storage_key: storageKey, thumbnail_key: thumbnailKey }]);
+    return { error: 'Failed to store attachment', status: 500 };
+  }
+
+  const attachmentResult = await repositories.attachments.create({
+    id,
+    conversation_id: conversationId,
+    uploader_id: userId,
+    storage_key: storageKey,
+    thumbnail_key: thumbnailKey,
+    filename: sanitizeFilename(file.originalname),
+    mime_type: mimeType,
+    size_bytes: file.size,
+    width,
+    height,
+  });
+
+  if (attachmentResult.error) {
+    logger.error(`Attachment creation error: ${attachmentResult.error}`);
+    await removeStoredObjects(storage, [{ storage_key: storageKey, thumbnail_key: thumbnailKey }]);
+    return { error: 'Failed to store attachment', status: 500 };
+  }
+
+  return { data: attachmentResult.data! };
+}
+
+/**
+ * loads an attachment the user is allowed to download; uploads that haven't
+ * been sent yet are only visible to their uploader
+ * @param repositories - persistence to read from
+ * @param attachmentId - attachment identifier
+ * @param userId - requesting user
+ * @returns attachment, or error message with http status
+ */
+export async function resolveAttachmentAccess(
+  repositories: Repositories,
+  attachmentId: string,
+  userId: string
+): Promise<ParsedData<Attachment> & { status?: number }> {
+  const attachmentResult = await repositories.attachments.getById(attachmentId);
+  if (attachmentResult.error) {
+    logger.error(`Attachment lookup error: ${attachmentResult.error}`);
+    return { error: 'Failed to load attachment', status: 500 };
+  }
+
+  const attachment = attachmentResult.data;
+  if (!attachment || (!attachment.message_id && attachment.uploader_id !== userId)) {
+    return { error: 'Attachment not found', status: 404 };
+  }
+
+  const membership = await requireConversationMember(
+    repositories,
+    attachment.conversation_id,
+    userId
+  );
+  if (membership.error) {
+    return {
+      error: membership.status === 404 ? 'Attachment not found' : membership.error,
+      status: membership.status,
+    };
+  }
+
+  return { data: attachment };
+}
+
+/**
+ * removes stored objects, logging rather than failing when one can't be deleted
+ * @param storage - where the objects are stored
+ * @param objects - storage keys of the original files and their thumbnails
+ */
+export async function removeStoredObjects(
+  storage: AttachmentStorage,
+  objects: { storage_key: string; thumbnail_key: string | null }[]
+) {
+  const keys = objects.flatMap(object =>
+    object.thumbnail_key ? [object.storage_key, object.thumbnail_key] : [object.storage_key]
+  );
+
+  for (const key of keys) {
+    const result = await storage.delete(key);
+    if (result.error) {
+      logger.error(`Attachment object delete error: ${result.error}`);
+    }
+  }
+}
+
+/**
+ * deletes the attachments of a deleted message along with their stored objects
+ * @param repositories - persistence to read and write through
+ * @param storage - where the attachments' objects are stored
+ * @param messageId - message whose attachments should go
+ */
+export async function purgeMessageAttachments(
+  repositories: Repositories,
+  storage: AttachmentStorage,
+  messageId: string
+) {
+  const deleted = await repositories.attachments.delete({ messageId });
+  if (deleted.error) {
+    logger.error(`Attachment purge error: ${deleted.error}`);
+    return;
+  }
+
+  await removeStoredObjects(storage, deleted.data!);
+}
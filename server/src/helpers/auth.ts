@@ -1,8 +1,24 @@
-import { LoginSchema } from '@messaging/shared';
-import { verifyPassword } from '../auth-security';
-import { getUserByEmail, createUserSession } from '../db/operations';
-import { ParsedData, LoginData, LoginResponse } from '../types';
-import crypto from 'crypto';
+import { Request } from 'express';
+import { LoginSchema, SessionIdSchema, RefreshTokenSchema } from '@messaging/shared';
+import {
+  verifyPassword,
+  hashPassword,
+  validateUserData,
+  generateSessionToken,
+} from '../auth-security';
+import { config } from '../config/index.js';
+import { sseTokenManager } from './sse';
+import {
+  ParsedData,
+  LoginData,
+  LoginResponse,
+  Realtime,
+  RegisterData,
+  Repositories,
+  SessionClientInfo,
+  SessionTokens,
+  User,
+} from '../types';
 import pino from 'pino';
 
 const logger = pino();
@@ -21,13 +37,178 @@ export function parseLoginRequestBody(body: any): ParsedData<LoginData> {
   }
 }
 
+/**
+ * parses and validates registration request body
+ * @param body - request body containing username, email and password
+ * @returns normalized registration data or error message
+ */
+export function parseRegisterRequestBody(body: any): ParsedData<RegisterData> {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Invalid registration data format' };
+  }
+
+  return validateUserData({
+    username: body.username,
+    email: body.email,
+    password: body.password,
+  });
+}
+
+/**
+ * parses and validates token refresh request body
+ * @param body - request body containing the refresh token
+ * @returns refresh token or error message
+ */
+export function parseRefreshRequestBody(body: any): ParsedData<string> {
+  const parsed = RefreshTokenSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: 'Invalid refresh request format' };
+  }
+
+  return { data: parsed.data.refreshToken };
+}
+
+/**
+ * validates a session id route parameter
+ * @param sessionId - raw session id from request params
+ * @returns validated session id or error message
+ */
+export function parseSessionIdParam(sessionId?: string): ParsedData<string> {
+  const parsed = SessionIdSchema.safeParse(sessionId);
+  if (!parsed.success) {
+    return { error: 'Invalid session ID' };
+  }
+
+  return { data: parsed.data };
+}
+
+/**
+ * extracts the client details recorded with a new session
+ * @param req - express request the session is created from
+ * @returns user agent and ip address of the client
+ */
+export function getSessionClientInfo(req: Request): SessionClientInfo {
+  return {
+    user_agent: req.headers['user-agent'],
+    ip_address: req.ip,
+  };
+}
+
+/**
+ * tears down real-time streams belonging to revoked sessions
+ * @param realtime - streams to close, on every node
+ * @param sessionIds - auth sessions that were revoked
+ */
+export function closeSessionStreams(realtime: Realtime, sessionIds: string[]) {
+  for (const sessionId of sessionIds) {
+    sseTokenManager.revokeAuthSession(sessionId);
+    realtime.sse.disconnectSession(sessionId);
+  }
+}
+
+/**
+ * generates a fresh access/refresh token pair with the configured lifetimes
+ * @returns plaintext tokens and their lifetimes
+ */
+function issueSessionTokens(): SessionTokens {
+  return {
+    accessToken: generateSessionToken(),
+    refreshToken: generateSessionToken(),
+    accessTtlSeconds: config.auth.accessTokenTtlSeconds,
+    refreshTtlSeconds: config.auth.refreshTokenTtlSeconds,
+  };
+}
+
+/**
+ * shapes the auth response returned by login, register and refresh
+ * @param user - user the tokens belong to
+ * @param tokens - freshly issued token pair
+ * @returns user data with access token, refresh token and access expiry
+ */
+function buildLoginResponse(user: Omit<User, 'password_hash'>, tokens: SessionTokens): LoginResponse {
+  return {
+    user: {
+      id: user.id,
+      username: user.username,
+      email: user.email,
+    },
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresAt: new Date(Date.now() + tokens.accessTtlSeconds * 1000).toISOString(),
+  };
+}
+
+/**
+ * creates a new session for an authenticated user
+ * @param repositories - persistence to read and write through
+ * @param user - user the session belongs to
+ * @param clientInfo - user agent and ip address of the client
+ * @returns user data and session tokens or error message
+ */
+async function startUserSession(
+  repositories: Repositories,
+  user: Omit<User, 'password_hash'>,
+  clientInfo: SessionClientInfo
+): Promise<ParsedData<LoginResponse>> {
+  const tokens = issueSessionTokens();
+
+  const sessionResult = await repositories.sessions.create(user.id, tokens, clientInfo);
+  if (sessionResult.error) {
+    logger.error(`Session creation error: ${sessionResult.error}`);
+    return { error: 'Authentication failed' };
+  }
+
+  return { data: buildLoginResponse(user, tokens) };
+}
+
+/**
+ * rotates a session's tokens; a replayed refresh token revokes the session
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams of a revoked session to close
+ * @param refreshToken - refresh token presented by the client
+ * @returns user data and new session tokens, or error message with http status
+ */
+export async function processTokenRefresh(
+  repositories: Repositories,
+  realtime: Realtime,
+  refreshToken: string
+): Promise<ParsedData<LoginResponse> & { status?: number }> {
+  const tokens = issueSessionTokens();
+
+  const rotationResult = await repositories.sessions.rotate(refreshToken, tokens);
+  if (rotationResult.error) {
+    logger.error(`Token refresh error: ${rotationResult.error}`);
+    return { error: 'Token refresh failed', status: 500 };
+  }
+
+  const rotation = rotationResult.data!;
+
+  if (rotation.status === 'reused') {
+    logger.warn(`Refresh token reuse detected, revoked session ${rotation.sessionId}`);
+    closeSessionStreams(realtime, [rotation.sessionId]);
+    return { error: 'Refresh token already used; session revoked', status: 401 };
+  }
+
+  if (rotation.status === 'invalid') {
+    return { error: 'Invalid or expired refresh token', status: 401 };
+  }
+
+  return { data: buildLoginResponse(rotation.user, tokens) };
+}
+
 /**
  * processes user login with email and password verification
+ * @param repositories - persistence to read and write through
  * @param loginData - object containing email and password
+ * @param clientInfo - user agent and ip address recorded with the session
  * @returns user data and session token or error message
  */
-export async function processHttpLogin(loginData: LoginData): Promise<ParsedData<LoginResponse>> {
-  const userResult = await getUserByEmail(loginData.email);
+export async function processHttpLogin(
+  repositories: Repositories,
+  loginData: LoginData,
+  clientInfo: SessionClientInfo = {}
+): Promise<ParsedData<LoginResponse>> {
+  const userResult = await repositories.users.getByEmail(loginData.email);
   if (userResult.error) {
     logger.error('Login database error:', userResult.error);
     return { error: 'Authentication failed' };
@@ -47,22 +228,63 @@ export async function processHttpLogin(loginData: LoginData): Promise<ParsedData
     return { error: 'Invalid credentials' };
   }
 
-  const token = crypto.randomBytes(32).toString('hex');
+  return startUserSession(repositories, userResult.data, clientInfo);
+}
 
-  const sessionResult = await createUserSession(userResult.data.id, token);
+/**
+ * registers a new account and signs it in
+ * @param repositories - persistence to read and write through
+ * @param registerData - validated username, email and password
+ * @param clientInfo - user agent and ip address recorded with the session
+ * @returns user data and session token, or error message with http status
+ */
+export async function processHttpRegister(
+  repositories: Repositories,
+  registerData: RegisterData,
+  clientInfo: SessionClientInfo = {}
+): Promise<ParsedData<LoginResponse> & { status?: number }> {
+  const conflictResult = await repositories.users.getRegistrationConflicts(
+    registerData.username,
+    registerData.email
+  );
+  if (conflictResult.error) {
+    logger.error(`Registration lookup error: ${conflictResult.error}`);
+    return { error: 'Registration failed', status: 500 };
+  }
+
+  if (conflictResult.data!.email) {
+    return { error: 'Email is already registered', status: 409 };
+  }
+
+  if (conflictResult.data!.username) {
+    return { error: 'Username is already taken', status: 409 };
+  }
+
+  const hashResult = await hashPassword(registerData.password);
+  if (hashResult.error) {
+    logger.error(`Password hashing error: ${hashResult.error}`);
+    return { error: 'Registration failed', status: 500 };
+  }
+
+  const userResult = await repositories.users.create({
+    username: registerData.username,
+    email: registerData.email,
+    password_hash: hashResult.data!,
+  });
+
+  if (userResult.error) {
+    logger.error(`User creation error: ${userResult.error}`);
+    return { error: 'Registration failed', status: 500 };
+  }
+
+  if (!userResult.data) {
+    return { error: 'Username or email is already registered', status: 409 };
+  }
+
+  const sessionResult = await startUserSession(repositories, userResult.data, clientInfo);
   if (sessionResult.error) {
-    logger.error('Session creation error:', sessionResult.error);
-    return { error: 'Authentication failed' };
+    return { error: sessionResult.error, status: 500 };
   }
 
-  return {
-    data: {
-      user: {
-        id: userResult.data.id,
-        username: userResult.data.username,
-        email: userResult.data.email,
-      },
-      token,
-    },
-  };
-}
\ No newline at end of file
+  return sessionResult;
+}
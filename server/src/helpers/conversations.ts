@@ -0,0 +1,134 @@
+import {
+  CreateConversationSchema,
+  CreateGroupSchema,
+  AddMembersSchema,
+  ConversationFilterSchema,
+  ConversationIdSchema,
+} from '@messaging/shared';
+import {
+  ParsedData,
+  CreateConversationData,
+  CreateGroupData,
+  AddMembersData,
+  ConversationFilterData,
+  GroupMembership,
+  Repositories,
+} from '../types';
+import pino from 'pino';
+
+const logger = pino();
+
+/**
+ * parses and validates conversation creation request body
+ * @param body - request body containing the other participant
+ * @returns parsed participant id or error message
+ */
+export function parseCreateConversationBody(body: any): ParsedData<CreateConversationData> {
+  try {
+    const parsed = CreateConversationSchema.parse(body);
+    return { data: { participant_id: parsed.participant_id } };
+  } catch (_error) {
+    return { error: 'Invalid conversation data format' };
+  }
+}
+
+/**
+ * parses and validates group creation request body
+ * @param body - request body containing group name and member ids
+ * @returns parsed group name and member ids or error message
+ */
+export function parseCreateGroupBody(body: any): ParsedData<CreateGroupData> {
+  try {
+    const parsed = CreateGroupSchema.parse(body);
+    return { data: { name: parsed.name, member_ids: parsed.member_ids } };
+  } catch (_error) {
+    return { error: 'Invalid group data format' };
+  }
+}
+
+/**
+ * parses and validates add members request body
+ * @param body - request body containing member ids
+ * @returns parsed member ids or error message
+ */
+export function parseAddMembersBody(body: any): ParsedData<AddMembersData> {
+  try {
+    const parsed = AddMembersSchema.parse(body);
+    return { data: { member_ids: parsed.member_ids } };
+  } catch (_error) {
+    return { error: 'Invalid member data format' };
+  }
+}
+
+/**
+ * parses and validates inbox pagination query parameters
+ * @param query - query parameters for conversation listing
+ * @returns parsed limit and offset or error message
+ */
+export function parseConversationFilterQuery(query: any): ParsedData<ConversationFilterData> {
+  try {
+    const parsed = ConversationFilterSchema.parse(query);
+    return { data: { limit: parsed.limit, offset: parsed.offset } };
+  } catch (_error) {
+    return { error: 'Invalid filter parameters' };
+  }
+}
+
+/**
+ * parses and validates conversation id route parameter
+ * @param conversationId - raw conversation id from the url
+ * @returns conversation id or error message
+ */
+export function parseConversationIdParam(conversationId?: string): ParsedData<string> {
+  const parsed = ConversationIdSchema.safeParse(conversationId);
+  if (!parsed.success) {
+    return { error: 'Invalid conversation ID' };
+  }
+
+  return { data: parsed.data };
+}
+
+/**
+ * loads a group conversation and the caller's membership in it
+ * @param repositories - persistence to read from
+ * @param conversationId - group conversation identifier
+ * @param userId - user who must be a member of the group
+ * @returns caller role and member ids, or error message with http status
+ */
+export async function resolveGroupMembership(
+  repositories: Repositories,
+  conversationId: string,
+  userId: string
+): Promise<ParsedData<GroupMembership> & { status?: number }> {
+  const conversationResult = await repositories.conversations.getById(conversationId);
+  if (conversationResult.error) {
+    logger.error(`Conversation lookup error: ${conversationResult.error}`);
+    return { error: 'Failed to load conversation', status: 500 };
+  }
+
+  if (!conversationResult.data) {
+    return { error: 'Conversation not found', status: 404 };
+  }
+
+  const participantsResult = await repositories.conversations.getParticipants(conversationId);
+  if (participantsResult.error) {
+    logger.error(`Conversation participants error: ${participantsResult.error}`);
+    return { error: 'Failed to load conversation', status: 500 };
+  }
+
+  const membership = participantsResult.data!.find(participant => participant.user_id === userId);
+  if (!membership) {
+    return { error: 'Conversation not found', status: 404 };
+  }
+
+  if (conversationResult.data.type !== 'group') {
+    return { error: 'Members can only be changed in group conversations', status: 400 };
+  }
+
+  return {
+    data: {
+      role: membership.role,
+      participantIds: participantsResult.data!.map(participant => participant.user_id),
+    },
+  };
+}
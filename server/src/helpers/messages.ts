@@ -1,6 +1,30 @@
-import { CreateMessageSchema, MessageFilterSchema } from '@messaging/shared';
-import { getUserByToken } from '../db/operations';
-import { ParsedData, CreateMessageData, MessageFilterData, User } from '../types';
+import {
+  CreateMessageSchema,
+  EditMessageSchema,
+  MessageFilterSchema,
+  MessageIdSchema,
+  MessagePageSchema,
+  MessagePage as MessagePageParams,
+  ReactionSchema,
+  MessageSearchSchema,
+} from '@messaging/shared';
+import { toAttachmentSummary } from './attachments';
+import {
+  ParsedData,
+  ConversationMessage,
+  CreateMessageData,
+  Message,
+  MessageFilterData,
+  MessageAccess,
+  MessageSearchData,
+  MessageCursor,
+  MessagePage,
+  MessagePageQuery,
+  MessagePageRow,
+  Realtime,
+  Repositories,
+  SessionUser,
+} from '../types';
 import pino from 'pino';
 
 const logger = pino();
@@ -30,43 +54,479 @@ export function parseAuthorizationHeader(authHeader?: string): ParsedData<string
 /**
  * parses and validates message creation request body
  * @param body - request body containing message data
- * @returns parsed message content and recipient id or error
+ * @returns parsed message content, conversation or recipient id and reply target, or error
  */
 export function parseCreateMessageBody(body: any): ParsedData<CreateMessageData> {
   try {
     const parsed = CreateMessageSchema.parse(body);
-    return { data: { content: parsed.content, recipient_id: parsed.recipient_id } };
+    return {
+      data: {
+        content: parsed.content,
+        conversation_id: parsed.conversation_id,
+        recipient_id: parsed.recipient_id,
+        reply_to_id: parsed.reply_to_id,
+        attachment_ids: parsed.attachment_ids,
+        client_id: parsed.client_id,
+      },
+    };
   } catch (_error) {
     return { error: 'Invalid message data format' };
   }
 }
 
+/**
+ * parses and validates message edit request body
+ * @param body - request body containing the new message content
+ * @returns parsed content or error message
+ */
+export function parseEditMessageBody(body: any): ParsedData<string> {
+  const parsed = EditMessageSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid message data format' };
+  }
+
+  return { data: parsed.data.content };
+}
+
+/**
+ * parses and validates reaction request body
+ * @param body - request body containing the emoji
+ * @returns parsed emoji or error message
+ */
+export function parseReactionBody(body: any): ParsedData<string> {
+  const parsed = ReactionSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid reaction' };
+  }
+
+  return { data: parsed.data.emoji };
+}
+
+/**
+ * validates message id route parameter
+ * @param messageId - message id from the route
+ * @returns validated message id or error message
+ */
+export function parseMessageIdParam(messageId?: string): ParsedData<string> {
+  const parsed = MessageIdSchema.safeParse(messageId);
+  if (!parsed.success) {
+    return { error: 'Invalid message ID' };
+  }
+
+  return { data: parsed.data };
+}
+
+/**
+ * loads a message and the member ids of its conversation
+ * @param repositories - persistence to read from
+ * @param messageId - message identifier
+ * @param userId - user who must be a member of the message's conversation
+ * @returns message and member ids, or error message with http status
+ */
+export async function resolveMessageAccess(
+  repositories: Repositories,
+  messageId: string,
+  userId: string
+): Promise<ParsedData<MessageAccess> & { status?: number }> {
+  const messageResult = await repositories.messages.getById(messageId);
+  if (messageResult.error) {
+    logger.error(`Message lookup error: ${messageResult.error}`);
+    return { error: 'Failed to load message', status: 500 };
+  }
+
+  if (!messageResult.data || !messageResult.data.conversation_id) {
+    return { error: 'Message not found', status: 404 };
+  }
+
+  const participantsResult = await repositories.conversations.getParticipants(
+    messageResult.data.conversation_id
+  );
+  if (participantsResult.error) {
+    logger.error(`Conversation participants error: ${participantsResult.error}`);
+    return { error: 'Failed to load message', status: 500 };
+  }
+
+  const participantIds = participantsResult.data!.map(participant => participant.user_id);
+  if (!participantIds.includes(userId)) {
+    return { error: 'Message not found', status: 404 };
+  }
+
+  return { data: { message: messageResult.data, participantIds } };
+}
+
+/**
+ * looks up the message a sender already sent with a client-generated id, with
+ * the reply preview and attachments the first send returned
+ * @param repositories - persistence to read from
+ * @param conversationId - conversation the message was sent to
+ * @param senderId - user who sent it
+ * @param clientId - id the client generated for the message
+ * @returns the earlier message if there is one, or error message with http status
+ */
+async function findResentMessage(
+  repositories: Repositories,
+  conversationId: string,
+  senderId: string,
+  clientId: string
+): Promise<ParsedData<ConversationMessage> & { status?: number }> {
+  const sentResult = await repositories.messages.getByClientId(conversationId, senderId, clientId);
+  if (sentResult.error) {
+    logger.error(`Client id lookup error: ${sentResult.error}`);
+    return { error: 'Failed to send message', status: 500 };
+  }
+
+  return { data: sentResult.data };
+}
+
+/**
+ * creates a message in a conversation, or in the sender's direct conversation
+ * with the recipient, and pushes it to the other members; sending again with
+ * the same client_id returns the first message instead of creating another
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams the message is pushed to
+ * @param sender - user sending the message
+ * @param messageData - validated message content, target, optional reply and attachments, and client id
+ * @returns created message, flagged as replayed when it was sent before, or error message with http status
+ */
+export async function sendMessage(
+  repositories: Repositories,
+  realtime: Realtime,
+  sender: { id: string; username: string },
+  messageData: CreateMessageData
+): Promise<ParsedData<Message> & { status?: number; replayed?: boolean }> {
+  const { content, conversation_id, recipient_id, reply_to_id, attachment_ids, client_id } =
+    messageData;
+
+  if (!conversation_id && sender.id === recipient_id) {
+    return { error: 'Cannot send message to yourself', status: 400 };
+  }
+
+  const conversationResult = conversation_id
+    ? await repositories.conversations.getById(conversation_id)
+    : await repositories.conversations.getOrCreateDirect(sender.id, recipient_id!);
+
+  if (conversationResult.error) {
+    logger.error(`Conversation lookup error: ${conversationResult.error}`);
+    return { error: 'Failed to send message', status: 500 };
+  }
+
+  if (!conversationResult.data) {
+    return { error: 'Conversation not found', status: 404 };
+  }
+
+  const conversation = conversationResult.data;
+
+  const participantsResult = await repositories.conversations.getParticipants(conversation.id);
+  if (participantsResult.error) {
+    logger.error(`Conversation participants error: ${participantsResult.error}`);
+    return { error: 'Failed to send message', status: 500 };
+  }
+
+  const participantIds = participantsResult.data!.map(participant => participant.user_id);
+  if (!participantIds.includes(sender.id)) {
+    return { error: 'Conversation not found', status: 404 };
+  }
+
+  const otherParticipantIds = participantIds.filter(id => id !== sender.id);
+
+  // checked before the reply and attachments, whose uploads the first send already used
+  if (client_id) {
+    const resent = await findResentMessage(repositories, conversation.id, sender.id, client_id);
+    if (resent.error || resent.data) {
+      return { ...resent, replayed: Boolean(resent.data) };
+    }
+  }
+
+  let replyTo = null;
+  if (reply_to_id) {
+    const quoteResult = await repositories.messages.getQuote(reply_to_id);
+    if (quoteResult.error) {
+      logger.error(`Reply target lookup error: ${quoteResult.error}`);
+      return { error: 'Failed to send message', status: 500 };
+    }
+
+    // replies can only quote messages from the same conversation
+    if (!quoteResult.data || quoteResult.data.conversation_id !== conversation.id) {
+      return { error: 'Reply target not found in this conversation', status: 400 };
+    }
+
+    const { conversation_id: _conversationId, ...quote } = quoteResult.data;
+    replyTo = quote;
+  }
+
+  const attachmentIds = [...new Set(attachment_ids || [])];
+  const attachmentsResult = await repositories.attachments.getPending(
+    attachmentIds,
+    sender.id,
+    conversation.id
+  );
+  if (attachmentsResult.error) {
+    logger.error(`Pending attachments error: ${attachmentsResult.error}`);
+    return { error: 'Failed to send message', status: 500 };
+  }
+
+  // only the sender's own unsent uploads to this conversation can be attached
+  if (attachmentsResult.data!.length !== attachmentIds.length) {
+    return { error: 'Attachment not found or already sent', status: 400 };
+  }
+
+  const messageResult = await repositories.messages.create({
+    content,
+    sender_id: sender.id,
+    conversation_id: conversation.id,
+    recipient_id: conversation.type === 'direct' ? otherParticipantIds[0] || null : null,
+    reply_to_id: replyTo?.id || null,
+    attachment_ids: attachmentIds,
+    client_id: client_id || null,
+  });
+
+  if (messageResult.error) {
+    logger.error(`Message creation error: ${messageResult.error}`);
+    return { error: 'Failed to send message', status: 500 };
+  }
+
+  // a concurrent retry got there first
+  if (!messageResult.data) {
+    const resent = await findResentMessage(repositories, conversation.id, sender.id, client_id!);
+    if (resent.error || resent.data) {
+      return { ...resent, replayed: Boolean(resent.data) };
+    }
+
+    return { error: 'Client ID was already used for another message', status: 409 };
+  }
+
+  const message = {
+    ...messageResult.data!,
+    reply_to: replyTo,
+    attachments: attachmentsResult.data!.map(toAttachmentSummary),
+  };
+
+  // the message replaces the typing indicator
+  realtime.typing.stop(sender.id, conversation.id);
+  realtime.sse.notifyNewMessage(sender.id, otherParticipantIds, {
+    ...message,
+    sender_username: sender.username,
+  });
+
+  return { data: message };
+}
+
+/**
+ * decodes the before/after cursors of a page request; only one may be given
+ * @param params - validated paging parameters
+ * @returns page size and keyset position, or error message
+ */
+function decodeMessagePage(params: MessagePageParams): ParsedData<MessagePageQuery> {
+  if (params.before && params.after) {
+    return { error: 'Use either before or after, not both' };
+  }
+
+  const page: MessagePageQuery = { limit: params.limit };
+  for (const direction of ['before', 'after'] as const) {
+    const cursor = params[direction];
+    if (!cursor) continue;
+
+    const position = decodeMessageCursor(cursor);
+    if (position.error) {
+      return { error: position.error };
+    }
+    page[direction] = position.data;
+  }
+
+  return { data: page };
+}
+
+/**
+ * parses paging query parameters for a message listing
+ * @param query - query parameters with optional limit and a before or after cursor
+ * @returns page size and keyset position, or error message
+ */
+export function parseMessagePageQuery(query: any): ParsedData<MessagePageQuery> {
+  const parsed = MessagePageSchema.safeParse(query);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid paging parameters' };
+  }
+
+  return decodeMessagePage(parsed.data);
+}
+
 /**
  * parses and validates message filter query parameters
  * @param query - query parameters for message filtering
  * @returns parsed filter options or error message
  */
 export function parseMessageFilterQuery(query: any): ParsedData<MessageFilterData> {
+  const parsed = MessageFilterSchema.safeParse(query);
+  if (!parsed.success) {
+    return { error: 'Invalid filter parameters' };
+  }
+
+  const page = decodeMessagePage(parsed.data);
+  if (page.error) {
+    return { error: page.error };
+  }
+
+  return { data: { ...page.data!, status: parsed.data.status } };
+}
+
+/**
+ * turns a run of consecutive messages into a page with the cursors to page
+ * further either way
+ * @param rows - messages oldest first
+ * @param more - whether older or newer messages exist; by default both are
+ *   assumed, and an empty page in that direction settles it
+ * @returns messages with prev/next cursors
+ */
+export function buildMessageWindow<T extends { id: string }>(
+  rows: MessagePageRow<T>[],
+  more: Pick<MessagePage<T>, 'has_older' | 'has_newer'> = { has_older: true, has_newer: true }
+): MessagePage<T> {
+  const oldest = rows[0];
+  const newest = rows[rows.length - 1];
+
+  return {
+    messages: rows.map(({ cursor_created_at: _cursor, ...message }) => message as unknown as T),
+    prev_cursor:
+      oldest && encodeMessageCursor({ created_at: oldest.cursor_created_at, id: oldest.id }),
+    next_cursor:
+      newest && encodeMessageCursor({ created_at: newest.cursor_created_at, id: newest.id }),
+    ...more,
+  };
+}
+
+/**
+ * turns rows fetched one past the page size into a page, oldest first
+ * @param rows - rows nearest the cursor first, as the repositories list them
+ * @param page - page size and cursor the rows were fetched for
+ * @returns messages with prev/next cursors and whether older or newer ones exist
+ */
+export function buildMessagePage<T extends { id: string }>(
+  rows: MessagePageRow<T>[],
+  page: MessagePageQuery
+): MessagePage<T> {
+  const hasMore = rows.length > page.limit;
+  const nearest = rows.slice(0, page.limit);
+
+  // a cursor always names a message on the other side of the page
+  return buildMessageWindow(page.after ? nearest : nearest.reverse(), {
+    has_older: page.after ? true : hasMore,
+    has_newer: page.after ? hasMore : Boolean(page.before),
+  });
+}
+
+const SEARCH_FILTER_PATTERN = /\b(from|with|before|after):("[^"]*"|\S+)/gi;
+const SEARCH_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * parses a yyyy-mm-dd search filter value as the start of that day in utc
+ * @param value - date text from the query
+ * @returns date or undefined when the text isn't a valid date
+ */
+function parseSearchDate(value: string): Date | undefined {
+  if (!SEARCH_DATE_PATTERN.test(value)) {
+    return undefined;
+  }
+
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * encodes the keyset position of a message for paging
+ * @param position - exact timestamp text and id of the message
+ * @returns opaque cursor string
+ */
+export function encodeMessageCursor(position: MessageCursor): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * decodes a cursor produced by encodeMessageCursor
+ * @param cursor - opaque cursor string
+ * @returns keyset position or error message
+ */
+function decodeMessageCursor(cursor: string): ParsedData<MessageCursor> {
   try {
-    const parsed = MessageFilterSchema.parse(query);
-    return { data: { limit: parsed.limit, cursor: parsed.cursor, status: parsed.status } };
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (
+      typeof position?.created_at !== 'string' ||
+      Number.isNaN(new Date(position.created_at).getTime()) ||
+      !MessageIdSchema.safeParse(position.id).success
+    ) {
+      return { error: 'Invalid cursor' };
+    }
+
+    return { data: { created_at: position.created_at, id: position.id } };
   } catch (_error) {
-    return { error: 'Invalid filter parameters' };
+    return { error: 'Invalid cursor' };
+  }
+}
+
+/**
+ * parses a message search query; `from:user`, `with:user`, `before:yyyy-mm-dd`
+ * and `after:yyyy-mm-dd` filters are pulled out and the rest is searched as text
+ * @param query - query parameters with q, optional limit and cursor
+ * @returns search text, filters and paging options, or error message
+ */
+export function parseMessageSearchQuery(query: any): ParsedData<MessageSearchData> {
+  const parsed = MessageSearchSchema.safeParse(query);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid search parameters' };
   }
+
+  const search: MessageSearchData = { text: '', limit: parsed.data.limit };
+
+  for (const [, key, rawValue] of parsed.data.q.matchAll(SEARCH_FILTER_PATTERN)) {
+    const value = rawValue!.replace(/^"|"$/g, '');
+    const filter = key!.toLowerCase() as 'from' | 'with' | 'before' | 'after';
+
+    if (filter === 'from' || filter === 'with') {
+      search[filter] = value.replace(/^@/, '');
+      continue;
+    }
+
+    const date = parseSearchDate(value);
+    if (!date) {
+      return { error: `Invalid date in ${filter}: filter, use YYYY-MM-DD` };
+    }
+
+    // after: excludes the named day itself
+    search[filter] = filter === 'after' ? new Date(date.getTime() + 24 * 60 * 60 * 1000) : date;
+  }
+
+  search.text = parsed.data.q.replace(SEARCH_FILTER_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+
+  if (!search.text && !search.from && !search.with && !search.before && !search.after) {
+    return { error: 'Search query is required' };
+  }
+
+  if (parsed.data.cursor) {
+    const cursor = decodeMessageCursor(parsed.data.cursor);
+    if (cursor.error) {
+      return { error: cursor.error };
+    }
+    search.cursor = cursor.data;
+  }
+
+  return { data: search };
 }
 
 /**
  * authenticates request using bearer token
+ * @param repositories - persistence the session is looked up in
  * @param authHeader - authorization header with bearer token
  * @returns authenticated user data or error message
  */
-export async function authenticateRequest(authHeader?: string): Promise<ParsedData<Omit<User, 'password_hash'>>> {
+export async function authenticateRequest(
+  repositories: Repositories,
+  authHeader?: string
+): Promise<ParsedData<SessionUser>> {
   const tokenResult = parseAuthorizationHeader(authHeader);
   if (tokenResult.error) {
     return { error: tokenResult.error };
   }
 
-  const userResult = await getUserByToken(tokenResult.data!);
+  const userResult = await repositories.sessions.getUserByToken(tokenResult.data!);
   if (userResult.error) {
     logger.error('Token validation error:', userResult.error);
     return { error: 'Invalid authentication token' };
@@ -77,4 +537,4 @@ export async function authenticateRequest(authHeader?: string): Promise<ParsedDa
   }
 
   return { data: userResult.data };
-}
\ No newline at end of file
+}
@@ -1,20 +1,23 @@
 import { NextFunction } from 'express';
-import { AuthenticatedRequest } from '../types';
+import { AuthenticatedRequest, Repositories } from '../types';
 import { createError } from '@messaging/shared';
 import { authenticateRequest } from './messages';
 
 /**
  * creates middleware for request authentication
+ * @param repositories - persistence the session is looked up in
  * @returns express middleware function for authentication
  */
-export function createAuthMiddleware() {
+export function createAuthMiddleware(repositories: Repositories) {
   return async (req: AuthenticatedRequest, res: any, next: NextFunction) => {
-    const authResult = await authenticateRequest(req.headers.authorization);
+    const authResult = await authenticateRequest(repositories, req.headers.authorization);
     if (authResult.error) {
       return res.status(401).json(createError(authResult.error));
     }
 
-    req.user = authResult.data;
+    const { session_id, ...user } = authResult.data!;
+    req.user = user;
+    req.sessionId = session_id;
     next();
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,231 @@
+import { SetStatus, SetStatusSchema, UserPresence } from '@messaging/shared';
+import { ParsedData, PresenceState, Realtime, Repositories, UserPresenceRecord } from '../types';
+import pino from 'pino';
+
+const logger = pino();
+
+/**
+ * formats a database timestamp for api responses and events
+ * @param value - timestamp as read from the database
+ * @returns iso string, or null when unset
+ */
+function toIsoString(value: string | Date | null): string | null {
+  if (!value) return null;
+  return new Date(value).toISOString();
+}
+
+/**
+ * combines a user's stored status with their live connection state
+ * @param record - stored presence row
+ * @param state - whether they're connected and active right now
+ * @returns presence as sent to clients
+ */
+function toUserPresence(record: UserPresenceRecord, state: PresenceState): UserPresence {
+  return {
+    user_id: record.user_id,
+    state,
+    status: record.status,
+    status_message: record.status_message,
+    status_expires_at: toIsoString(record.status_expires_at),
+    last_seen_at: toIsoString(record.last_seen_at),
+  };
+}
+
+/**
+ * parses and validates a status update body
+ * @param body - request body with status and optional message and expiry
+ * @returns parsed status or error message
+ */
+export function parseSetStatusBody(body: any): ParsedData<SetStatus> {
+  const parsed = SetStatusSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid status' };
+  }
+
+  return { data: parsed.data };
+}
+
+/**
+ * tells a user's contacts their current presence
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams and live presence of this node
+ * @param record - the user's stored presence
+ * @returns nothing, or error message
+ */
+async function notifyContacts(
+  repositories: Repositories,
+  realtime: Realtime,
+  record: UserPresenceRecord
+): Promise<ParsedData<true>> {
+  const contactsResult = await repositories.users.getContactIds(record.user_id);
+  if (contactsResult.error) {
+    return { error: contactsResult.error };
+  }
+
+  const presence = toUserPresence(record, realtime.sse.getPresence(record.user_id));
+  realtime.sse.notifyUserStatus(contactsResult.data!, presence);
+  return { data: true };
+}
+
+/**
+ * tells a user's contacts they came online, went away or went offline;
+ * going offline also stamps their last seen time
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams and live presence of this node
+ * @param userId - user whose presence changed
+ * @param state - their new presence state
+ */
+export async function announcePresence(
+  repositories: Repositories,
+  realtime: Realtime,
+  userId: string,
+  state: PresenceState
+) {
+  let record: UserPresenceRecord | undefined;
+  if (state === 'offline') {
+    const touchResult = await repositories.users.touchLastSeen(userId);
+    record = touchResult.data;
+  } else {
+    const presenceResult = await repositories.users.getPresence([userId]);
+    record = presenceResult.data?.[0];
+  }
+
+  if (!record) {
+    logger.error(`Presence lookup failed for user ${userId}`);
+    return;
+  }
+
+  const notifyResult = await notifyContacts(repositories, realtime, record);
+  if (notifyResult.error) {
+    logger.error(`Presence announcement error for user ${userId}: ${notifyResult.error}`);
+  }
+}
+
+/**
+ * records that a user is interacting with the app, keeping them from going
+ * away and updating their last seen time
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams and live presence of this node
+ * @param userId - user whose client sent an activity ping
+ * @returns nothing, or error message
+ */
+export async function recordActivity(
+  repositories: Repositories,
+  realtime: Realtime,
+  userId: string
+): Promise<ParsedData<true>> {
+  realtime.sse.recordActivity(userId);
+
+  const touchResult = await repositories.users.touchLastSeen(userId);
+  if (touchResult.error) {
+    return { error: touchResult.error };
+  }
+
+  return { data: true };
+}
+
+/**
+ * gets which of a user's contacts are connected
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams and live presence of this node
+ * @param userId - user asking
+ * @returns ids of online contacts, or error message
+ */
+export async function getOnlineContacts(
+  repositories: Repositories,
+  realtime: Realtime,
+  userId: string
+): Promise<ParsedData<string[]>> {
+  const contactsResult = await repositories.users.getContactIds(userId);
+  if (contactsResult.error) {
+    return { error: contactsResult.error };
+  }
+
+  return { data: contactsResult.data!.filter(contactId => realtime.sse.isUserOnline(contactId)) };
+}
+
+/**
+ * checks whether one user is connected, as seen by someone else; anyone the
+ * asker shares no conversation with is reported offline
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams and live presence of this node
+ * @param userId - user asking
+ * @param contactId - user to check
+ * @returns whether the contact is online, or error message
+ */
+export async function isContactOnline(
+  repositories: Repositories,
+  realtime: Realtime,
+  userId: string,
+  contactId: string
+): Promise<ParsedData<boolean>> {
+  const contactsResult = await repositories.users.getContactIds(userId);
+  if (contactsResult.error) {
+    return { error: contactsResult.error };
+  }
+
+  return {
+    data: contactsResult.data!.includes(contactId) && realtime.sse.isUserOnline(contactId),
+  };
+}
+
+/**
+ * gets the presence and chosen status of everyone a user shares a conversation with
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams and live presence of this node
+ * @param userId - user asking
+ * @returns presence of each contact, or error message
+ */
+export async function getContactsPresence(
+  repositories: Repositories,
+  realtime: Realtime,
+  userId: string
+): Promise<ParsedData<UserPresence[]>> {
+  const contactsResult = await repositories.users.getContactIds(userId);
+  if (contactsResult.error) {
+    return { error: contactsResult.error };
+  }
+
+  const presenceResult = await repositories.users.getPresence(contactsResult.data!);
+  if (presenceResult.error) {
+    return { error: presenceResult.error };
+  }
+
+  return {
+    data: presenceResult.data!.map(record =>
+      toUserPresence(record, realtime.sse.getPresence(record.user_id))
+    ),
+  };
+}
+
+/**
+ * sets the status a user chose and tells their contacts
+ * @param repositories - persistence to read and write through
+ * @param realtime - streams and live presence of this node
+ * @param userId - user setting their status
+ * @param statusData - status with optional message and expiry
+ * @returns the user's presence, or error message
+ */
+export async function updateStatus(
+  repositories: Repositories,
+  realtime: Realtime,
+  userId: string,
+  statusData: SetStatus
+): Promise<ParsedData<UserPresence>> {
+  const statusResult = await repositories.users.setStatus(
+    userId,
+    statusData.status,
+    statusData.message || null,
+    statusData.expires_at ?? null
+  );
+  if (statusResult.error) {
+    return { error: statusResult.error };
+  }
+
+  const notifyResult = await notifyContacts(repositories, realtime, statusResult.data!);
+  if (notifyResult.error) {
+    logger.error(`Status announcement error for user ${userId}: ${notifyResult.error}`);
+  }
+
+  return { data: toUserPresence(statusResult.data!, realtime.sse.getPresence(userId)) };
+}
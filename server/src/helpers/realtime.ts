@@ -0,0 +1,15 @@
+import { createRealtimeBus } from '../pubsub';
+import { Realtime, RealtimeBus } from '../types';
+import { SSEManager } from './sse';
+import { TypingManager } from './typing';
+
+/**
+ * creates the real-time state for one app; start its sse manager before
+ * serving so events from the bus reach the app's streams
+ * @param bus - bus shared with the other server nodes, REALTIME_BUS's by default
+ * @returns sse and typing managers to pass to createApp
+ */
+export function createRealtime(bus: RealtimeBus = createRealtimeBus()): Realtime {
+  const sse = new SSEManager(bus);
+  return { sse, typing: new TypingManager(sse) };
+}
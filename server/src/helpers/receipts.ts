@@ -0,0 +1,168 @@
+import { MarkReadSchema } from '@messaging/shared';
+import { resolveMessageAccess } from './messages';
+import { MessageReceipt, ParsedData, Realtime, Repositories } from '../types';
+import pino from 'pino';
+
+const logger = pino();
+
+/**
+ * parses and validates mark-read request body
+ * @param body - request body containing the last message that was read
+ * @returns parsed message id or error message
+ */
+export function parseMarkReadBody(body: any): ParsedData<string> {
+  const parsed = MarkReadSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid read receipt' };
+  }
+
+  return { data: parsed.data.message_id };
+}
+
+/**
+ * tells senders which of their messages changed status, one event per
+ * conversation and status
+ * @param realtime - streams the receipts are sent through
+ * @param receipts - messages whose status changed
+ */
+function notifySenders(realtime: Realtime, receipts: MessageReceipt[]) {
+  const grouped = new Map<string, MessageReceipt[]>();
+  for (const receipt of receipts) {
+    const key = `${receipt.sender_id}:${receipt.conversation_id}:${receipt.status}`;
+    grouped.set(key, [...(grouped.get(key) || []), receipt]);
+  }
+
+  for (const group of grouped.values()) {
+    const { sender_id, conversation_id, status } = group[0]!;
+    realtime.sse.notifyReceipt(
+      sender_id,
+      conversation_id,
+      group.map(receipt => receipt.id),
+      status
+    );
+  }
+}
+
+/**
+ * records that users received or read a conversation up to a message and
+ * sends receipts to the senders whose messages changed status
+ * @param repositories - persistence to record the receipts in
+ * @param realtime - streams the receipts are sent through
+ * @param conversationId - conversation being acknowledged
+ * @param messageId - newest message the users have
+ * @param userIds - users acknowledging the messages
+ * @param status - whether the messages were delivered or read
+ * @returns number of messages whose status changed
+ */
+export async function recordReceipts(
+  repositories: Repositories,
+  realtime: Realtime,
+  conversationId: string,
+  messageId: string,
+  userIds: string[],
+  status: 'delivered' | 'read'
+): Promise<ParsedData<number>> {
+  if (userIds.length === 0) {
+    return { data: 0 };
+  }
+
+  const receiptsResult = await repositories.messages.markReceipts(
+    conversationId,
+    messageId,
+    userIds,
+    status
+  );
+  if (receiptsResult.error) {
+    logger.error(`Message receipt error: ${receiptsResult.error}`);
+    return { error: 'Failed to update message status' };
+  }
+
+  notifySenders(realtime, receiptsResult.data!);
+
+  return { data: receiptsResult.data!.length };
+}
+
+/**
+ * marks a conversation read up to a message on behalf of one of its members
+ * @param repositories - persistence to record the receipts in
+ * @param realtime - streams the receipts are sent through
+ * @param conversationId - conversation being read
+ * @param messageId - newest message the user has seen
+ * @param userId - member reading the conversation
+ * @returns number of messages whose status changed, or error message with http status
+ */
+export async function markConversationRead(
+  repositories: Repositories,
+  realtime: Realtime,
+  conversationId: string,
+  messageId: string,
+  userId: string
+): Promise<ParsedData<number> & { status?: number }> {
+  const access = await resolveMessageAccess(repositories, messageId, userId);
+  if (access.error) {
+    return { error: access.error, status: access.status };
+  }
+
+  if (access.data!.message.conversation_id !== conversationId) {
+    return { error: 'Message not found', status: 404 };
+  }
+
+  const readResult = await recordReceipts(
+    repositories,
+    realtime,
+    conversationId,
+    messageId,
+    [userId],
+    'read'
+  );
+  if (readResult.error) {
+    return { error: 'Failed to mark conversation as read', status: 500 };
+  }
+
+  return { data: readResult.data! };
+}
+
+/**
+ * marks a message delivered to the recipients whose stream it was written to;
+ * registered with the sse manager so each node records its own deliveries
+ * @param repositories - persistence to record the receipts in
+ * @param realtime - streams the receipts are sent through
+ * @param userIds - recipients that received the message
+ * @param message - the delivered message
+ */
+export async function recordDeliveries(
+  repositories: Repositories,
+  realtime: Realtime,
+  userIds: string[],
+  message: any
+) {
+  await recordReceipts(
+    repositories,
+    realtime,
+    message.conversation_id,
+    message.id,
+    userIds,
+    'delivered'
+  );
+}
+
+/**
+ * marks messages that arrived while a user was offline as delivered once
+ * their event stream connects
+ * @param repositories - persistence to record the receipts in
+ * @param realtime - streams the receipts are sent through
+ * @param userId - user whose stream just opened
+ */
+export async function recordPendingDeliveries(
+  repositories: Repositories,
+  realtime: Realtime,
+  userId: string
+) {
+  const receiptsResult = await repositories.messages.markPendingDelivered(userId);
+  if (receiptsResult.error) {
+    logger.error(`Pending delivery error: ${receiptsResult.error}`);
+    return;
+  }
+
+  notifySenders(realtime, receiptsResult.data!);
+}
@@ -1,22 +1,25 @@
-import { getUserByToken } from '../db/operations';
-import { ParsedData, User } from '../types';
+import { ParsedData, Repositories, SessionUser } from '../types';
 
 /**
  * validates bearer token from authorization header
+ * @param repositories - persistence the session is looked up in
  * @param authHeader - authorization header string
- * @returns user data or error message
+ * @returns user data with the id of the session the token belongs to, or error message
  */
-export async function validateBearerToken(authHeader?: string): Promise<ParsedData<Omit<User, 'password_hash'>>> {
+export async function validateBearerToken(
+  repositories: Repositories,
+  authHeader?: string
+): Promise<ParsedData<SessionUser>> {
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return { error: 'Invalid authorization header' };
   }
 
   const token = authHeader.replace('Bearer ', '').trim();
-  const userResult = await getUserByToken(token);
+  const userResult = await repositories.sessions.getUserByToken(token);
 
   if (userResult.error || !userResult.data) {
     return { error: 'Invalid or expired token' };
   }
 
   return { data: userResult.data };
-}
\ No newline at end of file
+}
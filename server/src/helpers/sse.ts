@@ -1,169 +1,602 @@
 import { Response } from 'express';
 import pino from 'pino';
 import crypto from 'crypto';
-import { SSEConnection, SSESession } from '../types';
+import { config } from '../config/index.js';
+import {
+  isEventSupported,
+  REALTIME_PROTOCOL_VERSION,
+  RealtimeEvent,
+  RealtimeEventSchema,
+  UserPresence,
+} from '@messaging/shared';
+import {
+  MessageReaction,
+  MessageStatus,
+  ParsedData,
+  PresenceState,
+  RealtimeBus,
+  RealtimeBusMessage,
+  RealtimeBusPublication,
+  RealtimeTransport,
+  RemotePresenceState,
+  SSEConnection,
+  SSEDeliveryListener,
+  SSEEventLog,
+  SSELoggedEvent,
+  SSEPresenceListener,
+  SSESession,
+  SessionUser,
+} from '../types';
 
 const logger = pino();
 
 /**
- * manages server-sent events connections and messaging
+ * reads the id of the last event a reconnecting client saw, sent as the
+ * Last-Event-ID header browsers add or as a `since` query param
+ * @param raw - header or query value
+ * @returns last event id, or undefined for a fresh connection
+ */
+export function parseLastEventId(raw: unknown): number | undefined {
+  const lastEventId = Number(raw);
+  return typeof raw === 'string' && Number.isSafeInteger(lastEventId) && lastEventId > 0
+    ? lastEventId
+    : undefined;
+}
+
+/**
+ * reads the real-time protocol version a client speaks from its `v` param;
+ * clients that predate versioning don't send one and speak version 1
+ * @param raw - query value
+ * @returns protocol version, capped at the one this server speaks
+ */
+export function parseProtocolVersion(raw: unknown): number {
+  const version = Number(raw);
+  if (typeof raw !== 'string' || !Number.isSafeInteger(version) || version < 1) {
+    return 1;
+  }
+
+  return Math.min(version, REALTIME_PROTOCOL_VERSION);
+}
+
+/**
+ * wraps an sse response so events are written as `id`/`event`/`data` lines;
+ * the id lets the browser resume from it after a reconnect
+ * @param response - express response held open for the event stream
+ * @param protocolVersion - real-time protocol version the client speaks
+ * @returns transport for the sse manager
+ */
+export function createSSETransport(response: Response, protocolVersion: number): RealtimeTransport {
+  return {
+    send(event, id) {
+      // clients that predate an event type never get it
+      if (!isEventSupported(event.type, protocolVersion)) return;
+
+      if (id !== undefined) response.write(`id: ${id}\n`);
+      response.write(`event: ${event.type}\n`);
+      response.write(`data: ${JSON.stringify(event)}\n\n`);
+    },
+    close() {
+      response.end();
+    },
+  };
+}
+
+/**
+ * manages server-sent events connections and messaging. every event goes
+ * through the real-time bus so it reaches users connected to any server node
  */
 export class SSEManager {
-  private connections = new Map<string, SSEConnection>();
+  // every open stream per user: one per tab or device
+  private connections = new Map<string, Map<string, SSEConnection>>();
+  private eventLogs = new Map<string, SSEEventLog>();
+  // newest event id that can't be replayed to a user without a log: issued
+  // before this node subscribed to the bus, or dropped with a pruned log
+  private unloggedThrough = 0;
+  // identifies this server node on the bus
+  private readonly nodeId = crypto.randomUUID();
+  private bus: RealtimeBus;
+  // users connected to other nodes and whether they're active there, from
+  // those nodes' presence announcements
+  private remotePresence = new Map<string, { users: Map<string, RemotePresenceState>; seenAt: number }>();
+  // when this node's users last sent an activity ping, and who has gone idle
+  private lastActiveAt = new Map<string, number>();
+  private awayUsers = new Set<string>();
+  private deliveryListeners: SSEDeliveryListener[] = [];
+  private presenceListeners: SSEPresenceListener[] = [];
+  private presenceTimer: NodeJS.Timeout | null = null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(bus: RealtimeBus) {
+    this.bus = bus;
+  }
 
   /**
-   * adds new sse connection for user
-   * @param userId - unique user identifier
-   * @param response - express response object for sse
-   * @returns boolean indicating if connection was added successfully
+   * subscribes to the bus and starts sharing presence with other nodes
+   * @returns true once subscribed, or error message
    */
-  addConnection(userId: string, response: Response): boolean {
-    logger.info(`addConnection called for user ${userId}`);
-    
-    if (this.connections.has(userId)) {
-      const existing = this.connections.get(userId);
-      const timeSinceLastSeen = Date.now() - existing!.lastSeen.getTime();
-      logger.info(`Existing connection found for user ${userId}, age: ${timeSinceLastSeen}ms`);
-      
-      // If there's an existing connection that's very recent (< 5 seconds), 
-      // silently close the new connection request instead of disrupting the existing one
-      if (existing && timeSinceLastSeen < 5000) {
-        logger.info(`Silently closing duplicate connection for user ${userId} (keeping existing, age: ${timeSinceLastSeen}ms)`);
-        try {
-          response.end();
-        } catch (_error) {
-          logger.error(`Error closing duplicate connection for user ${userId}:`, _error);
-        }
-        return false;
+  async start(): Promise<ParsedData<true>> {
+    const subscribed = await this.bus.subscribe(message => this.handleBusMessage(message));
+    if (subscribed.error) {
+      return { error: subscribed.error };
+    }
+    this.unloggedThrough = subscribed.data!;
+
+    // ask nodes that are already running who is connected to them
+    this.publish({ type: 'presence-sync', origin: this.nodeId });
+    this.presenceTimer = setInterval(() => {
+      this.markIdleUsers();
+      this.announcePresence();
+    }, config.realtime.presenceAnnounceSeconds * 1000);
+    // clean up dead connections every 2 minutes
+    this.cleanupTimer = setInterval(
+      () => {
+        this.cleanupConnections();
+        this.pruneEventLogs();
+      },
+      2 * 60 * 1000
+    );
+    this.cleanupTimer.unref();
+
+    return { data: true };
+  }
+
+  /**
+   * stops sharing presence and disconnects from the bus
+   */
+  async stop() {
+    if (this.presenceTimer) clearInterval(this.presenceTimer);
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+    await this.bus.close();
+  }
+
+  /**
+   * registers a callback for new messages written to this node's streams, so
+   * they can be marked delivered
+   * @param listener - called with the recipients that got the message
+   */
+  onNewMessageDelivered(listener: SSEDeliveryListener) {
+    this.deliveryListeners.push(listener);
+  }
+
+  /**
+   * registers a callback for users whose overall presence changed because of
+   * something that happened on this node, so their contacts can be told
+   * @param listener - called with the user and their new presence state
+   */
+  onPresenceChanged(listener: SSEPresenceListener) {
+    this.presenceListeners.push(listener);
+  }
+
+  /**
+   * publishes to the bus without waiting, logging failures
+   * @param message - bus message
+   */
+  private publish(message: RealtimeBusPublication) {
+    this.bus.publish(message).then(result => {
+      if (result.error) {
+        logger.error(`Realtime bus publish error: ${result.error}`);
       }
-      
-      logger.info(`Removing existing stale connection for user ${userId} (age: ${timeSinceLastSeen}ms)`);
-      if (existing && existing.response !== response) {
-        try {
-          existing.response.end();
-        } catch (_error) {
-          logger.error(`Error closing existing connection for user ${userId}:`, _error);
+    });
+  }
+
+  /**
+   * applies a message from the bus, including the ones this node published
+   * @param message - bus message
+   */
+  private handleBusMessage(message: RealtimeBusMessage) {
+    switch (message.type) {
+      case 'event':
+        this.deliverEvent(message.eventId, message.userIds, message.event);
+        break;
+      // the node a change happened on tells contacts about it, so other
+      // nodes only record it
+      case 'presence': {
+        if (message.origin === this.nodeId) break;
+        const node = this.remoteNode(message.origin);
+        if (message.state === 'offline') {
+          node.users.delete(message.userId);
+        } else {
+          node.users.set(message.userId, message.state);
         }
+        break;
+      }
+      case 'presence-snapshot':
+        if (message.origin === this.nodeId) break;
+        this.remoteNode(message.origin).users = new Map(Object.entries(message.users));
+        break;
+      case 'presence-sync':
+        if (message.origin !== this.nodeId) this.announcePresence();
+        break;
+      case 'activity':
+        this.markActive(message.userId);
+        break;
+      case 'session-revoked':
+        this.closeSessionConnections(message.sessionId);
+        break;
+    }
+  }
+
+  /**
+   * looks up the presence another node has announced, marking it as recently heard from
+   * @param nodeId - announcing node
+   * @returns that node's presence entry
+   */
+  private remoteNode(nodeId: string) {
+    const node = this.remotePresence.get(nodeId) || {
+      users: new Map<string, RemotePresenceState>(),
+      seenAt: 0,
+    };
+    node.seenAt = Date.now();
+    this.remotePresence.set(nodeId, node);
+    return node;
+  }
+
+  /**
+   * applies a presence change and calls the presence listeners for every user
+   * whose overall state changed as a result
+   * @param userIds - users the change may affect
+   * @param apply - mutation of the presence maps
+   */
+  private changePresence(userIds: string[], apply: () => void) {
+    const before = new Map(userIds.map(userId => [userId, this.getPresence(userId)]));
+    apply();
+
+    for (const [userId, previous] of before) {
+      const state = this.getPresence(userId);
+      if (state === previous) continue;
+
+      for (const listener of this.presenceListeners) {
+        listener(userId, state);
       }
-    } else {
-      logger.info(`No existing connection for user ${userId}, creating new one`);
     }
+  }
+
+  /**
+   * changes a user's presence on this node and shares their new state here
+   * with the other nodes
+   * @param userId - user whose connections or activity changed
+   * @param apply - mutation of this node's presence maps
+   */
+  private changeLocalPresence(userId: string, apply: () => void) {
+    const previous = this.localPresence(userId);
+    this.changePresence([userId], apply);
+
+    const state = this.localPresence(userId);
+    if (state !== previous) {
+      this.publish({ type: 'presence', origin: this.nodeId, userId, state });
+    }
+  }
+
+  /**
+   * shares who is connected to this node and forgets nodes that went quiet
+   */
+  announcePresence() {
+    const users: Record<string, RemotePresenceState> = {};
+    for (const userId of this.connections.keys()) {
+      users[userId] = this.awayUsers.has(userId) ? 'away' : 'online';
+    }
+    this.publish({ type: 'presence-snapshot', origin: this.nodeId, users });
+
+    const cutoff = Date.now() - config.realtime.presenceExpirySeconds * 1000;
+    for (const [nodeId, node] of this.remotePresence.entries()) {
+      if (node.seenAt >= cutoff) continue;
+
+      logger.info(`No presence from node ${nodeId}, dropping its users`);
+      this.changePresence([...node.users.keys()], () => this.remotePresence.delete(nodeId));
+    }
+  }
+
+  /**
+   * records that a user is interacting with the app, on whichever node they're connected to
+   * @param userId - user whose client sent an activity ping
+   */
+  recordActivity(userId: string) {
+    this.publish({ type: 'activity', origin: this.nodeId, userId });
+  }
+
+  /**
+   * brings a user connected to this node back from away
+   * @param userId - user who was active
+   */
+  private markActive(userId: string) {
+    if (!this.connections.has(userId)) return;
+
+    this.lastActiveAt.set(userId, Date.now());
+    if (this.awayUsers.has(userId)) {
+      this.changeLocalPresence(userId, () => this.awayUsers.delete(userId));
+    }
+  }
+
+  /**
+   * marks users away when their clients have stopped sending activity pings
+   */
+  markIdleUsers() {
+    const cutoff = Date.now() - config.presence.idleSeconds * 1000;
+
+    for (const userId of this.connections.keys()) {
+      if (this.awayUsers.has(userId) || (this.lastActiveAt.get(userId) ?? 0) >= cutoff) continue;
+
+      logger.info(`User ${userId} is idle, marking away`);
+      this.changeLocalPresence(userId, () => this.awayUsers.add(userId));
+    }
+  }
 
-    this.connections.set(userId, {
-      userId,
-      response,
-      lastSeen: new Date(),
+  /**
+   * adds new sse connection for user alongside any they already have open
+   * @param userId - unique user identifier
+   * @param transport - sse or websocket stream to write events to
+   * @param sessionId - auth session the stream was opened with
+   * @returns id of the new connection, used to remove it later
+   */
+  addConnection(userId: string, transport: RealtimeTransport, sessionId?: string): string {
+    const connectionId = crypto.randomUUID();
+    const userConnections = this.connections.get(userId) || new Map<string, SSEConnection>();
+
+    // opening the app counts as activity, so a new connection also ends away
+    this.changeLocalPresence(userId, () => {
+      userConnections.set(connectionId, {
+        id: connectionId,
+        userId,
+        sessionId,
+        transport,
+        lastSeen: new Date(),
+      });
+      this.connections.set(userId, userConnections);
+      this.lastActiveAt.set(userId, Date.now());
+      this.awayUsers.delete(userId);
     });
 
-    logger.info(`SSE connection added for user ${userId}`);
+    logger.info(`SSE connection ${connectionId} added for user ${userId} (${userConnections.size} open)`);
 
-    // inform connected users of the online status
-    this.broadcastUserStatus(userId, true);
-    
-    return true;
+    return connectionId;
   }
 
   /**
-   * removes sse connection for user
+   * removes one of a user's sse connections
    * @param userId - unique user identifier
+   * @param connectionId - connection to remove
    */
-  removeConnection(userId: string) {
-    const connection = this.connections.get(userId);
-    if (connection) {
-      try {
-        connection.response.end();
-      } catch (_error) {
-        console.warn("connection closed")
-      }
-      this.connections.delete(userId);
-      logger.info(`SSE connection removed for user ${userId}`);
-      this.broadcastUserStatus(userId, false);
+  removeConnection(userId: string, connectionId: string) {
+    const userConnections = this.connections.get(userId);
+    const connection = userConnections?.get(connectionId);
+    if (!userConnections || !connection) return;
+
+    try {
+      connection.transport.close();
+    } catch (_error) {
+      logger.info(`SSE connection ${connectionId} for user ${userId} was already closed`);
+    }
+    userConnections.delete(connectionId);
+    logger.info(`SSE connection ${connectionId} removed for user ${userId}`);
+
+    // the user goes offline when their last connection on every node closes
+    if (userConnections.size === 0) {
+      this.changeLocalPresence(userId, () => {
+        this.connections.delete(userId);
+        this.lastActiveAt.delete(userId);
+        this.awayUsers.delete(userId);
+      });
     }
   }
 
   /**
-   * broadcasts user online/offline status to all connected users
-   * @param userId - user whose status changed
-   * @param isOnline - whether user is online or offline
+   * closes any stream opened with a revoked auth session, on every node
+   * @param sessionId - auth session that was revoked
    */
-  broadcastUserStatus(userId: string, isOnline: boolean) {
-    for (const [connectedUserId, connection] of this.connections.entries()) {
-      if (connectedUserId !== userId) {
+  disconnectSession(sessionId: string) {
+    this.publish({ type: 'session-revoked', origin: this.nodeId, sessionId });
+  }
+
+  /**
+   * closes this node's streams that were opened with a revoked auth session
+   * @param sessionId - auth session that was revoked
+   */
+  private closeSessionConnections(sessionId: string) {
+    for (const [userId, userConnections] of this.connections.entries()) {
+      for (const connection of userConnections.values()) {
+        if (connection.sessionId !== sessionId) continue;
+
         try {
-          connection.response.write(`event: user-status\n`);
-          connection.response.write(
-            `data: ${JSON.stringify({
-              type: 'user-status',
-              userId,
-              isOnline,
-              timestamp: new Date().toISOString(),
-            })}\n\n`
-          );
+          connection.transport.send({
+            type: 'session-revoked',
+            timestamp: new Date().toISOString(),
+          });
         } catch (_error) {
-          console.warn("connection closed")
+          logger.info(`SSE connection ${connection.id} closed before its session was revoked`);
         }
+        this.removeConnection(userId, connection.id);
+        logger.info(`SSE connection closed for revoked session ${sessionId}`);
       }
     }
   }
 
   /**
-   * sends sse event to specific user
+   * records an event in the user's replay log, whether or not they're connected;
+   * the log is kept in id order, since events published on different nodes at
+   * once can arrive slightly out of it
    * @param userId - target user identifier
-   * @param event - event type name
-   * @param data - event payload data
-   * @returns boolean indicating success
-   */
-  sendToUser(userId: string, event: string, data: any) {
-    const connection = this.connections.get(userId);
-    if (connection) {
-      try {
-        connection.response.write(`event: ${event}\n`);
-        connection.response.write(`data: ${JSON.stringify(data)}\n\n`);
-        connection.lastSeen = new Date();
-        return true;
-      } catch (_error) {
-        logger.error(`Failed to send SSE to user ${userId}:`, _error);
-        this.removeConnection(userId);
+   * @param entry - event with the id the bus assigned
+   */
+  private logEvent(userId: string, entry: SSELoggedEvent) {
+    const log = this.eventLogs.get(userId) || { events: [], evictedThrough: this.unloggedThrough };
+
+    let index = log.events.length;
+    while (index > 0 && log.events[index - 1]!.id > entry.id) index--;
+    log.events.splice(index, 0, entry);
+    if (log.events.length > config.sse.replayLogSize) {
+      log.evictedThrough = Math.max(log.evictedThrough, log.events.shift()!.id);
+    }
+    this.eventLogs.set(userId, log);
+  }
+
+  /**
+   * replays the events a reconnecting client missed, or asks it to refetch
+   * everything when some of those events are no longer in the log
+   * @param userId - reconnecting user
+   * @param connectionId - the client's new connection
+   * @param lastEventId - id of the last event the client received
+   * @returns true if the missed events were replayed, false if a resync was requested
+   */
+  replayEvents(userId: string, connectionId: string, lastEventId: number): boolean {
+    const connection = this.connections.get(userId)?.get(connectionId);
+    if (!connection) return false;
+
+    const log = this.eventLogs.get(userId);
+    const evictedThrough = log ? log.evictedThrough : this.unloggedThrough;
+
+    try {
+      if (lastEventId < evictedThrough) {
+        logger.info(`Event log gap for user ${userId}, requesting resync`);
+        connection.transport.send({
+          type: 'resync-required',
+          timestamp: new Date().toISOString(),
+        });
         return false;
       }
+
+      const missed = (log?.events || []).filter(entry => entry.id > lastEventId);
+      for (const entry of missed) {
+        connection.transport.send(entry.event, entry.id);
+      }
+      logger.info(`Replayed ${missed.length} events for user ${userId}`);
+      return true;
+    } catch (_error) {
+      logger.error(`Failed to replay events for user ${userId}: ${_error}`);
+      this.removeConnection(userId, connectionId);
+      return false;
+    }
+  }
+
+  /**
+   * validates an event against the shared protocol and publishes it for some
+   * users; the bus numbers it, and every node logs it for replay and writes it
+   * to the streams it holds for them
+   * @param userIds - target users
+   * @param event - event payload
+   */
+  private publishEvent(userIds: string[], event: RealtimeEvent) {
+    if (userIds.length === 0) return;
+
+    const parsed = RealtimeEventSchema.safeParse(event);
+    if (!parsed.success) {
+      logger.error(`Dropping invalid ${event.type} event: ${parsed.error.errors[0]?.message}`);
+      return;
+    }
+
+    this.publish({
+      type: 'event',
+      origin: this.nodeId,
+      userIds,
+      event: parsed.data,
+    });
+  }
+
+  /**
+   * logs an event from the bus and writes it to this node's streams
+   * @param eventId - id assigned by the bus
+   * @param userIds - target users
+   * @param event - event payload
+   */
+  private deliverEvent(eventId: number, userIds: string[], event: RealtimeEvent) {
+    const entry = { id: eventId, event, createdAt: Date.now() };
+    const delivered: string[] = [];
+
+    for (const userId of userIds) {
+      this.logEvent(userId, entry);
+
+      for (const connection of [...(this.connections.get(userId)?.values() || [])]) {
+        try {
+          connection.transport.send(entry.event, entry.id);
+          connection.lastSeen = new Date();
+          if (!delivered.includes(userId)) delivered.push(userId);
+        } catch (_error) {
+          logger.error(`Failed to send SSE to user ${userId}: ${_error}`);
+          this.removeConnection(userId, connection.id);
+        }
+      }
     }
-    return false;
+
+    if (event.type === 'new-message' && delivered.length > 0) {
+      for (const listener of this.deliveryListeners) {
+        listener(delivered, event.message);
+      }
+    }
+  }
+
+  /**
+   * sends sse event to every connection of a specific user, on whichever node
+   * they're connected to
+   * @param userId - target user identifier
+   * @param event - event payload
+   */
+  sendToUser(userId: string, event: RealtimeEvent) {
+    this.publishEvent([userId], event);
   }
 
   /**
-   * checks if user is currently online
+   * gets a user's presence on this node alone
+   * @param userId - user identifier to check
+   * @returns presence state here
+   */
+  private localPresence(userId: string): PresenceState {
+    if (!this.connections.has(userId)) return 'offline';
+    return this.awayUsers.has(userId) ? 'away' : 'online';
+  }
+
+  /**
+   * gets a user's presence across every node: online if they're active
+   * anywhere, away if they're connected but idle everywhere
+   * @param userId - user identifier to check
+   * @returns presence state
+   */
+  getPresence(userId: string): PresenceState {
+    const states = [this.localPresence(userId)];
+    for (const node of this.remotePresence.values()) {
+      states.push(node.users.get(userId) ?? 'offline');
+    }
+
+    if (states.includes('online')) return 'online';
+    return states.includes('away') ? 'away' : 'offline';
+  }
+
+  /**
+   * checks if user is connected to any node, active or not
    * @param userId - user identifier to check
    * @returns boolean indicating online status
    */
   isUserOnline(userId: string): boolean {
-    return this.connections.has(userId);
+    return this.getPresence(userId) !== 'offline';
   }
 
   /**
-   * gets list of all currently online users
+   * gets list of all users currently connected to any node
    * @returns array of user identifiers
    */
   getOnlineUsers(): string[] {
-    return Array.from(this.connections.keys());
+    const online = new Set(this.connections.keys());
+    for (const node of this.remotePresence.values()) {
+      for (const userId of node.users.keys()) online.add(userId);
+    }
+    return Array.from(online);
   }
 
   /**
-   * notifies users about new message via sse
+   * notifies conversation members about new message via sse
    * @param senderId - user who sent the message
-   * @param recipientId - user who should receive notification
+   * @param recipientIds - members who should receive notification
    * @param messageData - message content and metadata
    */
-  notifyNewMessage(senderId: string, recipientId: string, messageData: any) {
-    // new messsage notification
-    this.sendToUser(recipientId, 'new-message', {
+  notifyNewMessage(senderId: string, recipientIds: string[], messageData: any) {
+    // new message notification, fanned out to every online member
+    this.publishEvent(recipientIds.filter(recipientId => recipientId !== senderId), {
       type: 'new-message',
       senderId,
       message: messageData,
       timestamp: new Date().toISOString(),
     });
 
-    // doesn't really work that well, might remove
-    this.sendToUser(senderId, 'message-sent', {
+    // echoes the message to every stream of the sender, including their other devices
+    this.sendToUser(senderId, {
       type: 'message-sent',
       message: messageData,
       timestamp: new Date().toISOString(),
@@ -171,20 +604,133 @@ export class SSEManager {
   }
 
   /**
-   * notifies recipient about typing status
-   * @param senderId - user who is typing
-   * @param recipientId - user who should see typing indicator
-   * @param isTyping - whether sender is currently typing
+   * notifies a sender that their messages were delivered or read
+   * @param senderId - user who sent the messages
+   * @param conversationId - conversation the messages belong to
+   * @param messageIds - messages whose status changed
+   * @param status - the messages' new status
    */
-  notifyTyping(senderId: string, recipientId: string, isTyping: boolean) {
-    this.sendToUser(recipientId, 'typing', {
-      type: 'typing',
-      senderId,
-      isTyping,
+  notifyReceipt(senderId: string, conversationId: string, messageIds: string[], status: MessageStatus) {
+    this.sendToUser(senderId, {
+      type: 'receipt',
+      conversationId,
+      messageIds,
+      status,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * notifies members that a conversation's membership or details changed
+   * @param userIds - users who should refresh the conversation
+   * @param conversationId - conversation that changed
+   * @param change - what happened to the conversation
+   */
+  notifyConversationUpdated(
+    userIds: string[],
+    conversationId: string,
+    change: 'created' | 'members-added' | 'member-removed' | 'member-left'
+  ) {
+    this.publishEvent(userIds, {
+      type: 'conversation-updated',
+      conversationId,
+      change,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * notifies conversation members that a message's content was edited
+   * @param userIds - members who should update the message
+   * @param messageData - edited message with its new content
+   */
+  notifyMessageEdited(userIds: string[], messageData: any) {
+    this.publishEvent(userIds, {
+      type: 'message-edited',
+      message: messageData,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * notifies conversation members that a message was deleted
+   * @param userIds - members who should replace the message with a tombstone
+   * @param messageId - deleted message
+   * @param conversationId - conversation the message belonged to
+   */
+  notifyMessageDeleted(userIds: string[], messageId: string, conversationId: string) {
+    this.publishEvent(userIds, {
+      type: 'message-deleted',
+      messageId,
+      conversationId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * notifies conversation members that a message's reactions changed
+   * @param userIds - members who should update the message
+   * @param messageId - message that was reacted to
+   * @param conversationId - conversation the message belongs to
+   * @param reactions - the message's full set of aggregated reactions
+   */
+  notifyReactionUpdated(
+    userIds: string[],
+    messageId: string,
+    conversationId: string,
+    reactions: MessageReaction[]
+  ) {
+    this.publishEvent(userIds, {
+      type: 'reaction-updated',
+      messageId,
+      conversationId,
+      reactions,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * notifies a user's contacts that their presence or chosen status changed
+   * @param userIds - contacts who should update the user's presence
+   * @param presence - the user's current presence
+   */
+  notifyUserStatus(userIds: string[], presence: UserPresence) {
+    this.publishEvent(userIds, {
+      type: 'user-status',
+      userId: presence.user_id,
+      isOnline: presence.state !== 'offline',
+      state: presence.state,
+      status: presence.status,
+      statusMessage: presence.status_message,
+      statusExpiresAt: presence.status_expires_at,
+      lastSeenAt: presence.last_seen_at,
       timestamp: new Date().toISOString(),
     });
   }
 
+  /**
+   * notifies a conversation's other participants about typing status; group
+   * conversations get their own event, which version 1 clients never receive
+   * @param senderId - user who is typing
+   * @param conversationId - conversation being typed in
+   * @param recipientIds - users who should see typing indicator
+   * @param isGroup - whether the conversation is a group conversation
+   * @param isTyping - whether sender is currently typing
+   */
+  notifyTyping(
+    senderId: string,
+    conversationId: string,
+    recipientIds: string[],
+    isGroup: boolean,
+    isTyping: boolean
+  ) {
+    const typing = { senderId, conversationId, isTyping, timestamp: new Date().toISOString() };
+    this.publishEvent(
+      recipientIds,
+      isGroup ? { type: 'group-typing', ...typing } : { type: 'typing', ...typing }
+    );
+  }
+
   /**
    * removes stale connections that haven't been active
    */
@@ -192,9 +738,31 @@ export class SSEManager {
     const now = new Date();
     const timeout = 5 * 60 * 1000; 
 
-    for (const [userId, connection] of this.connections.entries()) {
-      if (now.getTime() - connection.lastSeen.getTime() > timeout) {
-        this.removeConnection(userId);
+    for (const [userId, userConnections] of this.connections.entries()) {
+      for (const connection of [...userConnections.values()]) {
+        if (now.getTime() - connection.lastSeen.getTime() > timeout) {
+          this.removeConnection(userId, connection.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * drops logged events older than the replay window, and the logs of users
+   * not connected here once they're empty; clients that come back later still
+   * learn they need a resync, from the node-wide unloggedThrough
+   */
+  pruneEventLogs() {
+    const cutoff = Date.now() - config.sse.replayWindowSeconds * 1000;
+
+    for (const [userId, log] of this.eventLogs.entries()) {
+      while (log.events.length > 0 && log.events[0]!.createdAt < cutoff) {
+        log.evictedThrough = Math.max(log.evictedThrough, log.events.shift()!.id);
+      }
+
+      if (log.events.length === 0 && !this.connections.has(userId)) {
+        this.unloggedThrough = Math.max(this.unloggedThrough, log.evictedThrough);
+        this.eventLogs.delete(userId);
       }
     }
   }
@@ -208,15 +776,17 @@ export class SSETokenManager {
 
   /**
    * creates new session token for user
-   * @param userId - user identifier
+   * @param user - authenticated user, with the auth session the token is issued for
    * @returns session token string
    */
-  createSession(userId: string): string {
+  createSession(user: SessionUser): string {
     const sessionToken = crypto.randomBytes(32).toString('hex');
     const expires = Date.now() + 5 * 60 * 1000; 
     
     this.tokens.set(sessionToken, {
-      userId,
+      userId: user.id,
+      username: user.username,
+      authSessionId: user.session_id,
       expires
     });
 
@@ -237,6 +807,18 @@ export class SSETokenManager {
     return session;
   }
 
+  /**
+   * drops pending session tokens issued for a revoked auth session
+   * @param authSessionId - auth session that was revoked
+   */
+  revokeAuthSession(authSessionId: string) {
+    for (const [token, session] of this.tokens.entries()) {
+      if (session.authSessionId === authSessionId) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+
   /**
    * cleans up expired session tokens
    */
@@ -250,14 +832,7 @@ export class SSETokenManager {
   }
 }
 
-export const sseManager = new SSEManager();
 export const sseTokenManager = new SSETokenManager();
 
-// clean up dead connections every 2 minutes
-setInterval(
-  () => {
-    sseManager.cleanupConnections();
-    sseTokenManager.cleanupExpired();
-  },
-  2 * 60 * 1000
-);
\ No newline at end of file
+// clean up expired session tokens every 2 minutes
+setInterval(() => sseTokenManager.cleanupExpired(), 2 * 60 * 1000).unref();
\ No newline at end of file
@@ -0,0 +1,183 @@
+import { TypingUpdate, TypingUpdateSchema } from '@messaging/shared';
+import { config } from '../config/index.js';
+import { SSEManager } from './sse';
+import { ParsedData, Repositories } from '../types';
+import pino from 'pino';
+
+const logger = pino();
+
+interface TypingState {
+  recipientIds: string[];
+  isGroup: boolean;
+  expiryTimer: NodeJS.Timeout;
+}
+
+/**
+ * parses and validates a typing update body
+ * @param body - request body with conversation id and typing status
+ * @returns parsed typing update or error message
+ */
+export function parseTypingBody(body: any): ParsedData<TypingUpdate> {
+  const parsed = TypingUpdateSchema.safeParse(body);
+  if (!parsed.success) {
+    return { error: parsed.error.errors[0]?.message || 'Invalid typing update' };
+  }
+
+  return { data: parsed.data };
+}
+
+/**
+ * finds the conversation a typing update is for: the one it names or, from a
+ * protocol version 1 client, the direct conversation with the user it names
+ * @param repositories - persistence the direct conversation is looked up in
+ * @param userId - user who is typing
+ * @param update - typing update from the client
+ * @returns conversation id, or error message with status
+ */
+async function resolveTypingConversation(
+  repositories: Repositories,
+  userId: string,
+  update: TypingUpdate
+): Promise<ParsedData<string> & { status?: number }> {
+  if (update.conversationId) {
+    return { data: update.conversationId };
+  }
+  if (!update.recipientId) {
+    return { error: 'conversationId is required', status: 400 };
+  }
+
+  const conversationResult = await repositories.conversations.getDirect(userId, update.recipientId);
+  if (conversationResult.error) {
+    logger.error(`Typing conversation error: ${conversationResult.error}`);
+    return { error: 'Failed to update typing status', status: 500 };
+  }
+  if (!conversationResult.data) {
+    return { error: 'Conversation not found', status: 404 };
+  }
+
+  return { data: conversationResult.data.id };
+}
+
+/**
+ * tracks who is typing in which conversation on this node, so an indicator
+ * clears by itself when a client stops refreshing it (a crashed tab, a lost
+ * connection) and a client flipping its state rapidly can't flood the others
+ */
+export class TypingManager {
+  private sse: SSEManager;
+  private typing = new Map<string, TypingState>();
+  // when each user last started typing in each conversation, for throttling
+  private startedAt = new Map<string, number>();
+  // starts waiting on the participant lookup; a stop meanwhile cancels them
+  private pending = new Set<string>();
+
+  constructor(sse: SSEManager) {
+    this.sse = sse;
+  }
+
+  private key(userId: string, conversationId: string) {
+    return `${conversationId}:${userId}`;
+  }
+
+  /**
+   * records a typing update from a client and tells the conversation's other
+   * participants when the user starts or stops; refreshes while already typing
+   * only push the expiry back
+   * @param repositories - persistence the participants are looked up in
+   * @param userId - user who is typing
+   * @param update - conversation being typed in and whether the user is typing
+   * @returns whether other participants were notified, or error message with status
+   */
+  async update(
+    repositories: Repositories,
+    userId: string,
+    update: TypingUpdate
+  ): Promise<ParsedData<boolean> & { status?: number }> {
+    const conversationResult = await resolveTypingConversation(repositories, userId, update);
+    if (conversationResult.error) {
+      return { error: conversationResult.error, status: conversationResult.status };
+    }
+
+    const conversationId = conversationResult.data!;
+    if (!update.isTyping) {
+      return { data: this.stop(userId, conversationId) };
+    }
+
+    const key = this.key(userId, conversationId);
+    const state = this.typing.get(key);
+    if (state) {
+      clearTimeout(state.expiryTimer);
+      state.expiryTimer = this.scheduleExpiry(userId, conversationId);
+      return { data: false };
+    }
+
+    const now = Date.now();
+    if (this.pending.has(key) || now - (this.startedAt.get(key) ?? 0) < config.typing.throttleSeconds * 1000) {
+      return { data: false };
+    }
+    this.startedAt.set(key, now);
+    this.pending.add(key);
+    setTimeout(() => {
+      if (this.startedAt.get(key) === now) this.startedAt.delete(key);
+    }, config.typing.throttleSeconds * 1000).unref();
+
+    const [participantsResult, detailsResult] = await Promise.all([
+      repositories.conversations.getParticipants(conversationId),
+      repositories.conversations.getById(conversationId),
+    ]);
+    if (!this.pending.delete(key)) {
+      return { data: false };
+    }
+
+    if (participantsResult.error || detailsResult.error) {
+      logger.error(`Typing participants error: ${participantsResult.error || detailsResult.error}`);
+      return { error: 'Failed to update typing status', status: 500 };
+    }
+
+    const participantIds = participantsResult.data!.map(participant => participant.user_id);
+    if (!participantIds.includes(userId)) {
+      return { error: 'Conversation not found', status: 404 };
+    }
+
+    const recipientIds = participantIds.filter(participantId => participantId !== userId);
+    const isGroup = detailsResult.data?.type === 'group';
+    this.typing.set(key, {
+      recipientIds,
+      isGroup,
+      expiryTimer: this.scheduleExpiry(userId, conversationId),
+    });
+    this.sse.notifyTyping(userId, conversationId, recipientIds, isGroup, true);
+
+    return { data: true };
+  }
+
+  /**
+   * clears a user's typing state in a conversation, e.g. once they send
+   * @param userId - user who stopped typing
+   * @param conversationId - conversation they were typing in
+   * @returns whether other participants were notified
+   */
+  stop(userId: string, conversationId: string): boolean {
+    const key = this.key(userId, conversationId);
+    this.pending.delete(key);
+
+    const state = this.typing.get(key);
+    if (!state) return false;
+
+    clearTimeout(state.expiryTimer);
+    this.typing.delete(key);
+    this.sse.notifyTyping(userId, conversationId, state.recipientIds, state.isGroup, false);
+
+    return true;
+  }
+
+  private scheduleExpiry(userId: string, conversationId: string) {
+    const timer = setTimeout(() => {
+      logger.info(`Typing by ${userId} in ${conversationId} expired`);
+      this.stop(userId, conversationId);
+    }, config.typing.expirySeconds * 1000);
+    timer.unref();
+
+    return timer;
+  }
+}
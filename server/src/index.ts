@@ -1,23 +1,29 @@
 import express from 'express';
-import cors from 'cors';
-import helmet from 'helmet';
 import pino from 'pino';
-import { authRouter } from './routes/api/auth';
-import { messagesRouter } from './routes/api/messages';
-import { sseRouter } from './routes/api/sse';
-import { createSuccess, createError } from '@messaging/shared';
+import { createApp } from './app';
+import { attachWebSocketServer } from './routes/api/ws';
+import { createRealtime } from './helpers/realtime';
+import { closeDatabasePool } from './db/index';
+import { migrateDatabase } from './db/migrate';
+import { createPostgresRepositories } from './db/repositories/postgres';
+import { createAttachmentStorage } from './storage';
+import { Realtime, Repositories } from './types';
 
 type ServerConfig = {
   env: string;
   http: { port: number };
-  database: { url?: string };
+  database: { url?: string; migrateOnStart: boolean };
 };
 
 function createServerConfig(): ServerConfig {
   return {
     env: process.env['NODE_ENV'] || 'development',
     http: { port: Number(process.env['HTTP_PORT']) || 8080 },
-    database: { url: process.env['DATABASE_URL'] },
+    database: {
+      url: process.env['DATABASE_URL'],
+      // set MIGRATE_ON_START=false where deploys run migrations as their own step
+      migrateOnStart: process.env['MIGRATE_ON_START'] !== 'false',
+    },
   };
 }
 
@@ -28,64 +34,10 @@ function createLogger(config: ServerConfig) {
   });
 }
 
-function createHttpApp( logger: pino.Logger): express.Application {
-  const app = express();
-
-  app.use(helmet());
-  app.use(
-    cors({
-      origin: ['http://localhost:3000', 'http://localhost:8080'],
-      credentials: true,
-    })
-  );
-
-  app.use(express.json({ limit: '10mb' }));
-  app.use(express.urlencoded({ extended: true, limit: '10mb' }));
-
-  app.get('/health', (_req, res) => {
-    res.json(
-      createSuccess({
-        status: 'Server healthy',
-        timestamp: new Date().toISOString(),
-        services: {
-          http: 'running',
-        },
-      })
-    );
-  });
-
-  app.use('/api/auth', authRouter);
-  app.use('/api/messages', messagesRouter);
-  app.use('/api/sse', sseRouter);
-
-  app.get('/', (_req, res) => {
-    res.json(
-      createSuccess({
-        message: 'Messaging Platform API',
-        version: '1.0.0',
-        endpoints: {
-          health: '/health',
-          auth: '/api/auth',
-          messages: '/api/messages',
-        },
-      })
-    );
-  });
-
-  app.use('*', (req, res) => {
-    res.status(404).json(createError(`Endpoint not found: ${req.method} ${req.originalUrl}`));
-  });
-
-  app.use((err: any, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-    logger.error('Unhandled HTTP error:', err);
-    res.status(500).json(createError('Internal server error'));
-  });
-
-  return app;
-}
-
 async function startHttpServer(
   app: express.Application,
+  repositories: Repositories,
+  realtime: Realtime,
   config: ServerConfig,
   logger: pino.Logger
 ): Promise<{ error?: string }> {
@@ -103,6 +55,8 @@ async function startHttpServer(
       resolve({});
     });
 
+    attachWebSocketServer(server, repositories, realtime);
+
     server.on('error', error => {
       const message = error instanceof Error ? error.message : 'HTTP server failed';
       logger.error('HTTP server error:', message);
@@ -116,9 +70,22 @@ async function startServers(): Promise<{ error?: string }> {
   const logger = createLogger(config);
 
   try {
-    const app = createHttpApp(logger);
+    if (config.database.migrateOnStart) {
+      const migrateResult = await migrateDatabase();
+      if (migrateResult.error) {
+        return { error: `Database migration failed: ${migrateResult.error}` };
+      }
+    }
+
+    const realtime = createRealtime();
+    const busResult = await realtime.sse.start();
+    if (busResult.error) {
+      return { error: `Realtime bus failed: ${busResult.error}` };
+    }
+    const repositories = createPostgresRepositories();
+    const app = createApp(repositories, realtime, createAttachmentStorage(), logger);
 
-    const httpResult = await startHttpServer(app, config, logger);
+    const httpResult = await startHttpServer(app, repositories, realtime, config, logger);
     if (httpResult.error) {
       return { error: `HTTP server failed: ${httpResult.error}` };
     }
@@ -147,10 +114,11 @@ async function startServers(): Promise<{ error?: string }> {
  * Sets up graceful shutdown handlers
  */
 function setupGracefulShutdown(logger: pino.Logger) {
-  const shutdown = (signal: string) => {
+  const shutdown = async (signal: string) => {
     logger.info(
       `\n┌──────────────────────────────────────────────────┐\n│                  SHUTDOWN                        │\n├──────────────────────────────────────────────────┤\n│ Signal: ${signal.padEnd(37)} │\n│ Status: Gracefully shutting down servers        │\n│ Database: Closing connections                    │\n│ HTTP: Stopping listeners                        │\n└──────────────────────────────────────────────────┘\n\n> Goodbye!`
     );
+    await closeDatabasePool();
     process.exit(0);
   };
 
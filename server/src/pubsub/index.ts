@@ -0,0 +1,18 @@
+import { config } from '../config/index.js';
+import { RealtimeBus } from '../types';
+import { MemoryRealtimeBus } from './memory';
+import { PostgresRealtimeBus } from './postgres';
+
+/**
+ * creates the real-time bus selected by REALTIME_BUS
+ * @returns bus instance
+ */
+export function createRealtimeBus(): RealtimeBus {
+  if (config.realtime.bus === 'postgres') {
+    return new PostgresRealtimeBus(config.database.url, config.realtime.channel);
+  }
+
+  return new MemoryRealtimeBus();
+}
+
+export { MemoryRealtimeBus, PostgresRealtimeBus };
@@ -0,0 +1,38 @@
+import {
+  ParsedData,
+  RealtimeBus,
+  RealtimeBusHandler,
+  RealtimeBusMessage,
+  RealtimeBusPublication,
+} from '../types';
+
+/**
+ * delivers bus messages within this process only; fine for a single server
+ */
+export class MemoryRealtimeBus implements RealtimeBus {
+  private handlers: RealtimeBusHandler[] = [];
+  // seeded from the clock so ids keep increasing across restarts
+  private lastEventId = Date.now();
+
+  async publish(publication: RealtimeBusPublication): Promise<ParsedData<true>> {
+    const message: RealtimeBusMessage =
+      publication.type === 'event'
+        ? { ...publication, eventId: ++this.lastEventId }
+        : publication;
+
+    for (const handler of this.handlers) {
+      handler(message);
+    }
+
+    return { data: true };
+  }
+
+  async subscribe(handler: RealtimeBusHandler): Promise<ParsedData<number>> {
+    this.handlers.push(handler);
+    return { data: this.lastEventId };
+  }
+
+  async close() {
+    this.handlers = [];
+  }
+}
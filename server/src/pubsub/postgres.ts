@@ -0,0 +1,219 @@
+import { Client, Pool } from 'pg';
+import pino from 'pino';
+import {
+  ParsedData,
+  RealtimeBus,
+  RealtimeBusHandler,
+  RealtimeBusMessage,
+  RealtimeBusPublication,
+} from '../types';
+
+const logger = pino();
+
+// NOTIFY payloads are capped at 8000 bytes; anything bigger goes through a table
+const MAX_NOTIFY_BYTES = 7500;
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+/**
+ * fans bus messages out to every server instance with postgres LISTEN/NOTIFY;
+ * event ids come from the realtime_event_ids sequence
+ */
+export class PostgresRealtimeBus implements RealtimeBus {
+  private connectionString: string;
+  private channel: string;
+  private pool: Pool;
+  private listener: Client | null = null;
+  private handlers: RealtimeBusHandler[] = [];
+  // notifications are handled one at a time so large payloads fetched from
+  // the table don't overtake the small ones published after them
+  private queue: Promise<void> = Promise.resolve();
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(connectionString: string, channel: string) {
+    this.connectionString = connectionString;
+    this.channel = channel;
+    this.pool = new Pool({ connectionString, max: 2 });
+    this.pool.on('error', error => {
+      logger.error(`Realtime bus pool error: ${error.message}`);
+    });
+  }
+
+  async publish(publication: RealtimeBusPublication): Promise<ParsedData<true>> {
+    try {
+      if (publication.type === 'event') {
+        await this.publishEvent(publication);
+      } else {
+        await this.notify(JSON.stringify(publication));
+      }
+
+      return { data: true };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to publish realtime event' };
+    }
+  }
+
+  async subscribe(handler: RealtimeBusHandler): Promise<ParsedData<number>> {
+    this.handlers.push(handler);
+    if (!this.listener) {
+      const listenResult = await this.listen();
+      if (listenResult.error) {
+        return { error: listenResult.error };
+      }
+    }
+
+    // events issued after this reach the handler; the ones before never will
+    try {
+      const result = await this.pool.query(
+        `SELECT CASE WHEN is_called THEN last_value ELSE last_value - 1 END AS id
+         FROM realtime_event_ids`
+      );
+      return { data: Number(result.rows[0].id) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to read realtime event ids' };
+    }
+  }
+
+  async close() {
+    this.closed = true;
+    this.handlers = [];
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+
+    try {
+      await this.listener?.end();
+      await this.pool.end();
+    } catch (error) {
+      logger.error(`Realtime bus close error: ${error}`);
+    }
+  }
+
+  /**
+   * numbers an event from the shared sequence and sends it; ids are unique and
+   * grow with each publish, though events two nodes publish at the same moment
+   * can reach listeners a few ids out of order
+   * @param publication - event to number and send
+   */
+  private async publishEvent(publication: Extract<RealtimeBusPublication, { type: 'event' }>) {
+    const idResult = await this.pool.query(`SELECT nextval('realtime_event_ids') AS id`);
+    const message = { ...publication, eventId: Number(idResult.rows[0].id) };
+    await this.notify(JSON.stringify(message));
+  }
+
+  /**
+   * sends a payload to the channel, through the table when it's too big for NOTIFY
+   * @param payload - serialized bus message
+   */
+  private async notify(payload: string) {
+    if (Buffer.byteLength(payload) <= MAX_NOTIFY_BYTES) {
+      await this.pool.query('SELECT pg_notify($1, $2)', [this.channel, payload]);
+      return;
+    }
+
+    await this.pool.query(
+      `WITH pruned AS (
+         DELETE FROM realtime_events WHERE created_at < NOW() - INTERVAL '5 minutes'
+       ), inserted AS (
+         INSERT INTO realtime_events (payload) VALUES ($2) RETURNING id
+       )
+       SELECT pg_notify($1, json_build_object('ref', id)::text) FROM inserted`,
+      [this.channel, payload]
+    );
+  }
+
+  /**
+   * opens the dedicated LISTEN connection, reconnecting with backoff if it drops
+   * @returns true once listening, or error message
+   */
+  private async listen(): Promise<ParsedData<true>> {
+    const client = new Client({ connectionString: this.connectionString });
+
+    client.on('notification', notification => {
+      if (notification.channel !== this.channel || !notification.payload) return;
+
+      const payload = notification.payload;
+      this.queue = this.queue.then(() => this.dispatch(payload));
+    });
+
+    client.on('error', error => {
+      logger.error(`Realtime bus listener error: ${error.message}`);
+      this.scheduleReconnect(client);
+    });
+
+    client.on('end', () => {
+      this.scheduleReconnect(client);
+    });
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${client.escapeIdentifier(this.channel)}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to listen for realtime events';
+      logger.error(`Realtime bus listen error: ${message}`);
+      this.scheduleReconnect(client);
+      return { error: message };
+    }
+
+    this.listener = client;
+    this.reconnectAttempts = 0;
+    logger.info(`Listening for realtime events on ${this.channel}`);
+
+    return { data: true };
+  }
+
+  /**
+   * replaces a dead listener connection; notifications sent while it was down
+   * are lost, and presence catches up with the next snapshot
+   * @param client - the connection that failed
+   */
+  private scheduleReconnect(client: Client) {
+    if (this.closed || this.reconnectTimer || (this.listener && this.listener !== client)) return;
+
+    this.listener = null;
+    client.removeAllListeners();
+    client.on('error', () => undefined);
+    client.end().catch(() => undefined);
+
+    const delay = Math.min(1000 * 2 ** this.reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+    this.reconnectAttempts += 1;
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      if (this.closed || this.listener) return;
+
+      const result = await this.listen();
+      if (result.data) {
+        logger.info('Realtime bus listener reconnected');
+      }
+    }, delay);
+  }
+
+  /**
+   * decodes a notification, loading oversized payloads from the table, and
+   * hands it to every subscriber
+   * @param payload - notification payload
+   */
+  private async dispatch(payload: string) {
+    try {
+      let message = JSON.parse(payload);
+
+      if (typeof message.ref === 'number') {
+        const result = await this.pool.query('SELECT payload FROM realtime_events WHERE id = $1', [
+          message.ref,
+        ]);
+        if (result.rows.length === 0) {
+          logger.error(`Realtime event ${message.ref} expired before it was read`);
+          return;
+        }
+        message = JSON.parse(result.rows[0].payload);
+      }
+
+      for (const handler of this.handlers) {
+        handler(message as RealtimeBusMessage);
+      }
+    } catch (error) {
+      logger.error(`Realtime bus dispatch error: ${error}`);
+    }
+  }
+}
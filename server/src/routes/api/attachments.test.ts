@@ -0,0 +1,214 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { CreateBucketCommand, S3Client } from '@aws-sdk/client-s3';
+import { config } from '../../config/index.js';
+import { createMemoryRepositories } from '../../db/repositories/memory';
+import { createRealtime } from '../../helpers/realtime';
+import { MemoryRealtimeBus } from '../../pubsub';
+import { LocalAttachmentStorage, S3AttachmentStorage } from '../../storage';
+import { startTestServer, TestServer, TestUser } from '../../test/server';
+import { AttachmentStorage } from '../../types';
+
+interface StorageBackend {
+  name: string;
+  skip?: string | false;
+  // storage for one run of the tests, and how to clear up after it
+  create: () => Promise<{ storage: AttachmentStorage; cleanUp: () => Promise<void> }>;
+}
+
+const backends: StorageBackend[] = [
+  {
+    name: 'local storage',
+    create: async () => {
+      const root = await mkdtemp(path.join(tmpdir(), 'attachments-test-'));
+      return {
+        storage: new LocalAttachmentStorage(root),
+        cleanUp: () => rm(root, { recursive: true, force: true }),
+      };
+    },
+  },
+  {
+    // runs against minio or another stand-in at S3_ENDPOINT, making the bucket if needed
+    name: 's3 storage',
+    skip: !config.attachments.s3.endpoint && 'needs S3_ENDPOINT',
+    create: async () => {
+      const { bucket, region, endpoint, accessKeyId, secretAccessKey } = config.attachments.s3;
+      const client = new S3Client({
+        region,
+        endpoint,
+        forcePathStyle: true,
+        ...(accessKeyId && secretAccessKey
+          ? { credentials: { accessKeyId, secretAccessKey } }
+          : {}),
+      });
+      await client.send(new CreateBucketCommand({ Bucket: bucket })).catch(error => {
+        if (!['BucketAlreadyOwnedByYou', 'BucketAlreadyExists'].includes(error.name)) throw error;
+      });
+      client.destroy();
+
+      return { storage: new S3AttachmentStorage(config.attachments.s3), cleanUp: async () => {} };
+    },
+  },
+];
+
+for (const backend of backends) {
+  describe(`attachmentsRouter on ${backend.name}`, { skip: backend.skip }, () => {
+    let server: TestServer;
+    let storage: AttachmentStorage;
+    let cleanUp: () => Promise<void>;
+    let alice: TestUser;
+    let bobby: TestUser;
+    let outsider: TestUser;
+    let conversationId: string;
+    let photo: Buffer;
+
+    before(async () => {
+      ({ storage, cleanUp } = await backend.create());
+      server = await startTestServer(
+        createMemoryRepositories(),
+        createRealtime(new MemoryRealtimeBus()),
+        storage
+      );
+      alice = await server.register('alice');
+      bobby = await server.register('bobby');
+      outsider = await server.register('outsider');
+
+      const sent = await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'files incoming', recipient_id: bobby.id },
+      });
+      conversationId = sent.body.data.conversation_id;
+
+      photo = await sharp({
+        create: { width: 640, height: 480, channels: 3, background: { r: 200, g: 80, b: 40 } },
+      })
+        .png()
+        .toBuffer();
+    });
+
+    after(async () => {
+      await server?.close();
+      await cleanUp?.();
+    });
+
+    const upload = async (user: TestUser, data: Buffer, filename: string, type: string) => {
+      const form = new FormData();
+      form.append('conversation_id', conversationId);
+      form.append('file', new Blob([data], { type }), filename);
+
+      const response = await fetch(`${server.baseUrl}/api/attachments`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${user.token}` },
+        body: form,
+      });
+      return { status: response.status, body: (await response.json()) as any };
+    };
+
+    const download = (user: TestUser, attachmentId: string, suffix = '') =>
+      fetch(`${server.baseUrl}/api/attachments/${attachmentId}${suffix}`, {
+        headers: { Authorization: `Bearer ${user.token}` },
+      });
+
+    describe('POST /api/attachments', () => {
+      it('stores the type sniffed from the contents, not the one the client claims', async () => {
+        const image = await upload(alice, photo, 'notes.txt', 'text/plain');
+        assert.equal(image.status, 201);
+        assert.equal(image.body.data.mime_type, 'image/png');
+        assert.equal(image.body.data.width, 640);
+        const stored = await storage.get(`${image.body.data.id}/original`);
+        assert.equal(stored.data?.size, photo.length);
+        stored.data?.body.destroy();
+
+        const text = await upload(alice, Buffer.from('just words'), 'photo.png', 'image/png');
+        assert.equal(text.status, 201);
+        assert.equal(text.body.data.mime_type, 'text/plain');
+        assert.equal(text.body.data.has_thumbnail, false);
+
+        const binary = await upload(alice, Buffer.from([0, 1, 2, 0xff]), 'app.png', 'image/png');
+        assert.equal(binary.status, 415);
+      });
+
+      it('rejects files over the size limit', async () => {
+        const tooBig = Buffer.alloc(config.attachments.maxBytes + 1, 'a');
+        const response = await upload(alice, tooBig, 'big.txt', 'text/plain');
+        assert.equal(response.status, 413);
+      });
+
+      it("refuses uploads to a conversation the user isn't in", async () => {
+        const response = await upload(outsider, Buffer.from('hello'), 'hi.txt', 'text/plain');
+        assert.equal(response.status, 404);
+      });
+    });
+
+    describe('GET /api/attachments/:attachmentId', () => {
+      it('lets members download a sent attachment and hides it from everyone else', async () => {
+        const uploaded = await upload(alice, Buffer.from('the plan'), 'plan.txt', 'text/plain');
+        const attachmentId = uploaded.body.data.id;
+
+        const unsent = await download(bobby, attachmentId);
+        assert.equal(unsent.status, 404);
+
+        await server.request('POST', '/api/messages', {
+          token: alice.token,
+          body: {
+            content: 'see attached',
+            conversation_id: conversationId,
+            attachment_ids: [attachmentId],
+          },
+        });
+
+        const member = await download(bobby, attachmentId);
+        assert.equal(member.status, 200);
+        assert.equal(member.headers.get('content-type'), 'text/plain');
+        assert.equal(await member.text(), 'the plan');
+
+        const nonMember = await download(outsider, attachmentId);
+        assert.equal(nonMember.status, 404);
+      });
+    });
+
+    describe('GET /api/attachments/:attachmentId/thumbnail', () => {
+      it('serves a webp thumbnail that fits the thumbnail size for images only', async () => {
+        const image = await upload(alice, photo, 'photo.png', 'image/png');
+        assert.equal(image.body.data.has_thumbnail, true);
+
+        const thumbnail = await download(alice, image.body.data.id, '/thumbnail');
+        assert.equal(thumbnail.status, 200);
+        assert.equal(thumbnail.headers.get('content-type'), 'image/webp');
+
+        const metadata = await sharp(Buffer.from(await thumbnail.arrayBuffer())).metadata();
+        assert.equal(metadata.format, 'webp');
+        assert.equal(metadata.width, 320);
+        assert.equal(metadata.height, 240);
+
+        const text = await upload(alice, Buffer.from('no preview'), 'note.txt', 'text/plain');
+        const none = await download(alice, text.body.data.id, '/thumbnail');
+        assert.equal(none.status, 404);
+
+        const nonMember = await download(outsider, image.body.data.id, '/thumbnail');
+        assert.equal(nonMember.status, 404);
+      });
+    });
+
+    describe('DELETE /api/attachments/:attachmentId', () => {
+      it('removes an unsent upload and its stored objects', async () => {
+        const image = await upload(alice, photo, 'discard.png', 'image/png');
+        const attachmentId = image.body.data.id;
+
+        const response = await fetch(`${server.baseUrl}/api/attachments/${attachmentId}`, {
+          method: 'DELETE',
+          headers: { Authorization: `Bearer ${alice.token}` },
+        });
+        assert.equal(response.status, 200);
+
+        assert.equal((await storage.get(`${attachmentId}/original`)).data, undefined);
+        assert.equal((await storage.get(`${attachmentId}/thumbnail.webp`)).data, undefined);
+        assert.equal((await download(alice, attachmentId)).status, 404);
+      });
+    });
+  });
+}
@@ -0,0 +1,228 @@
+import { Router, NextFunction, Response } from 'express';
+import multer from 'multer';
+import { createSuccess, createError } from '@messaging/shared';
+import {
+  parseUploadAttachmentBody,
+  parseAttachmentIdParam,
+  storeAttachmentUpload,
+  resolveAttachmentAccess,
+  removeStoredObjects,
+  toAttachmentSummary,
+} from '../../helpers/attachments';
+import { createAuthMiddleware } from '../../helpers/middleware';
+import { config } from '../../config/index.js';
+import { AttachmentStorage, AuthenticatedRequest, Repositories } from '../../types';
+import pino from 'pino';
+
+const logger = pino();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: config.attachments.maxBytes, files: 1 },
+}).single('file');
+
+/**
+ * parses a single multipart file upload, turning multer failures into json errors
+ * @param req - express request with multipart body
+ * @param res - express response used for upload errors
+ * @param next - next middleware
+ */
+function uploadSingleFile(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  upload(req, res, error => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === 'LIMIT_FILE_SIZE') {
+        const maxMb = Math.round(config.attachments.maxBytes / (1024 * 1024));
+        return res.status(413).json(createError(`File too large (max ${maxMb}MB)`));
+      }
+      return res.status(400).json(createError('Invalid file upload'));
+    }
+
+    if (error) {
+      return next(error);
+    }
+
+    return next();
+  });
+}
+
+/**
+ * creates the attachment upload and download routes
+ * @param repositories - persistence the routes read and write through
+ * @param storage - where uploaded files and their thumbnails are stored
+ * @returns router mounted at /api/attachments
+ */
+export function createAttachmentsRouter(repositories: Repositories, storage: AttachmentStorage) {
+  const authMiddleware = createAuthMiddleware(repositories);
+  const attachmentsRouter = Router();
+
+  /**
+   * uploads a file to a conversation so it can be attached to the next message
+   * @param req - express request with multipart `file` and `conversation_id` fields
+   * @param res - express response with the stored attachment summary
+   */
+  attachmentsRouter.post(
+    '/',
+    authMiddleware,
+    uploadSingleFile,
+    async (req: AuthenticatedRequest, res) => {
+      const conversationResult = parseUploadAttachmentBody(req.body);
+      if (conversationResult.error) {
+        return res.status(400).json(createError(conversationResult.error));
+      }
+
+      if (!req.file || req.file.size === 0) {
+        return res.status(400).json(createError('File is required'));
+      }
+
+      const stored = await storeAttachmentUpload(
+        repositories,
+        storage,
+        req.file,
+        conversationResult.data!,
+        req.user!.id
+      );
+      if (stored.error) {
+        return res.status(stored.status || 500).json(createError(stored.error));
+      }
+
+      return res.status(201).json(createSuccess(toAttachmentSummary(stored.data!)));
+    }
+  );
+
+  /**
+   * downloads an attachment the user can see
+   * @param req - express request with attachment id in params
+   * @param res - express response streaming the file
+   */
+  attachmentsRouter.get(
+    '/:attachmentId',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const attachmentIdResult = parseAttachmentIdParam(req.params['attachmentId']);
+      if (attachmentIdResult.error) {
+        return res.status(400).json(createError(attachmentIdResult.error));
+      }
+
+      const access = await resolveAttachmentAccess(
+        repositories,
+        attachmentIdResult.data!,
+        req.user!.id
+      );
+      if (access.error) {
+        return res.status(access.status || 500).json(createError(access.error));
+      }
+
+      const attachment = access.data!;
+      const objectResult = await storage.get(attachment.storage_key);
+      if (objectResult.error) {
+        logger.error(`Attachment download error: ${objectResult.error}`);
+        return res.status(500).json(createError('Failed to download attachment'));
+      }
+
+      if (!objectResult.data) {
+        return res.status(404).json(createError('Attachment not found'));
+      }
+
+      const disposition = attachment.mime_type.startsWith('image/') ? 'inline' : 'attachment';
+      res.setHeader('Content-Type', attachment.mime_type);
+      res.setHeader(
+        'Content-Disposition',
+        `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.filename)}`
+      );
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      if (objectResult.data.size !== undefined) {
+        res.setHeader('Content-Length', objectResult.data.size);
+      }
+
+      return objectResult.data.body.pipe(res);
+    }
+  );
+
+  /**
+   * downloads the thumbnail generated for an image attachment
+   * @param req - express request with attachment id in params
+   * @param res - express response streaming the webp thumbnail
+   */
+  attachmentsRouter.get(
+    '/:attachmentId/thumbnail',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const attachmentIdResult = parseAttachmentIdParam(req.params['attachmentId']);
+      if (attachmentIdResult.error) {
+        return res.status(400).json(createError(attachmentIdResult.error));
+      }
+
+      const access = await resolveAttachmentAccess(
+        repositories,
+        attachmentIdResult.data!,
+        req.user!.id
+      );
+      if (access.error) {
+        return res.status(access.status || 500).json(createError(access.error));
+      }
+
+      if (!access.data!.thumbnail_key) {
+        return res.status(404).json(createError('Attachment has no thumbnail'));
+      }
+
+      const objectResult = await storage.get(access.data!.thumbnail_key);
+      if (objectResult.error) {
+        logger.error(`Thumbnail download error: ${objectResult.error}`);
+        return res.status(500).json(createError('Failed to download thumbnail'));
+      }
+
+      if (!objectResult.data) {
+        return res.status(404).json(createError('Attachment has no thumbnail'));
+      }
+
+      res.setHeader('Content-Type', 'image/webp');
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      if (objectResult.data.size !== undefined) {
+        res.setHeader('Content-Length', objectResult.data.size);
+      }
+
+      return objectResult.data.body.pipe(res);
+    }
+  );
+
+  /**
+   * discards an upload that hasn't been sent with a message yet
+   * @param req - express request with attachment id in params
+   * @param res - express response with success confirmation
+   */
+  attachmentsRouter.delete(
+    '/:attachmentId',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const attachmentIdResult = parseAttachmentIdParam(req.params['attachmentId']);
+      if (attachmentIdResult.error) {
+        return res.status(400).json(createError(attachmentIdResult.error));
+      }
+
+      const access = await resolveAttachmentAccess(
+        repositories,
+        attachmentIdResult.data!,
+        req.user!.id
+      );
+      if (access.error) {
+        return res.status(access.status || 500).json(createError(access.error));
+      }
+
+      if (access.data!.uploader_id !== req.user!.id || access.data!.message_id) {
+        return res.status(403).json(createError('Only unsent uploads can be removed'));
+      }
+
+      const deleted = await repositories.attachments.delete({ attachmentId: access.data!.id });
+      if (deleted.error) {
+        logger.error(`Attachment delete error: ${deleted.error}`);
+        return res.status(500).json(createError('Failed to remove attachment'));
+      }
+
+      await removeStoredObjects(storage, deleted.data!);
+
+      return res.json(createSuccess({ message: 'Attachment removed' }));
+    }
+  );
+
+  return attachmentsRouter;
+}
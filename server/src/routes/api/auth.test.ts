@@ -0,0 +1,188 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { startTestServer, TestServer } from '../../test/server';
+
+describe('authRouter', () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('creates the account and signs it in', async () => {
+      const response = await server.request('POST', '/api/auth/register', {
+        body: {
+          username: 'lovelace',
+          email: 'Lovelace@Example.com',
+          password: 'correct horse battery',
+        },
+      });
+
+      assert.equal(response.status, 201);
+      assert.equal(response.body.data.user.username, 'lovelace');
+      assert.equal(response.body.data.user.email, 'lovelace@example.com');
+      assert.ok(response.body.data.token);
+      assert.ok(response.body.data.refreshToken);
+
+      const validate = await server.request('GET', '/api/auth/validate', {
+        token: response.body.data.token,
+      });
+      assert.equal(validate.status, 200);
+      assert.equal(validate.body.data.user.id, response.body.data.user.id);
+    });
+
+    it('rejects an email or username that is taken', async () => {
+      await server.register('grace');
+
+      const sameEmail = await server.request('POST', '/api/auth/register', {
+        body: { username: 'grace2', email: 'grace@example.com', password: 'correct horse battery' },
+      });
+      assert.equal(sameEmail.status, 409);
+      assert.equal(sameEmail.body.error, 'Email is already registered');
+
+      const sameUsername = await server.request('POST', '/api/auth/register', {
+        body: { username: 'GRACE', email: 'other@example.com', password: 'correct horse battery' },
+      });
+      assert.equal(sameUsername.status, 409);
+      assert.equal(sameUsername.body.error, 'Username is already taken');
+    });
+
+    it('rejects a short password', async () => {
+      const response = await server.request('POST', '/api/auth/register', {
+        body: { username: 'shorty', email: 'shorty@example.com', password: 'short' },
+      });
+
+      assert.equal(response.status, 400);
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('signs in with the right password only', async () => {
+      await server.register('linus');
+
+      const wrong = await server.request('POST', '/api/auth/login', {
+        body: { email: 'linus@example.com', password: 'wrong password' },
+      });
+      assert.equal(wrong.status, 401);
+      assert.equal(wrong.body.error, 'Invalid credentials');
+
+      const unknown = await server.request('POST', '/api/auth/login', {
+        body: { email: 'nobody@example.com', password: 'correct horse battery' },
+      });
+      assert.equal(unknown.status, 401);
+
+      const right = await server.request('POST', '/api/auth/login', {
+        body: { email: 'linus@example.com', password: 'correct horse battery' },
+      });
+      assert.equal(right.status, 200);
+      assert.equal(right.body.data.user.username, 'linus');
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('rotates the token pair and revokes the session when a refresh token is replayed', async () => {
+      const user = await server.register('barbara');
+
+      const rotated = await server.request('POST', '/api/auth/refresh', {
+        body: { refreshToken: user.refreshToken },
+      });
+      assert.equal(rotated.status, 200);
+      assert.notEqual(rotated.body.data.token, user.token);
+
+      const oldAccess = await server.request('GET', '/api/auth/validate', { token: user.token });
+      assert.equal(oldAccess.status, 401);
+
+      const replayed = await server.request('POST', '/api/auth/refresh', {
+        body: { refreshToken: user.refreshToken },
+      });
+      assert.equal(replayed.status, 401);
+      assert.equal(replayed.body.error, 'Refresh token already used; session revoked');
+
+      const newAccess = await server.request('GET', '/api/auth/validate', {
+        token: rotated.body.data.token,
+      });
+      assert.equal(newAccess.status, 401);
+    });
+
+    it('rejects an unknown refresh token', async () => {
+      const response = await server.request('POST', '/api/auth/refresh', {
+        body: { refreshToken: 'not-a-real-token' },
+      });
+
+      assert.equal(response.status, 401);
+    });
+  });
+
+  describe('sessions', () => {
+    it('lists, revokes and logs out sessions', async () => {
+      const user = await server.register('margaret');
+      const second = await server.request('POST', '/api/auth/login', {
+        body: { email: 'margaret@example.com', password: 'correct horse battery' },
+      });
+
+      const listed = await server.request('GET', '/api/auth/sessions', { token: user.token });
+      assert.equal(listed.status, 200);
+      assert.equal(listed.body.data.sessions.length, 2);
+      assert.equal(listed.body.data.sessions.filter((s: any) => s.current).length, 1);
+
+      const revoked = await server.request('DELETE', '/api/auth/sessions', { token: user.token });
+      assert.equal(revoked.body.data.revoked, 1);
+
+      const secondAccess = await server.request('GET', '/api/auth/validate', {
+        token: second.body.data.token,
+      });
+      assert.equal(secondAccess.status, 401);
+
+      const logout = await server.request('POST', '/api/auth/logout', { token: user.token });
+      assert.equal(logout.status, 200);
+
+      const afterLogout = await server.request('GET', '/api/auth/sessions', { token: user.token });
+      assert.equal(afterLogout.status, 401);
+    });
+
+    it("won't revoke another user's session", async () => {
+      const owner = await server.register('katherine');
+      const other = await server.register('dorothy');
+
+      const listed = await server.request('GET', '/api/auth/sessions', { token: owner.token });
+      const sessionId = listed.body.data.sessions[0].id;
+
+      const response = await server.request('DELETE', `/api/auth/sessions/${sessionId}`, {
+        token: other.token,
+      });
+      assert.equal(response.status, 404);
+    });
+
+    it('requires a token', async () => {
+      const response = await server.request('GET', '/api/auth/sessions');
+
+      assert.equal(response.status, 401);
+    });
+  });
+
+  describe('GET /api/auth/users/search', () => {
+    it('finds other users by username', async () => {
+      const searcher = await server.register('edsger');
+      await server.register('donald');
+
+      const response = await server.request('GET', '/api/auth/users/search?q=don', {
+        token: searcher.token,
+      });
+      assert.equal(response.status, 200);
+      assert.deepEqual(
+        response.body.data.users.map((user: any) => user.username),
+        ['donald']
+      );
+
+      const self = await server.request('GET', '/api/auth/users/search?q=edsger', {
+        token: searcher.token,
+      });
+      assert.deepEqual(self.body.data.users, []);
+    });
+  });
+});
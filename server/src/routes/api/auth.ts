@@ -1,107 +1,275 @@
 import { Router } from 'express';
 import { createSuccess, createError, LoginSchema } from '@messaging/shared';
 import { validateRequest } from '../../middleware/validation';
-import { parseLoginRequestBody, processHttpLogin } from '../../helpers/auth';
+import {
+  parseLoginRequestBody,
+  processHttpLogin,
+  parseRegisterRequestBody,
+  processHttpRegister,
+  parseRefreshRequestBody,
+  processTokenRefresh,
+  parseSessionIdParam,
+  getSessionClientInfo,
+  closeSessionStreams,
+} from '../../helpers/auth';
 import { validateBearerToken } from '../../helpers/sse-auth';
+import { createAuthMiddleware } from '../../helpers/middleware';
+import { AuthenticatedRequest, Realtime, Repositories } from '../../types';
+import pino from 'pino';
 
-
-export const authRouter = Router();
+const logger = pino();
 
 const loginValidationSchema = {
   body: LoginSchema,
 };
 
 /**
- * handles user login request
- * @param req - express request with email and password in body
- * @param res - express response with user data and token
+ * creates the sign-in, session and user lookup routes
+ * @param repositories - persistence the routes read and write through
+ * @param realtime - event streams and typing state the routes notify
+ * @returns router mounted at /api/auth
  */
-authRouter.post('/login', validateRequest(loginValidationSchema), async (req, res) => {
-  const requestData = parseLoginRequestBody(req.body);
-  if (requestData.error) {
-    return res.status(400).json(createError(requestData.error));
-  }
+export function createAuthRouter(repositories: Repositories, realtime: Realtime) {
+  const authMiddleware = createAuthMiddleware(repositories);
+  const authRouter = Router();
 
-  const loginResult = await processHttpLogin(requestData.data!);
-  if (loginResult.error) {
-    return res.status(401).json(createError(loginResult.error));
-  }
+  /**
+   * handles user login request
+   * @param req - express request with email and password in body
+   * @param res - express response with user data and token
+   */
+  authRouter.post('/login', validateRequest(loginValidationSchema), async (req, res) => {
+    const requestData = parseLoginRequestBody(req.body);
+    if (requestData.error) {
+      return res.status(400).json(createError(requestData.error));
+    }
 
-  return res.json(createSuccess(loginResult.data!));
-});
+    const loginResult = await processHttpLogin(
+      repositories,
+      requestData.data!,
+      getSessionClientInfo(req)
+    );
+    if (loginResult.error) {
+      return res.status(401).json(createError(loginResult.error));
+    }
 
-/**
- * validates user authentication token
- * @param req - express request with authorization header
- * @param res - express response with user data if token is valid
- */
-authRouter.get('/validate', async (req, res) => {
-  const userResult = await validateBearerToken(req.headers.authorization);
+    return res.json(createSuccess(loginResult.data!));
+  });
+
+  /**
+   * handles self-service account registration
+   * @param req - express request with username, email and password in body
+   * @param res - express response with new user data and token
+   */
+  authRouter.post('/register', async (req, res) => {
+    const requestData = parseRegisterRequestBody(req.body);
+    if (requestData.error) {
+      return res.status(400).json(createError(requestData.error));
+    }
 
-  if (userResult.error) {
-    return res.status(401).json(createError(userResult.error));
-  }
+    const registerResult = await processHttpRegister(
+      repositories,
+      requestData.data!,
+      getSessionClientInfo(req)
+    );
+    if (registerResult.error) {
+      return res.status(registerResult.status || 500).json(createError(registerResult.error));
+    }
 
-  const token = req.headers.authorization?.replace('Bearer ', '').trim();
+    return res.status(201).json(createSuccess(registerResult.data!));
+  });
 
-  return res.json(
-    createSuccess({
-      user: userResult.data,
-      token,
-    })
-  );
-});
+  /**
+   * exchanges a refresh token for a new access/refresh token pair
+   * @param req - express request with refresh token in body
+   * @param res - express response with user data and rotated tokens
+   */
+  authRouter.post('/refresh', async (req, res) => {
+    const requestData = parseRefreshRequestBody(req.body);
+    if (requestData.error) {
+      return res.status(400).json(createError(requestData.error));
+    }
 
-/**
- * searches for users by query or returns random users
- * @param req - express request with optional query parameter and auth header
- * @param res - express response with list of users matching search
- */
-authRouter.get('/users/search', async (req, res) => {
-  const userResult = await validateBearerToken(req.headers.authorization);
-
-  if (userResult.error) {
-    return res.status(401).json(createError(userResult.error));
-  }
-
-  const query = req.query['q'] as string;
-  const limit = Math.min(parseInt(req.query['limit'] as string) || 5, 20); 
-  const offset = parseInt(req.query['offset'] as string) || 0;
-
-  try {
-    let result;
-
-    if (query && query.trim().length > 0) {
-      // search by username, email, or uid
-      const { searchUsers } = await import('../../db/operations');
-      result = await searchUsers(query.trim(), userResult.data!.id, limit, offset);
-    } else {
-      const { getRandomUsers } = await import('../../db/operations');
-      result = await getRandomUsers(userResult.data!.id, limit, offset);
+    const refreshResult = await processTokenRefresh(repositories, realtime, requestData.data!);
+    if (refreshResult.error) {
+      return res.status(refreshResult.status || 500).json(createError(refreshResult.error));
     }
-    if (result.error) {
-      return res.status(500).json(createError('Failed to search users'));
+
+    return res.json(createSuccess(refreshResult.data!));
+  });
+
+  /**
+   * validates user authentication token
+   * @param req - express request with authorization header
+   * @param res - express response with user data if token is valid
+   */
+  authRouter.get('/validate', async (req, res) => {
+    const userResult = await validateBearerToken(repositories, req.headers.authorization);
+
+    if (userResult.error) {
+      return res.status(401).json(createError(userResult.error));
     }
 
+    const token = req.headers.authorization?.replace('Bearer ', '').trim();
+    const { session_id: _sessionId, ...user } = userResult.data!;
+
     return res.json(
       createSuccess({
-        users: result.data,
-        hasMore: result.data?.length === limit,
-        query,
-        limit,
-        offset,
+        user,
+        token,
       })
     );
-  } catch (_error) {
-    return res.status(500).json(createError('Search failed'));
-  }
-});
+  });
 
-/**
- * health check endpoint for auth service
- * @param _req - express request (unused)
- * @param res - express response with service status
- */
-authRouter.get('/health', (_req, res) => {
-  res.json(createSuccess({ status: 'Auth service healthy', timestamp: new Date().toISOString() }));
-});
+  /**
+   * revokes the session behind the current token
+   * @param req - express request with authorization header
+   * @param res - express response with success confirmation
+   */
+  authRouter.post('/logout', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+    const sessionId = req.sessionId!;
+
+    const deleteResult = await repositories.sessions.delete(sessionId, userId);
+    if (deleteResult.error) {
+      logger.error(`Logout error: ${deleteResult.error}`);
+      return res.status(500).json(createError('Failed to log out'));
+    }
+
+    closeSessionStreams(realtime, [sessionId]);
+
+    return res.json(createSuccess({ message: 'Logged out' }));
+  });
+
+  /**
+   * lists the authenticated user's active sessions
+   * @param req - express request with authorization header
+   * @param res - express response with sessions, flagging the current one
+   */
+  authRouter.get('/sessions', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+
+    const sessionsResult = await repositories.sessions.listForUser(userId);
+    if (sessionsResult.error) {
+      logger.error(`Get sessions error: ${sessionsResult.error}`);
+      return res.status(500).json(createError('Failed to retrieve sessions'));
+    }
+
+    return res.json(
+      createSuccess({
+        sessions: sessionsResult.data!.map(session => ({
+          ...session,
+          current: session.id === req.sessionId,
+        })),
+      })
+    );
+  });
+
+  /**
+   * revokes every session of the authenticated user except the current one
+   * @param req - express request with authorization header
+   * @param res - express response with the number of revoked sessions
+   */
+  authRouter.delete('/sessions', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.user!.id;
+
+    const deleteResult = await repositories.sessions.deleteOthers(userId, req.sessionId!);
+    if (deleteResult.error) {
+      logger.error(`Revoke sessions error: ${deleteResult.error}`);
+      return res.status(500).json(createError('Failed to revoke sessions'));
+    }
+
+    closeSessionStreams(realtime, deleteResult.data!);
+
+    return res.json(createSuccess({ revoked: deleteResult.data!.length }));
+  });
+
+  /**
+   * revokes one of the authenticated user's sessions
+   * @param req - express request with session id in params
+   * @param res - express response with success confirmation
+   */
+  authRouter.delete(
+    '/sessions/:sessionId',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const sessionIdResult = parseSessionIdParam(req.params['sessionId']);
+      if (sessionIdResult.error) {
+        return res.status(400).json(createError(sessionIdResult.error));
+      }
+
+      const sessionId = sessionIdResult.data!;
+      const deleteResult = await repositories.sessions.delete(sessionId, userId);
+      if (deleteResult.error) {
+        logger.error(`Revoke session error: ${deleteResult.error}`);
+        return res.status(500).json(createError('Failed to revoke session'));
+      }
+
+      if (!deleteResult.data) {
+        return res.status(404).json(createError('Session not found'));
+      }
+
+      closeSessionStreams(realtime, [sessionId]);
+
+      return res.json(createSuccess({ message: 'Session revoked' }));
+    }
+  );
+
+  /**
+   * searches for users by query or returns random users
+   * @param req - express request with optional query parameter and auth header
+   * @param res - express response with list of users matching search
+   */
+  authRouter.get('/users/search', async (req, res) => {
+    const userResult = await validateBearerToken(repositories, req.headers.authorization);
+
+    if (userResult.error) {
+      return res.status(401).json(createError(userResult.error));
+    }
+
+    const query = req.query['q'] as string;
+    const limit = Math.min(parseInt(req.query['limit'] as string) || 5, 20);
+    const offset = parseInt(req.query['offset'] as string) || 0;
+
+    try {
+      let result;
+
+      if (query && query.trim().length > 0) {
+        // search by username, email, or uid
+        result = await repositories.users.search(query.trim(), userResult.data!.id, limit, offset);
+      } else {
+        result = await repositories.users.getRandom(userResult.data!.id, limit, offset);
+      }
+      if (result.error) {
+        return res.status(500).json(createError('Failed to search users'));
+      }
+
+      return res.json(
+        createSuccess({
+          users: result.data,
+          hasMore: result.data?.length === limit,
+          query,
+          limit,
+          offset,
+        })
+      );
+    } catch (_error) {
+      return res.status(500).json(createError('Search failed'));
+    }
+  });
+
+  /**
+   * health check endpoint for auth service
+   * @param _req - express request (unused)
+   * @param res - express response with service status
+   */
+  authRouter.get('/health', (_req, res) => {
+    res.json(
+      createSuccess({ status: 'Auth service healthy', timestamp: new Date().toISOString() })
+    );
+  });
+
+  return authRouter;
+}
@@ -0,0 +1,200 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { closeDatabasePool } from '../../db';
+import { migrateDatabase } from '../../db/migrate';
+import { createMemoryRepositories } from '../../db/repositories/memory';
+import { createPostgresRepositories } from '../../db/repositories/postgres';
+import { createRealtime } from '../../helpers/realtime';
+import { MemoryRealtimeBus, PostgresRealtimeBus } from '../../pubsub';
+import { EventStream, openEventStream } from '../../test/events';
+import { startTestServer, TestServer, TestUser } from '../../test/server';
+import { Realtime, Repositories } from '../../types';
+
+const databaseUrl = process.env['DATABASE_URL'];
+
+interface ClusterBackend {
+  name: string;
+  skip?: string | false;
+  setUp?: () => Promise<void>;
+  tearDown?: () => Promise<void>;
+  // shared persistence, and real-time state for each node on one bus
+  createRepositories: () => Repositories;
+  createRealtimes: (channel: string) => [Realtime, Realtime];
+}
+
+const backends: ClusterBackend[] = [
+  {
+    name: 'a memory bus',
+    createRepositories: () => createMemoryRepositories(),
+    createRealtimes: () => {
+      const bus = new MemoryRealtimeBus();
+      return [createRealtime(bus), createRealtime(bus)];
+    },
+  },
+  {
+    name: 'a postgres bus',
+    skip: !databaseUrl && 'needs DATABASE_URL',
+    setUp: async () => {
+      const migrated = await migrateDatabase();
+      assert.ifError(migrated.error);
+    },
+    tearDown: async () => {
+      await closeDatabasePool();
+    },
+    createRepositories: () => createPostgresRepositories(),
+    createRealtimes: channel => [
+      createRealtime(new PostgresRealtimeBus(databaseUrl!, channel)),
+      createRealtime(new PostgresRealtimeBus(databaseUrl!, channel)),
+    ],
+  },
+];
+
+// two nodes sharing one database and bus, as when the server is scaled out
+for (const backend of backends) {
+  describe(`two server nodes on ${backend.name}`, { skip: backend.skip }, () => {
+    const suffix = crypto.randomBytes(4).toString('hex');
+    let first: TestServer;
+    let second: TestServer;
+    let alice: TestUser;
+    let bobby: TestUser;
+    let carol: TestUser;
+    const streams: EventStream[] = [];
+
+    before(async () => {
+      await backend.setUp?.();
+
+      const repositories = backend.createRepositories();
+      const [firstRealtime, secondRealtime] = backend.createRealtimes(`realtime_test_${suffix}`);
+      first = await startTestServer(repositories, firstRealtime);
+      second = await startTestServer(repositories, secondRealtime);
+
+      alice = await first.register(`alice_${suffix}`);
+      bobby = await second.register(`bobby_${suffix}`);
+      carol = await second.register(`carol_${suffix}`);
+    });
+
+    after(async () => {
+      streams.forEach(stream => stream.close());
+      await first?.close();
+      await second?.close();
+      await backend.tearDown?.();
+    });
+
+    const openStream = async (server: TestServer, user: TestUser, params = '') => {
+      const stream = await openEventStream(server, user, params);
+      streams.push(stream);
+      await stream.next('connected');
+      return stream;
+    };
+
+    // skips changes still arriving from streams earlier tests closed
+    const nextStatus = async (stream: EventStream, user: TestUser, isOnline: boolean) => {
+      for (;;) {
+        const event = await stream.next('user-status');
+        if (event.data.userId === user.id && event.data.isOnline === isOnline) return event;
+      }
+    };
+
+    const send = (server: TestServer, from: TestUser, to: TestUser, content: string) =>
+      server.request('POST', '/api/messages', {
+        token: from.token,
+        body: { content, recipient_id: to.id },
+      });
+
+    it('delivers a message to a stream on the other node and tells the sender', async () => {
+      const aliceStream = await openStream(first, alice);
+      const bobbyStream = await openStream(second, bobby);
+
+      const sent = await send(first, alice, bobby, 'across the cluster');
+      assert.equal(sent.status, 201);
+
+      const received = await bobbyStream.next('new-message');
+      assert.equal(received.data.senderId, alice.id);
+      assert.equal(received.data.message.content, 'across the cluster');
+
+      const receipt = await aliceStream.next('receipt');
+      assert.deepEqual(receipt.data.messageIds, [sent.body.data.id]);
+      assert.equal(receipt.data.status, 'delivered');
+
+      aliceStream.close();
+      bobbyStream.close();
+    });
+
+    it('tells a member on the other node who is typing', async () => {
+      const sent = await send(first, alice, bobby, 'typing across nodes');
+      const bobbyStream = await openStream(second, bobby);
+
+      const typing = await first.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { conversationId: sent.body.data.conversation_id, isTyping: true },
+      });
+      assert.equal(typing.status, 200);
+
+      const event = await bobbyStream.next('typing');
+      assert.equal(event.data.senderId, alice.id);
+      assert.equal(event.data.isTyping, true);
+
+      bobbyStream.close();
+    });
+
+    it('shares presence of users connected to the other node', async () => {
+      const aliceStream = await openStream(first, alice);
+      const bobbyStream = await openStream(second, bobby);
+
+      const online = await nextStatus(aliceStream, bobby, true);
+      assert.equal(online.data.state, 'online');
+
+      const single = await first.request('GET', `/api/sse/online/${bobby.id}`, {
+        token: alice.token,
+      });
+      assert.equal(single.body.data.isOnline, true);
+
+      bobbyStream.close();
+      const offline = await nextStatus(aliceStream, bobby, false);
+      assert.equal(offline.data.state, 'offline');
+
+      aliceStream.close();
+    });
+
+    it('gives each event one id on every node, so any node can replay', async () => {
+      const onFirst = await openStream(first, bobby);
+      const onSecond = await openStream(second, bobby);
+
+      const count = 20;
+      await Promise.all(
+        Array.from({ length: count }, (_, index) =>
+          index % 2 === 0
+            ? send(first, alice, bobby, `from the first node ${index}`)
+            : send(second, carol, bobby, `from the second node ${index}`)
+        )
+      );
+
+      // nodes publishing at once may deliver a few ids out of order
+      const idsOn = async (stream: EventStream) => {
+        const ids = new Map<string, number>();
+        for (let index = 0; index < count; index++) {
+          const event = await stream.next('new-message');
+          ids.set(event.data.message.id, event.id!);
+        }
+        return ids;
+      };
+      const firstIds = await idsOn(onFirst);
+      const secondIds = await idsOn(onSecond);
+
+      assert.deepEqual(secondIds, firstIds);
+      const ids = [...firstIds.values()].sort((a, b) => a - b);
+      assert.equal(new Set(ids).size, count);
+
+      // resuming on the other node from the middle of the run misses nothing
+      const middle = count / 2;
+      const resumed = await openStream(first, bobby, `&since=${ids[middle - 1]}`);
+      const replayed: number[] = [];
+      for (let index = middle; index < count; index++) {
+        replayed.push((await resumed.next('new-message')).id!);
+      }
+      assert.deepEqual(replayed, ids.slice(middle));
+      await assert.rejects(resumed.next('new-message', 200));
+    });
+  });
+}
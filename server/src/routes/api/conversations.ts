@@ -0,0 +1,479 @@
+import { Router } from 'express';
+import {
+  createSuccess,
+  createError,
+  CreateConversationSchema,
+  CreateGroupSchema,
+  AddMembersSchema,
+  ConversationFilterSchema,
+} from '@messaging/shared';
+import { validateRequest } from '../../middleware/validation';
+import {
+  parseCreateConversationBody,
+  parseCreateGroupBody,
+  parseAddMembersBody,
+  parseConversationFilterQuery,
+  parseConversationIdParam,
+  resolveGroupMembership,
+} from '../../helpers/conversations';
+import {
+  buildMessagePage,
+  buildMessageWindow,
+  parseMessageIdParam,
+  parseMessagePageQuery,
+} from '../../helpers/messages';
+import { markConversationRead, parseMarkReadBody } from '../../helpers/receipts';
+import { createAuthMiddleware } from '../../helpers/middleware';
+import { AuthenticatedRequest, Realtime, Repositories } from '../../types';
+import pino from 'pino';
+
+const logger = pino();
+
+const createConversationValidationSchema = {
+  body: CreateConversationSchema,
+};
+
+const createGroupValidationSchema = {
+  body: CreateGroupSchema,
+};
+
+const addMembersValidationSchema = {
+  body: AddMembersSchema,
+};
+
+const listConversationsValidationSchema = {
+  query: ConversationFilterSchema,
+};
+
+/**
+ * creates the conversation and group membership routes
+ * @param repositories - persistence the routes read and write through
+ * @param realtime - event streams and typing state the routes notify
+ * @returns router mounted at /api/conversations
+ */
+export function createConversationsRouter(repositories: Repositories, realtime: Realtime) {
+  const authMiddleware = createAuthMiddleware(repositories);
+  const conversationsRouter = Router();
+
+  /**
+   * lists the authenticated user's conversation threads (inbox)
+   * @param req - express request with optional limit/offset query parameters
+   * @param res - express response with threads, their last message and unread counts
+   */
+  conversationsRouter.get(
+    '/',
+    authMiddleware,
+    validateRequest(listConversationsValidationSchema),
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const filterData = parseConversationFilterQuery(req.query);
+      if (filterData.error) {
+        return res.status(400).json(createError(filterData.error));
+      }
+
+      const { limit, offset } = filterData.data!;
+      const conversationsResult = await repositories.conversations.listForUser(
+        userId,
+        limit,
+        offset
+      );
+
+      if (conversationsResult.error) {
+        logger.error(`Get conversations error: ${conversationsResult.error}`);
+        return res.status(500).json(createError('Failed to retrieve conversations'));
+      }
+
+      return res.json(
+        createSuccess({
+          conversations: conversationsResult.data!,
+          hasMore: conversationsResult.data!.length === limit,
+          limit,
+          offset,
+        })
+      );
+    }
+  );
+
+  /**
+   * opens a direct conversation with another user, creating it if needed
+   * @param req - express request with participant id in body
+   * @param res - express response with the conversation
+   */
+  conversationsRouter.post(
+    '/',
+    authMiddleware,
+    validateRequest(createConversationValidationSchema),
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const conversationData = parseCreateConversationBody(req.body);
+      if (conversationData.error) {
+        return res.status(400).json(createError(conversationData.error));
+      }
+
+      if (userId === conversationData.data!.participant_id) {
+        return res.status(400).json(createError('Cannot start a conversation with yourself'));
+      }
+
+      const conversationResult = await repositories.conversations.getOrCreateDirect(
+        userId,
+        conversationData.data!.participant_id
+      );
+
+      if (conversationResult.error) {
+        logger.error(`Conversation creation error: ${conversationResult.error}`);
+        return res.status(500).json(createError('Failed to create conversation'));
+      }
+
+      return res.status(201).json(createSuccess(conversationResult.data!));
+    }
+  );
+
+  /**
+   * gets messages of a conversation the authenticated user participates in
+   * @param req - express request with conversation id in params, optional limit and a before
+   *   or after cursor, or `around` to load the messages surrounding one message
+   * @param res - express response with conversation messages oldest first and paging cursors
+   */
+  conversationsRouter.get(
+    '/:conversationId/messages',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const conversationIdResult = parseConversationIdParam(req.params['conversationId']);
+      if (conversationIdResult.error) {
+        return res.status(400).json(createError(conversationIdResult.error));
+      }
+
+      const conversationId = conversationIdResult.data!;
+      const pageData = parseMessagePageQuery(req.query);
+      if (pageData.error) {
+        return res.status(400).json(createError(pageData.error));
+      }
+      const page = pageData.data!;
+
+      let around: string | undefined;
+      if (req.query['around'] !== undefined) {
+        const aroundResult = parseMessageIdParam(req.query['around'] as string);
+        if (aroundResult.error) {
+          return res.status(400).json(createError(aroundResult.error));
+        }
+        around = aroundResult.data;
+      }
+
+      const membershipResult = await repositories.conversations.isParticipant(
+        conversationId,
+        userId
+      );
+      if (membershipResult.error) {
+        logger.error(`Conversation membership error: ${membershipResult.error}`);
+        return res.status(500).json(createError('Failed to retrieve conversation'));
+      }
+
+      if (!membershipResult.data) {
+        return res.status(404).json(createError('Conversation not found'));
+      }
+
+      if (around) {
+        const contextResult = await repositories.messages.getContext(
+          conversationId,
+          around,
+          Math.ceil(page.limit / 2)
+        );
+        if (contextResult.error) {
+          logger.error(`Get message context error: ${contextResult.error}`);
+          return res.status(500).json(createError('Failed to retrieve conversation'));
+        }
+
+        if (!contextResult.data) {
+          return res.status(404).json(createError('Message not found'));
+        }
+
+        return res.json(createSuccess(buildMessageWindow(contextResult.data.messages)));
+      }
+
+      // fetch one extra row to know whether another page exists
+      const messagesResult = await repositories.messages.listForConversation(conversationId, {
+        ...page,
+        limit: page.limit + 1,
+      });
+      if (messagesResult.error) {
+        logger.error(`Get conversation messages error: ${messagesResult.error}`);
+        return res.status(500).json(createError('Failed to retrieve conversation'));
+      }
+
+      return res.json(createSuccess(buildMessagePage(messagesResult.data!, page)));
+    }
+  );
+
+  /**
+   * creates a group conversation with the authenticated user as admin
+   * @param req - express request with group name and member ids in body
+   * @param res - express response with the created group
+   */
+  conversationsRouter.post(
+    '/groups',
+    authMiddleware,
+    validateRequest(createGroupValidationSchema),
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const groupData = parseCreateGroupBody(req.body);
+      if (groupData.error) {
+        return res.status(400).json(createError(groupData.error));
+      }
+
+      const memberIds = groupData.data!.member_ids.filter(id => id !== userId);
+      if (memberIds.length === 0) {
+        return res.status(400).json(createError('A group needs at least one other member'));
+      }
+
+      const groupResult = await repositories.conversations.createGroup(
+        userId,
+        groupData.data!.name,
+        memberIds
+      );
+
+      if (groupResult.error) {
+        logger.error(`Group creation error: ${groupResult.error}`);
+        return res.status(500).json(createError('Failed to create group'));
+      }
+
+      const summaryResult = await repositories.conversations.getSummary(
+        groupResult.data!.id,
+        userId
+      );
+      if (summaryResult.error || !summaryResult.data) {
+        logger.error(`Group summary error: ${summaryResult.error}`);
+        return res.status(500).json(createError('Failed to create group'));
+      }
+
+      const participantIds = summaryResult.data.participants.map(participant => participant.id);
+      realtime.sse.notifyConversationUpdated(
+        participantIds.filter(id => id !== userId),
+        groupResult.data!.id,
+        'created'
+      );
+
+      return res.status(201).json(createSuccess(summaryResult.data));
+    }
+  );
+
+  /**
+   * marks a conversation read up to a message, sending read receipts to the
+   * senders of every message that is now read
+   * @param req - express request with conversation id in params and message_id in body
+   * @param res - express response with the number of messages that changed status
+   */
+  conversationsRouter.post(
+    '/:conversationId/read',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const conversationIdResult = parseConversationIdParam(req.params['conversationId']);
+      if (conversationIdResult.error) {
+        return res.status(400).json(createError(conversationIdResult.error));
+      }
+
+      const messageIdResult = parseMarkReadBody(req.body);
+      if (messageIdResult.error) {
+        return res.status(400).json(createError(messageIdResult.error));
+      }
+
+      const conversationId = conversationIdResult.data!;
+      const readResult = await markConversationRead(
+        repositories,
+        realtime,
+        conversationId,
+        messageIdResult.data!,
+        userId
+      );
+      if (readResult.error) {
+        return res.status(readResult.status || 500).json(createError(readResult.error));
+      }
+
+      return res.json(createSuccess({ conversationId, updated: readResult.data! }));
+    }
+  );
+
+  /**
+   * gets a conversation with its participants
+   * @param req - express request with conversation id in params
+   * @param res - express response with the conversation summary
+   */
+  conversationsRouter.get(
+    '/:conversationId',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const conversationIdResult = parseConversationIdParam(req.params['conversationId']);
+      if (conversationIdResult.error) {
+        return res.status(400).json(createError(conversationIdResult.error));
+      }
+
+      const summaryResult = await repositories.conversations.getSummary(
+        conversationIdResult.data!,
+        userId
+      );
+      if (summaryResult.error) {
+        logger.error(`Get conversation error: ${summaryResult.error}`);
+        return res.status(500).json(createError('Failed to retrieve conversation'));
+      }
+
+      if (!summaryResult.data) {
+        return res.status(404).json(createError('Conversation not found'));
+      }
+
+      return res.json(createSuccess(summaryResult.data));
+    }
+  );
+
+  /**
+   * adds members to a group conversation; any member may invite others
+   * @param req - express request with conversation id in params and member ids in body
+   * @param res - express response with the ids of newly added members
+   */
+  conversationsRouter.post(
+    '/:conversationId/members',
+    authMiddleware,
+    validateRequest(addMembersValidationSchema),
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const conversationIdResult = parseConversationIdParam(req.params['conversationId']);
+      if (conversationIdResult.error) {
+        return res.status(400).json(createError(conversationIdResult.error));
+      }
+
+      const membersData = parseAddMembersBody(req.body);
+      if (membersData.error) {
+        return res.status(400).json(createError(membersData.error));
+      }
+
+      const conversationId = conversationIdResult.data!;
+      const groupResult = await resolveGroupMembership(repositories, conversationId, userId);
+      if (groupResult.error) {
+        return res.status(groupResult.status || 500).json(createError(groupResult.error));
+      }
+
+      const addResult = await repositories.conversations.addMembers(
+        conversationId,
+        membersData.data!.member_ids
+      );
+      if (addResult.error) {
+        logger.error(`Add members error: ${addResult.error}`);
+        return res.status(500).json(createError('Failed to add members'));
+      }
+
+      if (addResult.data!.length > 0) {
+        realtime.sse.notifyConversationUpdated(
+          [...groupResult.data!.participantIds, ...addResult.data!].filter(id => id !== userId),
+          conversationId,
+          'members-added'
+        );
+      }
+
+      return res.json(createSuccess({ added: addResult.data! }));
+    }
+  );
+
+  /**
+   * removes a member from a group conversation; only admins may remove others
+   * @param req - express request with conversation and user ids in params
+   * @param res - express response with success confirmation
+   */
+  conversationsRouter.delete(
+    '/:conversationId/members/:userId',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const conversationIdResult = parseConversationIdParam(req.params['conversationId']);
+      if (conversationIdResult.error) {
+        return res.status(400).json(createError(conversationIdResult.error));
+      }
+
+      const conversationId = conversationIdResult.data!;
+      const memberId = req.params['userId'];
+
+      if (!memberId) {
+        return res.status(400).json(createError('User ID is required'));
+      }
+
+      if (memberId === userId) {
+        return res.status(400).json(createError('Use the leave endpoint to leave a group'));
+      }
+
+      const groupResult = await resolveGroupMembership(repositories, conversationId, userId);
+      if (groupResult.error) {
+        return res.status(groupResult.status || 500).json(createError(groupResult.error));
+      }
+
+      if (groupResult.data!.role !== 'admin') {
+        return res.status(403).json(createError('Only group admins can remove members'));
+      }
+
+      if (!groupResult.data!.participantIds.includes(memberId)) {
+        return res.status(404).json(createError('User is not a member of this group'));
+      }
+
+      const removeResult = await repositories.conversations.removeMember(conversationId, memberId);
+      if (removeResult.error) {
+        logger.error(`Remove member error: ${removeResult.error}`);
+        return res.status(500).json(createError('Failed to remove member'));
+      }
+
+      realtime.sse.notifyConversationUpdated(
+        groupResult.data!.participantIds.filter(id => id !== userId),
+        conversationId,
+        'member-removed'
+      );
+
+      return res.json(createSuccess({ message: 'Member removed' }));
+    }
+  );
+
+  /**
+   * removes the authenticated user from a group conversation
+   * @param req - express request with conversation id in params
+   * @param res - express response with success confirmation
+   */
+  conversationsRouter.post(
+    '/:conversationId/leave',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const userId = req.user!.id;
+
+      const conversationIdResult = parseConversationIdParam(req.params['conversationId']);
+      if (conversationIdResult.error) {
+        return res.status(400).json(createError(conversationIdResult.error));
+      }
+
+      const conversationId = conversationIdResult.data!;
+      const groupResult = await resolveGroupMembership(repositories, conversationId, userId);
+      if (groupResult.error) {
+        return res.status(groupResult.status || 500).json(createError(groupResult.error));
+      }
+
+      const removeResult = await repositories.conversations.removeMember(conversationId, userId);
+      if (removeResult.error) {
+        logger.error(`Leave group error: ${removeResult.error}`);
+        return res.status(500).json(createError('Failed to leave group'));
+      }
+
+      realtime.sse.notifyConversationUpdated(
+        groupResult.data!.participantIds.filter(id => id !== userId),
+        conversationId,
+        'member-left'
+      );
+
+      return res.json(createSuccess({ message: 'Left group' }));
+    }
+  );
+
+  return conversationsRouter;
+}
@@ -1,10 +1,32 @@
 import { Router } from 'express';
-import { authRouter } from './auth.js';
-import { messagesRouter } from './messages.js';
-import { sseRouter } from './sse.js';
+import { createAuthRouter } from './auth.js';
+import { createMessagesRouter } from './messages.js';
+import { createConversationsRouter } from './conversations.js';
+import { createSseRouter } from './sse.js';
+import { createAttachmentsRouter } from './attachments.js';
+import { createPresenceRouter } from './presence.js';
+import { AttachmentStorage, Realtime, Repositories } from '../../types';
 
-export const apiRouter = Router();
+/**
+ * creates the combined api router
+ * @param repositories - persistence the routes read and write through
+ * @param realtime - event streams and typing state the routes notify
+ * @param storage - where attachments are stored
+ * @returns router with every api route
+ */
+export function createApiRouter(
+  repositories: Repositories,
+  realtime: Realtime,
+  storage: AttachmentStorage
+) {
+  const apiRouter = Router();
 
-apiRouter.use('/', authRouter);
-apiRouter.use('/messages', messagesRouter);
-apiRouter.use('/sse', sseRouter);
+  apiRouter.use('/', createAuthRouter(repositories, realtime));
+  apiRouter.use('/messages', createMessagesRouter(repositories, realtime, storage));
+  apiRouter.use('/conversations', createConversationsRouter(repositories, realtime));
+  apiRouter.use('/sse', createSseRouter(repositories, realtime));
+  apiRouter.use('/attachments', createAttachmentsRouter(repositories, storage));
+  apiRouter.use('/presence', createPresenceRouter(repositories, realtime));
+
+  return apiRouter;
+}
@@ -0,0 +1,374 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { createMemoryRepositories } from '../../db/repositories/memory';
+import { sendMessage } from '../../helpers/messages';
+import { startTestServer, TestServer, TestUser } from '../../test/server';
+
+describe('messagesRouter', () => {
+  const repositories = createMemoryRepositories();
+  let server: TestServer;
+  let alice: TestUser;
+  let bobby: TestUser;
+  let carol: TestUser;
+
+  before(async () => {
+    server = await startTestServer(repositories);
+    alice = await server.register('alice');
+    bobby = await server.register('bobby');
+    carol = await server.register('carol');
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const send = (from: TestUser, body: Record<string, unknown>) =>
+    server.request('POST', '/api/messages', { token: from.token, body });
+
+  describe('POST /api/messages', () => {
+    it('starts a direct conversation with the recipient', async () => {
+      const response = await send(alice, { content: 'hello bobby', recipient_id: bobby.id });
+
+      assert.equal(response.status, 201);
+      assert.equal(response.body.data.content, 'hello bobby');
+      assert.equal(response.body.data.sender_id, alice.id);
+      assert.equal(response.body.data.recipient_id, bobby.id);
+      assert.equal(response.body.data.status, 'sent');
+
+      const reply = await send(bobby, { content: 'hi alice', recipient_id: alice.id });
+      assert.equal(reply.body.data.conversation_id, response.body.data.conversation_id);
+    });
+
+    it('quotes a reply target from the same conversation only', async () => {
+      const original = await send(alice, { content: 'what time?', recipient_id: bobby.id });
+      const elsewhere = await send(alice, { content: 'unrelated', recipient_id: carol.id });
+
+      const reply = await send(bobby, {
+        content: 'noon',
+        conversation_id: original.body.data.conversation_id,
+        reply_to_id: original.body.data.id,
+      });
+      assert.equal(reply.status, 201);
+      assert.equal(reply.body.data.reply_to.content, 'what time?');
+      assert.equal(reply.body.data.reply_to.sender_username, 'alice');
+
+      const crossed = await send(bobby, {
+        content: 'noon',
+        conversation_id: original.body.data.conversation_id,
+        reply_to_id: elsewhere.body.data.id,
+      });
+      assert.equal(crossed.status, 400);
+    });
+
+    it("won't send to yourself or into someone else's conversation", async () => {
+      const self = await send(alice, { content: 'note to self', recipient_id: alice.id });
+      assert.equal(self.status, 400);
+
+      const direct = await send(alice, { content: 'private', recipient_id: bobby.id });
+      const intruder = await send(carol, {
+        content: 'let me in',
+        conversation_id: direct.body.data.conversation_id,
+      });
+      assert.equal(intruder.status, 404);
+    });
+
+    it('sends a message only once per client id, however often it is retried', async () => {
+      const clientId = randomUUID();
+      const body = { content: 'sent twice?', recipient_id: carol.id, client_id: clientId };
+
+      const first = await send(bobby, body);
+      assert.equal(first.status, 201);
+
+      const retry = await send(bobby, body);
+      assert.equal(retry.status, 200);
+      assert.equal(retry.body.data.id, first.body.data.id);
+      assert.equal(retry.body.data.content, 'sent twice?');
+
+      const thread = await server.request(
+        'GET',
+        `/api/conversations/${first.body.data.conversation_id}/messages`,
+        { token: carol.token }
+      );
+      const copies = thread.body.data.messages.filter(
+        (message: any) => message.content === 'sent twice?'
+      );
+      assert.equal(copies.length, 1);
+
+      // a retry racing the first attempt, as when a timed-out request is resent
+      const racingBody = { ...body, client_id: randomUUID() };
+      const racing = await Promise.all([
+        sendMessage(repositories, server.realtime, bobby, racingBody),
+        sendMessage(repositories, server.realtime, bobby, racingBody),
+      ]);
+      assert.deepEqual(racing.map(result => Boolean(result.replayed)).sort(), [false, true]);
+      assert.equal(racing[0].data!.id, racing[1].data!.id);
+
+      // the id belongs to the first message, not to whatever is sent with it next
+      const elsewhere = await send(bobby, { ...body, recipient_id: alice.id });
+      assert.equal(elsewhere.status, 409);
+
+      const otherSender = await send(alice, { ...body, recipient_id: carol.id });
+      assert.equal(otherSender.status, 201);
+      assert.notEqual(otherSender.body.data.id, first.body.data.id);
+    });
+
+    it('returns the reply preview and attachments again when a send is retried', async () => {
+      const quoted = await send(alice, { content: 'what to bring?', recipient_id: carol.id });
+      const conversationId = quoted.body.data.conversation_id;
+
+      const form = new FormData();
+      form.append('conversation_id', conversationId);
+      form.append('file', new Blob(['snacks'], { type: 'text/plain' }), 'list.txt');
+      const uploaded = await fetch(`${server.baseUrl}/api/attachments`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${carol.token}` },
+        body: form,
+      });
+      const { data: attachment } = (await uploaded.json()) as { data: { id: string } };
+
+      const body = {
+        content: 'this list',
+        conversation_id: conversationId,
+        reply_to_id: quoted.body.data.id,
+        attachment_ids: [attachment.id],
+        client_id: randomUUID(),
+      };
+      const first = await send(carol, body);
+      assert.equal(first.status, 201);
+      assert.equal(first.body.data.reply_to.content, 'what to bring?');
+      assert.equal(first.body.data.attachments[0].filename, 'list.txt');
+
+      const retry = await send(carol, body);
+      assert.equal(retry.status, 200);
+      assert.equal(retry.body.data.id, first.body.data.id);
+      assert.deepEqual(retry.body.data.reply_to, first.body.data.reply_to);
+      assert.deepEqual(retry.body.data.attachments, first.body.data.attachments);
+    });
+
+    it('requires a token', async () => {
+      const response = await server.request('POST', '/api/messages', {
+        body: { content: 'anonymous', recipient_id: bobby.id },
+      });
+
+      assert.equal(response.status, 401);
+    });
+  });
+
+  describe('GET /api/messages', () => {
+    it("lists the messages in the user's conversations", async () => {
+      const reader = await server.register('reader');
+      for (const content of ['one', 'two', 'three']) {
+        await send(reader, { content, recipient_id: alice.id });
+      }
+      await send(bobby, { content: 'not for reader', recipient_id: carol.id });
+
+      const all = await server.request('GET', '/api/messages', { token: reader.token });
+      assert.equal(all.status, 200);
+      assert.deepEqual(
+        all.body.data.messages.map((message: any) => message.content),
+        ['one', 'two', 'three']
+      );
+      assert.equal(all.body.data.has_older, false);
+      assert.equal(all.body.data.has_newer, false);
+    });
+  });
+
+  describe('GET /api/messages/conversation/:userId', () => {
+    it('returns the direct conversation with a user, oldest first', async () => {
+      const first = await server.register('first');
+      const second = await server.register('second');
+      await send(first, { content: 'ping', recipient_id: second.id });
+      await send(second, { content: 'pong', recipient_id: first.id });
+
+      const response = await server.request('GET', `/api/messages/conversation/${second.id}`, {
+        token: first.token,
+      });
+      assert.equal(response.status, 200);
+      assert.deepEqual(
+        response.body.data.messages.map((message: any) => message.content),
+        ['ping', 'pong']
+      );
+
+      const none = await server.request('GET', `/api/messages/conversation/${carol.id}`, {
+        token: first.token,
+      });
+      assert.deepEqual(none.body.data.messages, []);
+    });
+  });
+
+  describe('PATCH /api/messages/:messageId', () => {
+    it('lets the sender edit and keeps the history', async () => {
+      const sent = await send(alice, { content: 'typo', recipient_id: bobby.id });
+      const messageId = sent.body.data.id;
+
+      const notSender = await server.request('PATCH', `/api/messages/${messageId}`, {
+        token: bobby.token,
+        body: { content: 'hijacked' },
+      });
+      assert.equal(notSender.status, 403);
+
+      const edited = await server.request('PATCH', `/api/messages/${messageId}`, {
+        token: alice.token,
+        body: { content: 'fixed' },
+      });
+      assert.equal(edited.status, 200);
+      assert.equal(edited.body.data.content, 'fixed');
+      assert.ok(edited.body.data.edited_at);
+
+      const edits = await server.request('GET', `/api/messages/${messageId}/edits`, {
+        token: bobby.token,
+      });
+      assert.deepEqual(
+        edits.body.data.edits.map((edit: any) => edit.previous_content),
+        ['typo']
+      );
+    });
+
+    it('hides messages from users outside the conversation', async () => {
+      const sent = await send(alice, { content: 'secret', recipient_id: bobby.id });
+
+      const response = await server.request('PATCH', `/api/messages/${sent.body.data.id}`, {
+        token: carol.token,
+        body: { content: 'changed' },
+      });
+      assert.equal(response.status, 404);
+    });
+  });
+
+  describe('DELETE /api/messages/:messageId', () => {
+    it('leaves a tombstone that can no longer be edited or reacted to', async () => {
+      const sent = await send(alice, { content: 'regret', recipient_id: bobby.id });
+      const messageId = sent.body.data.id;
+
+      const deleted = await server.request('DELETE', `/api/messages/${messageId}`, {
+        token: alice.token,
+      });
+      assert.equal(deleted.status, 200);
+      assert.equal(deleted.body.data.content, '');
+      assert.ok(deleted.body.data.deleted_at);
+
+      const again = await server.request('DELETE', `/api/messages/${messageId}`, {
+        token: alice.token,
+      });
+      assert.equal(again.status, 410);
+
+      const edit = await server.request('PATCH', `/api/messages/${messageId}`, {
+        token: alice.token,
+        body: { content: 'undo' },
+      });
+      assert.equal(edit.status, 410);
+
+      const reaction = await server.request('POST', `/api/messages/${messageId}/reactions`, {
+        token: bobby.token,
+        body: { emoji: '👍' },
+      });
+      assert.equal(reaction.status, 410);
+    });
+  });
+
+  describe('reactions', () => {
+    it('adds and removes reactions, grouped by emoji', async () => {
+      const sent = await send(alice, { content: 'lunch?', recipient_id: bobby.id });
+      const path = `/api/messages/${sent.body.data.id}/reactions`;
+
+      await server.request('POST', path, { token: alice.token, body: { emoji: '👍' } });
+      const added = await server.request('POST', path, {
+        token: bobby.token,
+        body: { emoji: '👍' },
+      });
+      assert.equal(added.status, 200);
+      assert.equal(added.body.data.reactions.length, 1);
+      assert.equal(added.body.data.reactions[0].count, 2);
+
+      const removed = await server.request('DELETE', path, {
+        token: alice.token,
+        body: { emoji: '👍' },
+      });
+      assert.deepEqual(
+        removed.body.data.reactions[0].users.map((user: any) => user.username),
+        ['bobby']
+      );
+    });
+  });
+
+  describe('PATCH /api/messages/:messageId/read', () => {
+    it('marks the message and everything before it read', async () => {
+      const sender = await server.register('sender');
+      const first = await send(sender, { content: 'first', recipient_id: carol.id });
+      const second = await send(sender, { content: 'second', recipient_id: carol.id });
+
+      const bySender = await server.request('PATCH', `/api/messages/${second.body.data.id}/read`, {
+        token: sender.token,
+      });
+      assert.equal(bySender.status, 200);
+
+      let messages = await server.request('GET', '/api/messages', { token: sender.token });
+      assert.deepEqual(
+        messages.body.data.messages.map((message: any) => message.status),
+        ['sent', 'sent']
+      );
+
+      const read = await server.request('PATCH', `/api/messages/${second.body.data.id}/read`, {
+        token: carol.token,
+      });
+      assert.equal(read.status, 200);
+
+      messages = await server.request('GET', '/api/messages', { token: sender.token });
+      const statuses = new Map(
+        messages.body.data.messages.map((message: any) => [message.id, message.status])
+      );
+      assert.equal(statuses.get(first.body.data.id), 'read');
+      assert.equal(statuses.get(second.body.data.id), 'read');
+    });
+  });
+
+  describe('GET /api/messages/search', () => {
+    it("finds and highlights words in the user's own conversations", async () => {
+      const searcher = await server.register('searcher');
+      await send(searcher, { content: 'the quarterly report is due', recipient_id: alice.id });
+      await send(carol, { content: 'my own report', recipient_id: bobby.id });
+
+      const response = await server.request('GET', '/api/messages/search?q=report', {
+        token: searcher.token,
+      });
+      assert.equal(response.status, 200);
+      assert.equal(response.body.data.results.length, 1);
+      assert.equal(
+        response.body.data.results[0].snippet,
+        'the quarterly <mark>report</mark> is due'
+      );
+
+      const filtered = await server.request('GET', '/api/messages/search?q=report%20from:alice', {
+        token: searcher.token,
+      });
+      assert.deepEqual(filtered.body.data.results, []);
+    });
+
+    it('pages with a cursor', async () => {
+      const pager = await server.register('pager');
+      for (const n of [1, 2, 3]) {
+        await send(pager, { content: `budget ${n}`, recipient_id: bobby.id });
+      }
+
+      const first = await server.request('GET', '/api/messages/search?q=budget&limit=2', {
+        token: pager.token,
+      });
+      assert.deepEqual(
+        first.body.data.results.map((hit: any) => hit.snippet),
+        ['<mark>budget</mark> 3', '<mark>budget</mark> 2']
+      );
+
+      const next = await server.request(
+        'GET',
+        `/api/messages/search?q=budget&limit=2&cursor=${first.body.data.next_cursor}`,
+        { token: pager.token }
+      );
+      assert.deepEqual(
+        next.body.data.results.map((hit: any) => hit.snippet),
+        ['<mark>budget</mark> 1']
+      );
+      assert.equal(next.body.data.next_cursor, undefined);
+    });
+  });
+});
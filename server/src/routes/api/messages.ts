@@ -1,10 +1,4 @@
 import { Router } from 'express';
-import {
-  createMessage,
-  getUserMessages,
-  updateMessageStatus,
-  getConversationMessages,
-} from '../../db/operations';
 import {
   createSuccess,
   createError,
@@ -12,18 +6,28 @@ import {
   MessageFilterSchema,
 } from '@messaging/shared';
 import { validateRequest } from '../../middleware/validation';
-import { sseManager } from '../../helpers/sse';
-import { parseCreateMessageBody, parseMessageFilterQuery } from '../../helpers/messages';
+import {
+  parseCreateMessageBody,
+  parseMessageFilterQuery,
+  parseEditMessageBody,
+  parseMessageIdParam,
+  parseReactionBody,
+  parseMessageSearchQuery,
+  encodeMessageCursor,
+  parseMessagePageQuery,
+  buildMessagePage,
+  resolveMessageAccess,
+  sendMessage,
+} from '../../helpers/messages';
+import { purgeMessageAttachments } from '../../helpers/attachments';
+import { recordReceipts } from '../../helpers/receipts';
+import { config } from '../../config/index.js';
 import { createAuthMiddleware } from '../../helpers/middleware';
-import { AuthenticatedRequest } from '../../types';
+import { AttachmentStorage, AuthenticatedRequest, Realtime, Repositories } from '../../types';
 import pino from 'pino';
 
 const logger = pino();
 
-const authMiddleware = createAuthMiddleware();
-
-export const messagesRouter = Router();
-
 const sendMessageValidationSchema = {
   body: CreateMessageSchema,
 };
@@ -33,137 +37,437 @@ const getMessagesValidationSchema = {
 };
 
 /**
- * sends a new message to another user
- * @param req - express request with message content and recipient id
- * @param res - express response with created message data
+ * creates the message routes
+ * @param repositories - persistence the routes read and write through
+ * @param realtime - event streams and typing state the routes notify
+ * @param storage - where attachments of deleted messages are removed from
+ * @returns router mounted at /api/messages
  */
-messagesRouter.post(
-  '/',
-  authMiddleware,
-  validateRequest(sendMessageValidationSchema),
-  async (req: AuthenticatedRequest, res) => {
-    const messageData = parseCreateMessageBody(req.body);
-    if (messageData.error) {
-      return res.status(400).json(createError(messageData.error));
+export function createMessagesRouter(
+  repositories: Repositories,
+  realtime: Realtime,
+  storage: AttachmentStorage
+) {
+  const authMiddleware = createAuthMiddleware(repositories);
+  const messagesRouter = Router();
+
+  /**
+   * sends a new message to a conversation, or to another user's direct conversation
+   * @param req - express request with message content, conversation or recipient id, optional reply target and attachments, and an optional client_id idempotency key
+   * @param res - express response with created message data
+   */
+  messagesRouter.post(
+    '/',
+    authMiddleware,
+    validateRequest(sendMessageValidationSchema),
+    async (req: AuthenticatedRequest, res) => {
+      const messageData = parseCreateMessageBody(req.body);
+      if (messageData.error) {
+        return res.status(400).json(createError(messageData.error));
+      }
+
+      const messageResult = await sendMessage(repositories, realtime, req.user!, messageData.data!);
+      if (messageResult.error) {
+        return res.status(messageResult.status || 500).json(createError(messageResult.error));
+      }
+
+      // a retry of an earlier send gets the original message back
+      res.status(messageResult.replayed ? 200 : 201).json(createSuccess(messageResult.data!));
+    }
+  );
+
+  /**
+   * gets a page of messages across the authenticated user's conversations,
+   * the latest unless a before or after cursor is given
+   * @param req - express request with optional limit, before or after cursor
+   * @param res - express response with messages oldest first and paging cursors
+   */
+  messagesRouter.get(
+    '/',
+    authMiddleware,
+    validateRequest(getMessagesValidationSchema),
+    async (req: AuthenticatedRequest, res) => {
+      const filterData = parseMessageFilterQuery(req.query);
+      if (filterData.error) {
+        return res.status(400).json(createError(filterData.error));
+      }
+
+      const { status: _status, ...page } = filterData.data!;
+      // fetch one extra row to know whether another page exists
+      const messagesResult = await repositories.messages.listForUser(req.user.id, {
+        ...page,
+        limit: page.limit + 1,
+      });
+
+      if (messagesResult.error) {
+        console.error('Get messages error:', messagesResult.error);
+        return res.status(500).json(createError('Failed to retrieve messages'));
+      }
+
+      res.json(createSuccess(buildMessagePage(messagesResult.data!, page)));
     }
+  );
 
-    if (req.user.id === messageData.data!.recipient_id) {
-      return res.status(400).json(createError('Cannot send message to yourself'));
+  /**
+   * searches messages in the authenticated user's conversations
+   * @param req - express request with q (text plus from:/with:/before:/after: filters), limit and cursor
+   * @param res - express response with highlighted hits, newest first, and the next page cursor
+   */
+  messagesRouter.get('/search', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const searchData = parseMessageSearchQuery(req.query);
+    if (searchData.error) {
+      return res.status(400).json(createError(searchData.error));
     }
 
-    const messageResult = await createMessage({
-      content: messageData.data!.content,
-      sender_id: req.user.id,
-      recipient_id: messageData.data!.recipient_id,
+    const search = searchData.data!;
+    // fetch one extra row to know whether another page exists
+    const searchResult = await repositories.messages.search(req.user!.id, {
+      ...search,
+      limit: search.limit + 1,
     });
+    if (searchResult.error) {
+      logger.error(`Message search error: ${searchResult.error}`);
+      return res.status(500).json(createError('Failed to search messages'));
+    }
+
+    const rows = searchResult.data!;
+    const page = rows.slice(0, search.limit);
+    const last = page[page.length - 1];
+
+    return res.json(
+      createSuccess({
+        results: page.map(({ cursor_created_at: _cursor, ...hit }) => hit),
+        next_cursor:
+          rows.length > search.limit && last
+            ? encodeMessageCursor({ created_at: last.cursor_created_at, id: last.id })
+            : undefined,
+      })
+    );
+  });
 
-    if (messageResult.error) {
-      logger.error('Message creation error:', messageResult.error);
-      return res.status(500).json(createError('Failed to send message'));
+  /**
+   * marks a message, and everything before it in its conversation, as read by
+   * the authenticated user
+   * @param req - express request with message id in params
+   * @param res - express response with success confirmation
+   */
+  messagesRouter.patch(
+    '/:messageId/read',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const messageIdResult = parseMessageIdParam(req.params['messageId']);
+      if (messageIdResult.error) {
+        return res.status(400).json(createError(messageIdResult.error));
+      }
+
+      const access = await resolveMessageAccess(repositories, messageIdResult.data!, req.user!.id);
+      if (access.error) {
+        return res.status(access.status || 500).json(createError(access.error));
+      }
+
+      const { message } = access.data!;
+      const readResult = await recordReceipts(
+        repositories,
+        realtime,
+        message.conversation_id!,
+        message.id,
+        [req.user!.id],
+        'read'
+      );
+      if (readResult.error) {
+        return res.status(500).json(createError('Failed to mark message as read'));
+      }
+
+      return res.json(createSuccess({ message: 'Message marked as read' }));
     }
+  );
 
-    sseManager.notifyNewMessage(req.user.id, messageData.data!.recipient_id, {
-      ...messageResult.data!,
-      sender_username: req.user.username,
-    });
+  /**
+   * edits the content of a message sent by the authenticated user
+   * @param req - express request with message id in params and new content in body
+   * @param res - express response with the edited message
+   */
+  messagesRouter.patch('/:messageId', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const messageIdResult = parseMessageIdParam(req.params['messageId']);
+    if (messageIdResult.error) {
+      return res.status(400).json(createError(messageIdResult.error));
+    }
 
-    res.status(201).json(createSuccess(messageResult.data!));
-  }
-);
+    const contentResult = parseEditMessageBody(req.body);
+    if (contentResult.error) {
+      return res.status(400).json(createError(contentResult.error));
+    }
 
-/**
- * gets all messages for the authenticated user
- * @param req - express request with optional filter parameters
- * @param res - express response with user's messages
- */
-messagesRouter.get(
-  '/',
-  authMiddleware,
-  validateRequest(getMessagesValidationSchema),
-  async (req: AuthenticatedRequest, res) => {
-    const filterData = parseMessageFilterQuery(req.query);
-    if (filterData.error) {
-      return res.status(400).json(createError(filterData.error));
-    }
-
-    const messagesResult = await getUserMessages(req.user.id, {
-      limit: filterData.data!.limit,
-      cursor: filterData.data!.cursor,
-    });
+    const access = await resolveMessageAccess(repositories, messageIdResult.data!, req.user!.id);
+    if (access.error) {
+      return res.status(access.status || 500).json(createError(access.error));
+    }
 
-    if (messagesResult.error) {
-      console.error('Get messages error:', messagesResult.error);
-      return res.status(500).json(createError('Failed to retrieve messages'));
+    const { message, participantIds } = access.data!;
+
+    if (message.sender_id !== req.user!.id) {
+      return res.status(403).json(createError('You can only edit your own messages'));
     }
 
-    res.json(createSuccess(messagesResult.data!));
-  }
-);
+    if (message.deleted_at) {
+      return res.status(410).json(createError('Message has been deleted'));
+    }
 
-/**
- * marks a message as read by the authenticated user
- * @param req - express request with message id in params
- * @param res - express response with success confirmation
- */
-messagesRouter.patch('/:messageId/read', authMiddleware, async (req: any, res) => {
-  const messageId = req.params.messageId;
+    const editResult = await repositories.messages.edit(
+      message.id,
+      req.user!.id,
+      contentResult.data!,
+      config.messages.editWindowSeconds
+    );
+
+    if (editResult.error) {
+      logger.error(`Message edit error: ${editResult.error}`);
+      return res.status(500).json(createError('Failed to edit message'));
+    }
 
-  if (!messageId) {
-    return res.status(400).json(createError('Message ID is required'));
-  }
+    // the window is enforced in the update itself, so a miss here means it has passed
+    if (!editResult.data) {
+      return res.status(403).json(createError('Message can no longer be edited'));
+    }
 
-  const updateResult = await updateMessageStatus(messageId, 'read', req.user.id);
-  if (updateResult.error) {
-    console.error('Message status update error:', updateResult.error);
-    return res.status(500).json(createError('Failed to mark message as read'));
-  }
+    const edited = { ...editResult.data, sender_username: req.user!.username };
+    realtime.sse.notifyMessageEdited(participantIds, edited);
 
-  res.json(createSuccess({ message: 'Message marked as read' }));
-});
+    return res.json(createSuccess(edited));
+  });
 
-/**
- * gets conversation messages between authenticated user and specific user
- * @param req - express request with user id in params and optional cursor/limit
- * @param res - express response with conversation messages
- */
-messagesRouter.get('/conversation/:userId', authMiddleware, async (req: any, res) => {
-  const { userId } = req.params;
-  const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-  const cursor = req.query.cursor as string;
-
-  if (!userId) {
-    return res.status(400).json(createError('User ID is required'));
-  }
-
-  if (userId === req.user.id) {
-    return res.status(400).json(createError('Cannot get conversation with yourself'));
-  }
-
-  const conversationResult = await getConversationMessages(
-    req.user.id,
-    userId,
-    limit,
-    cursor
+  /**
+   * deletes a message sent by the authenticated user, leaving a tombstone
+   * @param req - express request with message id in params
+   * @param res - express response with the deleted message
+   */
+  messagesRouter.delete('/:messageId', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const messageIdResult = parseMessageIdParam(req.params['messageId']);
+    if (messageIdResult.error) {
+      return res.status(400).json(createError(messageIdResult.error));
+    }
+
+    const access = await resolveMessageAccess(repositories, messageIdResult.data!, req.user!.id);
+    if (access.error) {
+      return res.status(access.status || 500).json(createError(access.error));
+    }
+
+    const { message, participantIds } = access.data!;
+
+    if (message.sender_id !== req.user!.id) {
+      return res.status(403).json(createError('You can only delete your own messages'));
+    }
+
+    if (message.deleted_at) {
+      return res.status(410).json(createError('Message has already been deleted'));
+    }
+
+    const deleteResult = await repositories.messages.delete(message.id, req.user!.id);
+    if (deleteResult.error) {
+      logger.error(`Message delete error: ${deleteResult.error}`);
+      return res.status(500).json(createError('Failed to delete message'));
+    }
+
+    if (!deleteResult.data) {
+      return res.status(410).json(createError('Message has already been deleted'));
+    }
+
+    await purgeMessageAttachments(repositories, storage, message.id);
+
+    realtime.sse.notifyMessageDeleted(participantIds, message.id, message.conversation_id!);
+
+    return res.json(createSuccess(deleteResult.data));
+  });
+
+  /**
+   * gets the previous versions of an edited message
+   * @param req - express request with message id in params
+   * @param res - express response with edit history, oldest first
+   */
+  messagesRouter.get(
+    '/:messageId/edits',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const messageIdResult = parseMessageIdParam(req.params['messageId']);
+      if (messageIdResult.error) {
+        return res.status(400).json(createError(messageIdResult.error));
+      }
+
+      const access = await resolveMessageAccess(repositories, messageIdResult.data!, req.user!.id);
+      if (access.error) {
+        return res.status(access.status || 500).json(createError(access.error));
+      }
+
+      const editsResult = await repositories.messages.getEdits(access.data!.message.id);
+      if (editsResult.error) {
+        logger.error(`Message edits error: ${editsResult.error}`);
+        return res.status(500).json(createError('Failed to retrieve edit history'));
+      }
+
+      return res.json(createSuccess({ edits: editsResult.data! }));
+    }
   );
 
-  if (conversationResult.error) {
-    console.error('Get conversation error:', conversationResult.error);
-    return res.status(500).json(createError('Failed to retrieve conversation'));
-  }
+  /**
+   * adds the authenticated user's emoji reaction to a message
+   * @param req - express request with message id in params and emoji in body
+   * @param res - express response with the message's updated reactions
+   */
+  messagesRouter.post(
+    '/:messageId/reactions',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const messageIdResult = parseMessageIdParam(req.params['messageId']);
+      if (messageIdResult.error) {
+        return res.status(400).json(createError(messageIdResult.error));
+      }
 
-  res.json(createSuccess(conversationResult.data));
-});
+      const emojiResult = parseReactionBody(req.body);
+      if (emojiResult.error) {
+        return res.status(400).json(createError(emojiResult.error));
+      }
 
-/**
- * health check endpoint for messages service
- * @param _req - express request (unused)
- * @param res - express response with service status
- */
-messagesRouter.get('/health', (_req, res) => {
-  res.json(
-    createSuccess({
-      status: 'Messages service healthy',
-      timestamp: new Date().toISOString(),
-    })
+      const access = await resolveMessageAccess(repositories, messageIdResult.data!, req.user!.id);
+      if (access.error) {
+        return res.status(access.status || 500).json(createError(access.error));
+      }
+
+      const { message, participantIds } = access.data!;
+
+      if (message.deleted_at) {
+        return res.status(410).json(createError('Message has been deleted'));
+      }
+
+      const reactionsResult = await repositories.messages.addReaction(
+        message.id,
+        req.user!.id,
+        emojiResult.data!
+      );
+      if (reactionsResult.error) {
+        logger.error(`Add reaction error: ${reactionsResult.error}`);
+        return res.status(500).json(createError('Failed to add reaction'));
+      }
+
+      realtime.sse.notifyReactionUpdated(
+        participantIds,
+        message.id,
+        message.conversation_id!,
+        reactionsResult.data!
+      );
+
+      return res.json(createSuccess({ messageId: message.id, reactions: reactionsResult.data! }));
+    }
   );
-});
+
+  /**
+   * removes the authenticated user's emoji reaction from a message
+   * @param req - express request with message id in params and emoji in body
+   * @param res - express response with the message's updated reactions
+   */
+  messagesRouter.delete(
+    '/:messageId/reactions',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const messageIdResult = parseMessageIdParam(req.params['messageId']);
+      if (messageIdResult.error) {
+        return res.status(400).json(createError(messageIdResult.error));
+      }
+
+      const emojiResult = parseReactionBody(req.body);
+      if (emojiResult.error) {
+        return res.status(400).json(createError(emojiResult.error));
+      }
+
+      const access = await resolveMessageAccess(repositories, messageIdResult.data!, req.user!.id);
+      if (access.error) {
+        return res.status(access.status || 500).json(createError(access.error));
+      }
+
+      const { message, participantIds } = access.data!;
+
+      const reactionsResult = await repositories.messages.removeReaction(
+        message.id,
+        req.user!.id,
+        emojiResult.data!
+      );
+      if (reactionsResult.error) {
+        logger.error(`Remove reaction error: ${reactionsResult.error}`);
+        return res.status(500).json(createError('Failed to remove reaction'));
+      }
+
+      realtime.sse.notifyReactionUpdated(
+        participantIds,
+        message.id,
+        message.conversation_id!,
+        reactionsResult.data!
+      );
+
+      return res.json(createSuccess({ messageId: message.id, reactions: reactionsResult.data! }));
+    }
+  );
+
+  /**
+   * gets conversation messages between authenticated user and specific user
+   * @param req - express request with user id in params, optional limit and before/after cursor
+   * @param res - express response with conversation messages oldest first and paging cursors
+   */
+  messagesRouter.get(
+    '/conversation/:userId',
+    authMiddleware,
+    async (req: AuthenticatedRequest, res) => {
+      const { userId } = req.params;
+
+      if (!userId) {
+        return res.status(400).json(createError('User ID is required'));
+      }
+
+      if (userId === req.user!.id) {
+        return res.status(400).json(createError('Cannot get conversation with yourself'));
+      }
+
+      const pageData = parseMessagePageQuery(req.query);
+      if (pageData.error) {
+        return res.status(400).json(createError(pageData.error));
+      }
+      const page = pageData.data!;
+
+      const directResult = await repositories.conversations.getDirect(req.user!.id, userId);
+      if (directResult.error) {
+        logger.error(`Get conversation error: ${directResult.error}`);
+        return res.status(500).json(createError('Failed to retrieve conversation'));
+      }
+
+      if (!directResult.data) {
+        return res.json(createSuccess(buildMessagePage([], page)));
+      }
+
+      const conversationResult = await repositories.messages.listForConversation(
+        directResult.data.id,
+        { ...page, limit: page.limit + 1 }
+      );
+
+      if (conversationResult.error) {
+        logger.error(`Get conversation error: ${conversationResult.error}`);
+        return res.status(500).json(createError('Failed to retrieve conversation'));
+      }
+
+      return res.json(createSuccess(buildMessagePage(conversationResult.data!, page)));
+    }
+  );
+
+  /**
+   * health check endpoint for messages service
+   * @param _req - express request (unused)
+   * @param res - express response with service status
+   */
+  messagesRouter.get('/health', (_req, res) => {
+    res.json(
+      createSuccess({
+        status: 'Messages service healthy',
+        timestamp: new Date().toISOString(),
+      })
+    );
+  });
+
+  return messagesRouter;
+}
@@ -0,0 +1,249 @@
+import { before, after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { closeDatabasePool } from '../../db';
+import { migrateDatabase } from '../../db/migrate';
+import { createMemoryRepositories } from '../../db/repositories/memory';
+import { createPostgresRepositories } from '../../db/repositories/postgres';
+import { startTestServer, TestServer, TestUser } from '../../test/server';
+import { Repositories } from '../../types';
+
+interface SentMessage {
+  id: string;
+  created_at: string;
+}
+
+/**
+ * seeded random numbers in [0, 1), so a failing run can be replayed from its seed
+ */
+const seeded = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const between = (random: () => number, min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+
+const chronological = (messages: SentMessage[]) =>
+  [...messages]
+    .sort((a, b) =>
+      a.created_at === b.created_at
+        ? a.id.localeCompare(b.id)
+        : a.created_at.localeCompare(b.created_at)
+    )
+    .map(message => message.id);
+
+interface PagingBackend {
+  name: string;
+  skip?: string | false;
+  setUp?: () => Promise<void>;
+  tearDown?: () => Promise<void>;
+  // repositories to page, stamping rows with the test clock if they can
+  createRepositories: (clock: () => Date) => Repositories;
+  // the order the backend should page sent messages in, oldest first
+  order: (messages: SentMessage[]) => string[];
+}
+
+const backends: PagingBackend[] = [
+  {
+    name: 'memory',
+    createRepositories: clock => createMemoryRepositories({ clock }),
+    order: chronological,
+  },
+  {
+    // postgres stamps rows itself, to the microsecond, so messages sent one
+    // after another page in the order they were sent
+    name: 'postgres',
+    skip: !process.env['DATABASE_URL'] && 'needs DATABASE_URL',
+    setUp: async () => {
+      const migrated = await migrateDatabase();
+      assert.ifError(migrated.error);
+    },
+    tearDown: async () => {
+      await closeDatabasePool();
+    },
+    createRepositories: () => createPostgresRepositories(),
+    order: messages => messages.map(message => message.id),
+  },
+];
+
+for (const backend of backends) {
+  describe(`message paging on ${backend.name}`, { skip: backend.skip }, () => {
+    let server: TestServer;
+    let alice: TestUser;
+    let bobby: TestUser;
+    let carol: TestUser;
+    // the clock only moves when a test moves it, so many messages share a timestamp
+    let clockTime = Date.now();
+    // usernames stay unique in a database earlier runs left users in
+    const suffix = crypto.randomBytes(4).toString('hex');
+
+    before(async () => {
+      await backend.setUp?.();
+      server = await startTestServer(backend.createRepositories(() => new Date(clockTime)));
+      alice = await server.register(`alice_${suffix}`);
+      bobby = await server.register(`bobby_${suffix}`);
+      carol = await server.register(`carol_${suffix}`);
+    });
+
+    after(async () => {
+      await server?.close();
+      await backend.tearDown?.();
+    });
+
+    const createGroup = async (owner: TestUser, name: string) => {
+      const response = await server.request('POST', '/api/conversations/groups', {
+        token: owner.token,
+        body: { name, member_ids: [bobby.id] },
+      });
+      assert.equal(response.status, 201);
+      return response.body.data.id as string;
+    };
+
+    /**
+     * sends count messages from the owner or bobby into a group, moving the
+     * clock on by a millisecond before only some of them
+     */
+    const sendBurst = async (
+      random: () => number,
+      owner: TestUser,
+      conversationId: string,
+      count: number
+    ) => {
+      const sent: SentMessage[] = [];
+      for (let n = 0; n < count; n++) {
+        if (random() < 0.25) clockTime += 1;
+
+        const response = await server.request('POST', '/api/messages', {
+          token: random() < 0.5 ? owner.token : bobby.token,
+          body: { content: `message ${n}`, conversation_id: conversationId },
+        });
+        assert.equal(response.status, 201);
+        sent.push({ id: response.body.data.id, created_at: response.body.data.created_at });
+      }
+      return sent;
+    };
+
+    /**
+     * walks back from the latest page along prev_cursor until has_older is
+     * false, then forward from the oldest page along next_cursor until
+     * has_newer is false, picking a new page size for every request
+     * @returns message ids each walk saw, oldest first
+     */
+    const walk = async (random: () => number, user: TestUser, path: string, expected: number) => {
+      const fetchPage = async (cursor = '') => {
+        const query = `?limit=${between(random, 1, 8)}${cursor}`;
+        const response = await server.request('GET', `${path}${query}`, { token: user.token });
+        assert.equal(response.status, 200);
+        return response.body.data;
+      };
+      const ids = (page: any): string[] => page.messages.map((message: any) => message.id);
+      // every page but the last holds at least one message
+      const maxPages = expected + 1;
+
+      let page = await fetchPage();
+      assert.equal(page.has_newer, false);
+      const backward = ids(page);
+      for (let pages = 1; page.has_older; pages++) {
+        assert.ok(pages <= maxPages, 'backward walk did not end');
+        page = await fetchPage(`&before=${page.prev_cursor}`);
+        backward.unshift(...ids(page));
+      }
+
+      const forward = ids(page);
+      for (let pages = 1; page.has_newer; pages++) {
+        assert.ok(pages <= maxPages, 'forward walk did not end');
+        page = await fetchPage(`&after=${page.next_cursor}`);
+        forward.push(...ids(page));
+      }
+
+      return { backward, forward };
+    };
+
+    it('pages a conversation both ways without gaps or repeats', async () => {
+      for (let seed = 1; seed <= 25; seed++) {
+        const random = seeded(seed);
+        const conversationId = await createGroup(alice, `group ${seed}`);
+        const sent = await sendBurst(random, alice, conversationId, between(random, 0, 30));
+
+        const { backward, forward } = await walk(
+          random,
+          alice,
+          `/api/conversations/${conversationId}/messages`,
+          sent.length
+        );
+        assert.deepEqual(backward, backend.order(sent), `backward walk, seed ${seed}`);
+        assert.deepEqual(forward, backend.order(sent), `forward walk, seed ${seed}`);
+      }
+    });
+
+    it("pages all of a user's messages both ways without gaps or repeats", async () => {
+      const random = seeded(100);
+      const groups = [await createGroup(carol, 'first'), await createGroup(carol, 'second')];
+      const sent: SentMessage[] = [];
+
+      for (let run = 1; run <= 8; run++) {
+        const conversationId = groups[between(random, 0, groups.length - 1)]!;
+        sent.push(...(await sendBurst(random, carol, conversationId, between(random, 1, 20))));
+
+        const { backward, forward } = await walk(random, carol, '/api/messages', sent.length);
+        assert.deepEqual(backward, backend.order(sent), `backward walk, run ${run}`);
+        assert.deepEqual(forward, backend.order(sent), `forward walk, run ${run}`);
+      }
+    });
+
+    it('catches up on messages newer than a cursor', async () => {
+      const random = seeded(200);
+      const conversationId = await createGroup(alice, 'catch up');
+      const path = `/api/conversations/${conversationId}/messages`;
+      await sendBurst(random, alice, conversationId, 5);
+
+      const latest = await server.request('GET', `${path}?limit=3`, { token: alice.token });
+      assert.equal(latest.body.data.has_older, true);
+
+      clockTime += 1;
+      const missed = await sendBurst(random, alice, conversationId, 4);
+
+      const caughtUp = await server.request(
+        'GET',
+        `${path}?limit=10&after=${latest.body.data.next_cursor}`,
+        { token: alice.token }
+      );
+      assert.deepEqual(
+        caughtUp.body.data.messages.map((message: any) => message.id),
+        backend.order(missed)
+      );
+      assert.equal(caughtUp.body.data.has_newer, false);
+      assert.equal(caughtUp.body.data.has_older, true);
+    });
+
+    it('rejects malformed or conflicting cursors', async () => {
+      const conversationId = await createGroup(alice, 'bad cursors');
+      const path = `/api/conversations/${conversationId}/messages`;
+      await sendBurst(seeded(300), alice, conversationId, 2);
+      const page = await server.request('GET', `${path}?limit=1`, { token: alice.token });
+      const { prev_cursor, next_cursor } = page.body.data;
+
+      const both = await server.request(
+        'GET',
+        `${path}?before=${prev_cursor}&after=${next_cursor}`,
+        {
+          token: alice.token,
+        }
+      );
+      assert.equal(both.status, 400);
+
+      const garbled = await server.request('GET', `${path}?before=not-a-cursor`, {
+        token: alice.token,
+      });
+      assert.equal(garbled.status, 400);
+
+      const userMessages = await server.request('GET', '/api/messages?after=not-a-cursor', {
+        token: alice.token,
+      });
+      assert.equal(userMessages.status, 400);
+    });
+  });
+}
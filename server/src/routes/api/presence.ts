@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { createSuccess, createError, SetStatusSchema } from '@messaging/shared';
+import { validateRequest } from '../../middleware/validation';
+import {
+  getContactsPresence,
+  parseSetStatusBody,
+  recordActivity,
+  updateStatus,
+} from '../../helpers/presence';
+import { createAuthMiddleware } from '../../helpers/middleware';
+import { AuthenticatedRequest, Realtime, Repositories } from '../../types';
+import pino from 'pino';
+
+const logger = pino();
+
+const setStatusValidationSchema = {
+  body: SetStatusSchema,
+};
+
+/**
+ * creates the presence and status routes
+ * @param repositories - persistence the routes read and write through
+ * @param realtime - event streams and typing state the routes notify
+ * @returns router mounted at /api/presence
+ */
+export function createPresenceRouter(repositories: Repositories, realtime: Realtime) {
+  const authMiddleware = createAuthMiddleware(repositories);
+  const presenceRouter = Router();
+
+  /**
+   * gets the presence of everyone the authenticated user shares a conversation with
+   * @param req - express request with authorization header
+   * @param res - express response with each contact's state, status and last seen time
+   */
+  presenceRouter.get('/', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const presenceResult = await getContactsPresence(repositories, realtime, req.user!.id);
+
+    if (presenceResult.error) {
+      logger.error(`Get presence error: ${presenceResult.error}`);
+      return res.status(500).json(createError('Failed to retrieve presence'));
+    }
+
+    return res.json(createSuccess({ presence: presenceResult.data! }));
+  });
+
+  /**
+   * sets the authenticated user's status, optionally with a message and expiry
+   * @param req - express request with status, message and expires_at in body
+   * @param res - express response with the user's presence
+   */
+  presenceRouter.put(
+    '/status',
+    authMiddleware,
+    validateRequest(setStatusValidationSchema),
+    async (req: AuthenticatedRequest, res) => {
+      const statusData = parseSetStatusBody(req.body);
+      if (statusData.error) {
+        return res.status(400).json(createError(statusData.error));
+      }
+
+      const statusResult = await updateStatus(
+        repositories,
+        realtime,
+        req.user!.id,
+        statusData.data!
+      );
+
+      if (statusResult.error) {
+        logger.error(`Set status error: ${statusResult.error}`);
+        return res.status(500).json(createError('Failed to set status'));
+      }
+
+      return res.json(createSuccess(statusResult.data!));
+    }
+  );
+
+  /**
+   * records that the authenticated user is active, for clients without a websocket
+   * @param req - express request with authorization header
+   * @param res - express response with success confirmation
+   */
+  presenceRouter.post('/activity', authMiddleware, async (req: AuthenticatedRequest, res) => {
+    const activityResult = await recordActivity(repositories, realtime, req.user!.id);
+
+    if (activityResult.error) {
+      logger.error(`Record activity error: ${activityResult.error}`);
+      return res.status(500).json(createError('Failed to record activity'));
+    }
+
+    return res.json(createSuccess({ recorded: true }));
+  });
+
+  return presenceRouter;
+}
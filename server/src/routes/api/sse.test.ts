@@ -0,0 +1,294 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { REALTIME_PROTOCOL_VERSION } from '@messaging/shared';
+import { config } from '../../config/index.js';
+import { EventStream, openEventStream } from '../../test/events';
+import { startTestServer, TestServer, TestUser } from '../../test/server';
+
+describe('sseRouter', () => {
+  let server: TestServer;
+  let alice: TestUser;
+  let bobby: TestUser;
+  const streams: EventStream[] = [];
+
+  before(async () => {
+    server = await startTestServer();
+    alice = await server.register('alice');
+    bobby = await server.register('bobby');
+  });
+
+  after(async () => {
+    streams.forEach(stream => stream.close());
+    await server.close();
+  });
+
+  const openStream = async (user: TestUser, params = '') => {
+    const stream = await openEventStream(server, user, params);
+    streams.push(stream);
+    return stream;
+  };
+
+  const statusOf = async (user: TestUser, messageId: string) => {
+    const response = await server.request('GET', '/api/messages', { token: user.token });
+    return response.body.data.messages.find((message: any) => message.id === messageId)?.status;
+  };
+
+  describe('authentication', () => {
+    it('needs a bearer token for a session and a session for the stream', async () => {
+      const noToken = await server.request('POST', '/api/sse/session');
+      assert.equal(noToken.status, 401);
+
+      const noSession = await server.request('GET', '/api/sse/events');
+      assert.equal(noSession.status, 401);
+
+      const badSession = await server.request('GET', '/api/sse/events?session=nope');
+      assert.equal(badSession.status, 401);
+    });
+  });
+
+  describe('GET /api/sse/events', () => {
+    it('greets the client, then delivers new messages and tells the sender', async () => {
+      const aliceStream = await openStream(alice);
+      const bobbyStream = await openStream(bobby);
+      assert.equal(bobbyStream.status, 200);
+
+      const connected = await bobbyStream.next('connected');
+      assert.equal(connected.data.userId, bobby.id);
+
+      const sent = await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'are you there?', recipient_id: bobby.id },
+      });
+
+      const received = await bobbyStream.next('new-message');
+      assert.equal(received.data.senderId, alice.id);
+      assert.equal(received.data.message.content, 'are you there?');
+      assert.equal(received.data.message.sender_username, 'alice');
+
+      const receipt = await aliceStream.next('receipt');
+      assert.deepEqual(receipt.data.messageIds, [sent.body.data.id]);
+      assert.equal(receipt.data.status, 'delivered');
+      assert.equal(await statusOf(alice, sent.body.data.id), 'delivered');
+
+      aliceStream.close();
+      bobbyStream.close();
+    });
+
+    it('marks messages sent while offline delivered once the stream opens', async () => {
+      const dolly = await server.register('dolly');
+      const sent = await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'see this later', recipient_id: dolly.id },
+      });
+      assert.equal(await statusOf(alice, sent.body.data.id), 'sent');
+
+      const aliceStream = await openStream(alice);
+      await aliceStream.next('connected');
+      await openStream(dolly);
+
+      const receipt = await aliceStream.next('receipt');
+      assert.deepEqual(receipt.data.messageIds, [sent.body.data.id]);
+      assert.equal(await statusOf(alice, sent.body.data.id), 'delivered');
+
+      aliceStream.close();
+    });
+
+    it('replays events missed since the last event id', async () => {
+      const first = await openStream(bobby);
+      await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'before the drop', recipient_id: bobby.id },
+      });
+      const seen = await first.next('new-message');
+      first.close();
+
+      await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'while away', recipient_id: bobby.id },
+      });
+
+      const resumed = await openStream(bobby, `&since=${seen.id}`);
+      const replayed = await resumed.next('new-message');
+      assert.equal(replayed.data.message.content, 'while away');
+
+      resumed.close();
+    });
+
+    it('forgets the logs of offline users once the replay window passes', async () => {
+      const ghost = await server.register('ghost');
+      const first = await openStream(ghost);
+      await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'before leaving', recipient_id: ghost.id },
+      });
+      const seen = await first.next('new-message');
+      first.close();
+      while (server.realtime.sse.isUserOnline(ghost.id)) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+
+      await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'long gone', recipient_id: ghost.id },
+      });
+      const { eventLogs } = server.realtime.sse as unknown as { eventLogs: Map<string, unknown> };
+      assert.ok(eventLogs.has(ghost.id));
+
+      const later = Date.now() + (config.sse.replayWindowSeconds + 1) * 1000;
+      const clock = mock.method(Date, 'now', () => later);
+      server.realtime.sse.pruneEventLogs();
+      clock.mock.restore();
+      assert.ok(!eventLogs.has(ghost.id));
+
+      // the dropped log's events can't be replayed, so the client refetches
+      const resumed = await openStream(ghost, `&since=${seen.id}`);
+      await resumed.next('resync-required');
+
+      resumed.close();
+    });
+  });
+
+  describe('POST /api/sse/typing', () => {
+    it("tells the conversation's other members, and nobody else", async () => {
+      const sent = await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'typing test', recipient_id: bobby.id },
+      });
+      const conversationId = sent.body.data.conversation_id;
+      const bobbyStream = await openStream(bobby);
+      await bobbyStream.next('connected');
+
+      const typing = await server.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { conversationId, isTyping: true },
+      });
+      assert.equal(typing.status, 200);
+
+      const event = await bobbyStream.next('typing');
+      assert.equal(event.data.senderId, alice.id);
+      assert.equal(event.data.isTyping, true);
+
+      const outsider = await server.register('outsider');
+      const denied = await server.request('POST', '/api/sse/typing', {
+        token: outsider.token,
+        body: { conversationId, isTyping: true },
+      });
+      assert.equal(denied.status, 404);
+
+      await server.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { conversationId, isTyping: false },
+      });
+      const stopped = await bobbyStream.next('typing');
+      assert.equal(stopped.data.isTyping, false);
+
+      bobbyStream.close();
+    });
+
+    it("maps a version 1 client's recipientId to their direct conversation", async () => {
+      const carol = await server.register('carol');
+      const sent = await server.request('POST', '/api/messages', {
+        token: alice.token,
+        body: { content: 'typing the old way', recipient_id: carol.id },
+      });
+      const carolStream = await openStream(carol);
+      await carolStream.next('connected');
+
+      const typing = await server.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { recipientId: carol.id, isTyping: true },
+      });
+      assert.equal(typing.status, 200);
+
+      const event = await carolStream.next('typing');
+      assert.equal(event.data.senderId, alice.id);
+      assert.equal(event.data.conversationId, sent.body.data.conversation_id);
+
+      await server.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { recipientId: carol.id, isTyping: false },
+      });
+      const stopped = await carolStream.next('typing');
+      assert.equal(stopped.data.isTyping, false);
+
+      const stranger = await server.register('stranger');
+      const noConversation = await server.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { recipientId: stranger.id, isTyping: true },
+      });
+      assert.equal(noConversation.status, 404);
+
+      const neither = await server.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { isTyping: true },
+      });
+      assert.equal(neither.status, 400);
+
+      carolStream.close();
+    });
+
+    it('sends group typing only to clients that speak protocol version 2', async () => {
+      const group = await server.request('POST', '/api/conversations/groups', {
+        token: alice.token,
+        body: { name: 'typists', member_ids: [bobby.id] },
+      });
+      assert.equal(group.status, 201);
+      const conversationId = group.body.data.id;
+
+      const oldStream = await openStream(bobby, '&v=1');
+      const newStream = await openStream(bobby, `&v=${REALTIME_PROTOCOL_VERSION}`);
+      await oldStream.next('connected');
+      await newStream.next('connected');
+
+      await server.request('POST', '/api/sse/typing', {
+        token: alice.token,
+        body: { conversationId, isTyping: true },
+      });
+
+      const event = await newStream.next('group-typing');
+      assert.equal(event.data.senderId, alice.id);
+      assert.equal(event.data.conversationId, conversationId);
+      await assert.rejects(oldStream.next('typing', 300));
+      await assert.rejects(oldStream.next('group-typing', 10));
+
+      oldStream.close();
+      newStream.close();
+    });
+  });
+
+  describe('GET /api/sse/online', () => {
+    it('lists contacts with an open stream', async () => {
+      const loner = await server.register('loner');
+      const lonely = await server.request('GET', '/api/sse/online', { token: loner.token });
+      assert.deepEqual(lonely.body.data.onlineUsers, []);
+
+      const bobbyStream = await openStream(bobby);
+      await bobbyStream.next('connected');
+
+      const online = await server.request('GET', '/api/sse/online', { token: alice.token });
+      assert.equal(online.status, 200);
+      assert.ok(online.body.data.onlineUsers.includes(bobby.id));
+
+      const single = await server.request('GET', `/api/sse/online/${bobby.id}`, {
+        token: alice.token,
+      });
+      assert.equal(single.body.data.isOnline, true);
+
+      bobbyStream.close();
+    });
+
+    it('reports users the asker shares no conversation with as offline', async () => {
+      const stranger = await server.register('unknown');
+      const strangerStream = await openStream(stranger);
+      await strangerStream.next('connected');
+
+      const single = await server.request('GET', `/api/sse/online/${stranger.id}`, {
+        token: alice.token,
+      });
+      assert.equal(single.status, 200);
+      assert.equal(single.body.data.isOnline, false);
+
+      strangerStream.close();
+    });
+  });
+});
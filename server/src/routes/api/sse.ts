@@ -1,155 +1,201 @@
 import { Router, Request, Response } from 'express';
-import { createError, createSuccess } from '@messaging/shared';
-import { sseManager, sseTokenManager } from '../../helpers/sse';
+import { createError, createSuccess, REALTIME_PROTOCOL_VERSION } from '@messaging/shared';
+import {
+  createSSETransport,
+  parseLastEventId,
+  parseProtocolVersion,
+  sseTokenManager,
+} from '../../helpers/sse';
 import { validateBearerToken } from '../../helpers/sse-auth';
+import { recordPendingDeliveries } from '../../helpers/receipts';
+import { getOnlineContacts, isContactOnline } from '../../helpers/presence';
+import { parseTypingBody } from '../../helpers/typing';
+import { Realtime, Repositories } from '../../types';
 import pino from 'pino';
 
 const logger = pino();
 
-export const sseRouter = Router();
-
 /**
- * creates temporary session token for sse authentication
- * @param req - express request with bearer token in header
- * @param res - express response with session token
+ * creates the event stream, typing and online status routes
+ * @param repositories - persistence the routes read and write through
+ * @param realtime - event streams and typing state the routes notify
+ * @returns router mounted at /api/sse
  */
-sseRouter.post('/session', async (req, res) => {
-  const userResult = await validateBearerToken(req.headers.authorization);
+export function createSseRouter(repositories: Repositories, realtime: Realtime) {
+  const sseRouter = Router();
+
+  /**
+   * creates temporary session token for sse authentication
+   * @param req - express request with bearer token in header
+   * @param res - express response with session token
+   */
+  sseRouter.post('/session', async (req, res) => {
+    const userResult = await validateBearerToken(repositories, req.headers.authorization);
+
+    if (userResult.error) {
+      return res.status(401).json(createError(userResult.error));
+    }
 
-  if (userResult.error) {
-    return res.status(401).json(createError(userResult.error));
-  }
+    const sessionToken = sseTokenManager.createSession(userResult.data!);
 
-  const sessionToken = sseTokenManager.createSession(userResult.data!.id);
+    res.json(createSuccess({ sessionToken }));
+  });
 
-  res.json(createSuccess({ sessionToken }));
-});
+  /**
+   * establishes server-sent events connection for real-time updates, replaying
+   * events missed since `Last-Event-ID` or `since` when reconnecting; `v` is
+   * the real-time protocol version the client speaks
+   * @param req - express request with session token in query
+   * @param res - express response stream for sse events
+   */
+  sseRouter.get('/events', async (req: Request, res: Response) => {
+    const sessionToken = req.query['session'] as string;
+
+    if (!sessionToken) {
+      return res.status(401).json(createError('Session token required'));
+    }
 
-/**
- * establishes server-sent events connection for real-time updates
- * @param req - express request with session token in query
- * @param res - express response stream for sse events
- */
-sseRouter.get('/events', async (req: Request, res: Response) => {
-  const sessionToken = req.query['session'] as string;
-  
-  if (!sessionToken) {
-    return res.status(401).json(createError('Session token required'));
-  }
-
-  const session = sseTokenManager.getSession(sessionToken);
-  if (!session) {
-    return res.status(401).json(createError('Invalid or expired session token'));
-  }
-
-  const userId = session.userId;
-  logger.info(`SSE connection attempt for user: ${userId}, session: ${sessionToken}`);
-
-  const connectionAdded = sseManager.addConnection(userId, res);
-  if (!connectionAdded) {
-    logger.info(`SSE connection rejected for user: ${userId}, session: ${sessionToken}`);
-    return;
-  }
-  
-  logger.info(`SSE connection accepted for user: ${userId}, session: ${sessionToken}`);
-
-  res.writeHead(200, {
-    'Content-Type': 'text/event-stream',
-    'Cache-Control': 'no-cache',
-    Connection: 'keep-alive',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Cache-Control',
-    'X-Accel-Buffering': 'no', 
-  });
+    const session = sseTokenManager.getSession(sessionToken);
+    if (!session) {
+      return res.status(401).json(createError('Invalid or expired session token'));
+    }
+
+    const userId = session.userId;
+    logger.info(`SSE connection attempt for user: ${userId}, session: ${sessionToken}`);
 
-  // send  the initial connection message
-  res.write(`event: connected\n`);
-  res.write(`data: ${JSON.stringify({ type: 'connected', userId })}\n\n`);
-
-  const onlineUsers = sseManager.getOnlineUsers();
-  res.write(`event: online-users\n`);
-  res.write(`data: ${JSON.stringify({ type: 'online-users', users: onlineUsers })}\n\n`);
-
-  const heartbeatInterval = setInterval(() => {
-    try {
-      res.write(`event: heartbeat\n`);
-      res.write(
-        `data: ${JSON.stringify({ type: 'heartbeat', timestamp: new Date().toISOString() })}\n\n`
-      );
-    } catch (_error) {
-      console.error('Heartbeat failed for user', userId, _error);
+    const transport = createSSETransport(res, parseProtocolVersion(req.query['v']));
+    const connectionId = realtime.sse.addConnection(userId, transport, session.authSessionId);
+    logger.info(`SSE connection accepted for user: ${userId}, session: ${sessionToken}`);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Cache-Control',
+      'X-Accel-Buffering': 'no',
+    });
+
+    // send  the initial connection message
+    transport.send({ type: 'connected', userId, protocolVersion: REALTIME_PROTOCOL_VERSION });
+
+    const lastEventId = parseLastEventId(req.headers['last-event-id'] ?? req.query['since']);
+    if (lastEventId !== undefined) {
+      realtime.sse.replayEvents(userId, connectionId, lastEventId);
+    }
+
+    const heartbeatInterval = setInterval(() => {
+      try {
+        transport.send({ type: 'heartbeat', timestamp: new Date().toISOString() });
+      } catch (_error) {
+        console.error('Heartbeat failed for user', userId, _error);
+        clearInterval(heartbeatInterval);
+        realtime.sse.removeConnection(userId, connectionId);
+      }
+    }, 30000);
+
+    req.on('close', () => {
+      logger.info(`SSE connection closed for user: ${userId}`);
+      clearInterval(heartbeatInterval);
+      realtime.sse.removeConnection(userId, connectionId);
+    });
+
+    req.on('error', error => {
+      logger.error(`SSE connection error for user ${userId}:`, error);
       clearInterval(heartbeatInterval);
-      sseManager.removeConnection(userId);
+      realtime.sse.removeConnection(userId, connectionId);
+    });
+
+    // only contacts' presence is shared, so the initial list waits on a lookup
+    const onlineResult = await getOnlineContacts(repositories, realtime, userId);
+    if (onlineResult.error) {
+      logger.error(`Online contacts error for user ${userId}: ${onlineResult.error}`);
+    } else if (!res.writableEnded) {
+      transport.send({ type: 'online-users', users: onlineResult.data! });
     }
-  }, 30000);
 
-  req.on('close', () => {
-    logger.info(`SSE connection closed for user: ${userId}`);
-    clearInterval(heartbeatInterval);
-    sseManager.removeConnection(userId);
+    // anything sent while the user was offline reaches them now
+    await recordPendingDeliveries(repositories, realtime, userId);
   });
 
-  req.on('error', (error) => {
-    logger.error(`SSE connection error for user ${userId}:`, error);
-    clearInterval(heartbeatInterval);
-    sseManager.removeConnection(userId);
-  });
-});
+  /**
+   * notifies a conversation's participants about user typing status change;
+   * clients refresh it while typing, and it expires when they stop
+   * @param req - express request with conversation id (or, from protocol
+   * version 1 clients, recipient id) and typing status
+   * @param res - express response with success confirmation
+   */
+  sseRouter.post('/typing', async (req: Request, res: Response) => {
+    const userResult = await validateBearerToken(repositories, req.headers.authorization);
+
+    if (userResult.error) {
+      return res.status(401).json(createError(userResult.error));
+    }
 
-/**
- * notifies about user typing status change
- * @param req - express request with recipient id and typing status
- * @param res - express response with success confirmation
- */
-sseRouter.post('/typing', async (req: Request, res: Response) => {
-  const userResult = await validateBearerToken(req.headers.authorization);
+    const typingData = parseTypingBody(req.body);
+    if (typingData.error) {
+      return res.status(400).json(createError(typingData.error));
+    }
 
-  if (userResult.error) {
-    return res.status(401).json(createError(userResult.error));
-  }
+    const typingResult = await realtime.typing.update(
+      repositories,
+      userResult.data!.id,
+      typingData.data!
+    );
 
-  const { recipientId, isTyping } = req.body;
+    if (typingResult.error) {
+      return res.status(typingResult.status || 500).json(createError(typingResult.error));
+    }
 
-  if (!recipientId || typeof isTyping !== 'boolean') {
-    return res.status(400).json(createError('recipientId and isTyping are required'));
-  }
+    res.json({ success: true });
+  });
 
-  sseManager.notifyTyping(userResult.data!.id, recipientId, isTyping);
+  /**
+   * checks if one of the user's contacts is currently online
+   * @param req - express request with user id in params
+   * @param res - express response with online status, false for non-contacts
+   */
+  sseRouter.get('/online/:userId', async (req: Request, res: Response) => {
+    const userResult = await validateBearerToken(repositories, req.headers.authorization);
 
-  res.json({ success: true });
-});
+    if (userResult.error) {
+      return res.status(401).json(createError(userResult.error));
+    }
 
-/**
- * checks if specific user is currently online
- * @param req - express request with user id in params
- * @param res - express response with online status
- */
-sseRouter.get('/online/:userId', async (req: Request, res: Response) => {
-  const userResult = await validateBearerToken(req.headers.authorization);
+    const userId = req.params['userId'] as string;
+    const onlineResult = await isContactOnline(repositories, realtime, userResult.data!.id, userId);
+    if (onlineResult.error) {
+      logger.error(`Online status error: ${onlineResult.error}`);
+      return res.status(500).json(createError('Failed to retrieve online status'));
+    }
 
-  if (userResult.error) {
-    return res.status(401).json(createError(userResult.error));
-  }
+    const isOnline = onlineResult.data!;
 
-  const userId = req.params['userId'];
-  const isOnline = sseManager.isUserOnline(userId as string);
+    res.json({ success: true, data: { userId, isOnline } });
+  });
 
-  res.json({ success: true, data: { userId, isOnline } });
-});
+  /**
+   * gets which of the user's contacts are currently online
+   * @param req - express request with authorization header
+   * @param res - express response with online users list
+   */
+  sseRouter.get('/online', async (req: Request, res: Response) => {
+    const userResult = await validateBearerToken(repositories, req.headers.authorization);
 
-/**
- * gets list of all currently online users
- * @param req - express request with authorization header
- * @param res - express response with online users list
- */
-sseRouter.get('/online', async (req: Request, res: Response) => {
-  const userResult = await validateBearerToken(req.headers.authorization);
+    if (userResult.error) {
+      return res.status(401).json(createError(userResult.error));
+    }
+
+    const onlineResult = await getOnlineContacts(repositories, realtime, userResult.data!.id);
+    if (onlineResult.error) {
+      logger.error(`Online contacts error: ${onlineResult.error}`);
+      return res.status(500).json(createError('Failed to retrieve online users'));
+    }
 
-  if (userResult.error) {
-    return res.status(401).json(createError(userResult.error));
-  }
+    const onlineUsers = onlineResult.data!;
 
-  const onlineUsers = sseManager.getOnlineUsers();
+    res.json({ success: true, data: { onlineUsers } });
+  });
 
-  res.json({ success: true, data: { onlineUsers } });
-});
+  return sseRouter;
+}
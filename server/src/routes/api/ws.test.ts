@@ -0,0 +1,76 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { WebSocket } from 'ws';
+import { REALTIME_PROTOCOL_VERSION } from '@messaging/shared';
+import { createMemoryRepositories } from '../../db/repositories/memory';
+import { startTestServer, TestServer, TestUser } from '../../test/server';
+
+describe('websocket', () => {
+  let server: TestServer;
+  let alice: TestUser;
+  let bobby: TestUser;
+  // lets a test make the next message insert fail, as a database outage would
+  let failInserts = false;
+  const sockets: WebSocket[] = [];
+
+  before(async () => {
+    const repositories = createMemoryRepositories();
+    const create = repositories.messages.create;
+    repositories.messages.create = async message =>
+      failInserts ? { error: 'connection terminated' } : create(message);
+
+    server = await startTestServer(repositories);
+    alice = await server.register('alice');
+    bobby = await server.register('bobby');
+  });
+
+  after(async () => {
+    sockets.forEach(socket => socket.terminate());
+    await server.close();
+  });
+
+  const connect = async (user: TestUser) => {
+    const session = await server.request('POST', '/api/sse/session', { token: user.token });
+    const url = `${server.baseUrl.replace('http', 'ws')}/api/ws?session=${session.body.data.sessionToken}&v=${REALTIME_PROTOCOL_VERSION}`;
+    const socket = new WebSocket(url);
+    sockets.push(socket);
+    await new Promise((resolve, reject) => socket.once('open', resolve).once('error', reject));
+    return socket;
+  };
+
+  const sendMessage = (socket: WebSocket, requestId: string, message: object) =>
+    new Promise<any>(resolve => {
+      socket.on('message', raw => {
+        const frame = JSON.parse(raw.toString());
+        if (frame.event === 'ack' && frame.data.requestId === requestId) resolve(frame.data);
+      });
+      socket.send(JSON.stringify({ type: 'send-message', requestId, message }));
+    });
+
+  describe('send-message', () => {
+    it('acks a sent message with the message', async () => {
+      const socket = await connect(alice);
+      const ack = await sendMessage(socket, 'sent', { content: 'hi', recipient_id: bobby.id });
+
+      assert.equal(ack.success, true);
+      assert.equal(ack.data.content, 'hi');
+    });
+
+    it('marks failures the server may not repeat as retryable, like a 5xx', async () => {
+      const socket = await connect(alice);
+
+      failInserts = true;
+      const failed = await sendMessage(socket, 'failed', { content: 'hi', recipient_id: bobby.id });
+      failInserts = false;
+      assert.equal(failed.success, false);
+      assert.equal(failed.retryable, true);
+
+      const refused = await sendMessage(socket, 'refused', {
+        content: 'hi',
+        recipient_id: alice.id,
+      });
+      assert.equal(refused.success, false);
+      assert.equal(refused.retryable, false);
+    });
+  });
+});
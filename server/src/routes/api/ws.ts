@@ -0,0 +1,265 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import {
+  isEventSupported,
+  REALTIME_PROTOCOL_VERSION,
+  RealtimeClientFrameSchema,
+} from '@messaging/shared';
+import { parseLastEventId, parseProtocolVersion, sseTokenManager } from '../../helpers/sse';
+import { sendMessage } from '../../helpers/messages';
+import { markConversationRead, recordPendingDeliveries } from '../../helpers/receipts';
+import { getOnlineContacts, recordActivity } from '../../helpers/presence';
+import { Realtime, RealtimeTransport, Repositories, SSESession } from '../../types';
+import pino from 'pino';
+
+const logger = pino();
+
+const WS_PATH = '/api/ws';
+
+const webSocketServer = new WebSocketServer({ noServer: true, maxPayload: 64 * 1024 });
+
+/**
+ * wraps a websocket so events go out as `{ id, event, data }` json frames,
+ * carrying the same payloads as the sse stream
+ * @param socket - open websocket
+ * @param protocolVersion - real-time protocol version the client speaks
+ * @returns transport for the sse manager
+ */
+function createWebSocketTransport(socket: WebSocket, protocolVersion: number): RealtimeTransport {
+  return {
+    send(event, id) {
+      // clients that predate an event type never get it
+      if (!isEventSupported(event.type, protocolVersion)) return;
+
+      // throwing lets the manager drop the connection like a failed sse write
+      if (socket.readyState !== WebSocket.OPEN) {
+        throw new Error('WebSocket is not open');
+      }
+      socket.send(JSON.stringify({ id, event: event.type, data: event }));
+    },
+    close() {
+      socket.close();
+    },
+  };
+}
+
+/**
+ * rejects an upgrade request before the websocket handshake
+ * @param socket - raw connection of the upgrade request
+ * @param status - http status line to answer with
+ */
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * handles a frame sent up a websocket: typing updates, read receipts, activity
+ * pings, and messages, which are acknowledged with the request id the client chose
+ * @param repositories - persistence the frames read and write through
+ * @param realtime - the app's sse and typing managers
+ * @param session - sse session the socket was opened with
+ * @param transport - the socket's transport
+ * @param raw - frame contents
+ */
+async function handleClientFrame(
+  repositories: Repositories,
+  realtime: Realtime,
+  session: SSESession,
+  transport: RealtimeTransport,
+  raw: string
+) {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (_error) {
+    transport.send({ type: 'error', error: 'Invalid JSON frame' });
+    return;
+  }
+
+  const parsed = RealtimeClientFrameSchema.safeParse(json);
+  if (!parsed.success) {
+    const requestId = (json as { requestId?: unknown })?.requestId;
+    const error = parsed.error.errors[0]?.message || 'Invalid frame';
+    if (typeof requestId === 'string') {
+      transport.send({ type: 'ack', requestId, success: false, error });
+    } else {
+      transport.send({ type: 'error', error });
+    }
+    return;
+  }
+
+  const frame = parsed.data;
+  switch (frame.type) {
+    case 'typing': {
+      const typingResult = await realtime.typing.update(repositories, session.userId, frame);
+      if (typingResult.error) {
+        transport.send({ type: 'error', error: typingResult.error });
+      }
+      break;
+    }
+    case 'read': {
+      const readResult = await markConversationRead(
+        repositories,
+        realtime,
+        frame.conversationId,
+        frame.messageId,
+        session.userId
+      );
+      if (readResult.error) {
+        transport.send({ type: 'error', error: readResult.error });
+      }
+      break;
+    }
+    case 'activity': {
+      const activityResult = await recordActivity(repositories, realtime, session.userId);
+      if (activityResult.error) {
+        logger.error(`Activity error for user ${session.userId}: ${activityResult.error}`);
+      }
+      break;
+    }
+    case 'send-message': {
+      const messageResult = await sendMessage(
+        repositories,
+        realtime,
+        { id: session.userId, username: session.username },
+        frame.message
+      );
+      if (messageResult.error) {
+        transport.send({
+          type: 'ack',
+          requestId: frame.requestId,
+          success: false,
+          error: messageResult.error,
+          retryable: (messageResult.status || 500) >= 500,
+        });
+        break;
+      }
+
+      transport.send({
+        type: 'ack',
+        requestId: frame.requestId,
+        success: true,
+        data: { ...messageResult.data! },
+      });
+      break;
+    }
+  }
+}
+
+/**
+ * registers an accepted websocket with the sse manager, so it gets the same
+ * events an sse stream would, and replays what it missed since `since`
+ * @param repositories - persistence the connection reads and writes through
+ * @param realtime - the app's sse and typing managers
+ * @param socket - accepted websocket
+ * @param session - sse session the socket was opened with
+ * @param protocolVersion - real-time protocol version the client speaks
+ * @param lastEventId - id of the last event the client saw, when reconnecting
+ */
+async function handleConnection(
+  repositories: Repositories,
+  realtime: Realtime,
+  socket: WebSocket,
+  session: SSESession,
+  protocolVersion: number,
+  lastEventId?: number
+) {
+  const userId = session.userId;
+  const transport = createWebSocketTransport(socket, protocolVersion);
+  const connectionId = realtime.sse.addConnection(userId, transport, session.authSessionId);
+  logger.info(`WebSocket connection accepted for user: ${userId}`);
+
+  transport.send({ type: 'connected', userId, protocolVersion: REALTIME_PROTOCOL_VERSION });
+
+  if (lastEventId !== undefined) {
+    realtime.sse.replayEvents(userId, connectionId, lastEventId);
+  }
+
+  // pings keep proxies from closing an idle socket; a missed pong means it's dead
+  let isAlive = true;
+  socket.on('pong', () => {
+    isAlive = true;
+  });
+  const heartbeatInterval = setInterval(() => {
+    if (!isAlive) {
+      socket.terminate();
+      return;
+    }
+    isAlive = false;
+    socket.ping();
+  }, 30000);
+
+  socket.on('message', data => {
+    handleClientFrame(repositories, realtime, session, transport, data.toString()).catch(error => {
+      logger.error(`WebSocket frame error for user ${userId}: ${error}`);
+    });
+  });
+
+  socket.on('close', () => {
+    logger.info(`WebSocket connection closed for user: ${userId}`);
+    clearInterval(heartbeatInterval);
+    realtime.sse.removeConnection(userId, connectionId);
+  });
+
+  socket.on('error', error => {
+    logger.error(`WebSocket error for user ${userId}: ${error.message}`);
+    clearInterval(heartbeatInterval);
+    realtime.sse.removeConnection(userId, connectionId);
+  });
+
+  // only contacts' presence is shared, so the initial list waits on a lookup
+  const onlineResult = await getOnlineContacts(repositories, realtime, userId);
+  if (onlineResult.error) {
+    logger.error(`Online contacts error for user ${userId}: ${onlineResult.error}`);
+  } else if (socket.readyState === WebSocket.OPEN) {
+    transport.send({ type: 'online-users', users: onlineResult.data! });
+  }
+
+  // anything sent while the user was offline reaches them now
+  await recordPendingDeliveries(repositories, realtime, userId);
+}
+
+/**
+ * accepts websocket upgrades on /api/ws, authenticated with the same
+ * short-lived session token as the sse stream (`?session=`) and taking the
+ * same `since` and `v` params
+ * @param server - http server the express app listens on
+ * @param repositories - persistence the connections read and write through
+ * @param realtime - the app's sse and typing managers
+ */
+export function attachWebSocketServer(
+  server: Server,
+  repositories: Repositories,
+  realtime: Realtime
+) {
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== WS_PATH) {
+      rejectUpgrade(socket, '404 Not Found');
+      return;
+    }
+
+    const session = sseTokenManager.getSession(url.searchParams.get('session') || '');
+    if (!session) {
+      rejectUpgrade(socket, '401 Unauthorized');
+      return;
+    }
+
+    const protocolVersion = parseProtocolVersion(url.searchParams.get('v') ?? undefined);
+    const lastEventId = parseLastEventId(url.searchParams.get('since') ?? undefined);
+    webSocketServer.handleUpgrade(req, socket, head, webSocket => {
+      handleConnection(
+        repositories,
+        realtime,
+        webSocket,
+        session,
+        protocolVersion,
+        lastEventId
+      ).catch(error => {
+        logger.error(`WebSocket connection error for user ${session.userId}: ${error}`);
+      });
+    });
+  });
+}
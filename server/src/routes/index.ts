@@ -1,12 +1,18 @@
 import { Express, Router } from 'express';
 import { healthRouter } from './health.js';
-import { apiRouter } from './api/index.js';
+import { createApiRouter } from './api/index.js';
+import { AttachmentStorage, Realtime, Repositories } from '../types';
 
-export function setupRoutes(app: Express): void {
+export function setupRoutes(
+  app: Express,
+  repositories: Repositories,
+  realtime: Realtime,
+  storage: AttachmentStorage
+): void {
   const router = Router();
 
   router.use('/health', healthRouter);
-  router.use('/api', apiRouter);
+  router.use('/api', createApiRouter(repositories, realtime, storage));
 
   app.use(router);
   app.use((req, res) => {
@@ -0,0 +1,18 @@
+import { config } from '../config/index.js';
+import { AttachmentStorage } from '../types';
+import { LocalAttachmentStorage } from './local';
+import { S3AttachmentStorage } from './s3';
+
+/**
+ * creates the attachment storage backend selected by ATTACHMENT_STORAGE
+ * @returns storage backend instance
+ */
+export function createAttachmentStorage(): AttachmentStorage {
+  if (config.attachments.storage === 's3') {
+    return new S3AttachmentStorage(config.attachments.s3);
+  }
+
+  return new LocalAttachmentStorage(config.attachments.localDir);
+}
+
+export { LocalAttachmentStorage, S3AttachmentStorage };
@@ -0,0 +1,78 @@
+import { createReadStream } from 'fs';
+import { mkdir, stat, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { AttachmentStorage, ParsedData, StoredObject } from '../types';
+
+/**
+ * stores attachment objects as files under a root directory
+ */
+export class LocalAttachmentStorage implements AttachmentStorage {
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * maps an object key to a path, refusing keys that escape the root
+   * @param key - object key such as `<attachment id>/original`
+   * @returns absolute file path or error message
+   */
+  private resolveKey(key: string): ParsedData<string> {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      return { error: 'Invalid storage key' };
+    }
+
+    return { data: filePath };
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<ParsedData<true>> {
+    const filePath = this.resolveKey(key);
+    if (filePath.error) {
+      return { error: filePath.error };
+    }
+
+    try {
+      await mkdir(path.dirname(filePath.data!), { recursive: true });
+      await writeFile(filePath.data!, data);
+      return { data: true };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to write file' };
+    }
+  }
+
+  async get(key: string): Promise<ParsedData<StoredObject>> {
+    const filePath = this.resolveKey(key);
+    if (filePath.error) {
+      return { error: filePath.error };
+    }
+
+    try {
+      const stats = await stat(filePath.data!);
+      return { data: { body: createReadStream(filePath.data!), size: stats.size } };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { data: undefined };
+      }
+      return { error: error instanceof Error ? error.message : 'Failed to read file' };
+    }
+  }
+
+  async delete(key: string): Promise<ParsedData<true>> {
+    const filePath = this.resolveKey(key);
+    if (filePath.error) {
+      return { error: filePath.error };
+    }
+
+    try {
+      await unlink(filePath.data!);
+      return { data: true };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { data: true };
+      }
+      return { error: error instanceof Error ? error.message : 'Failed to delete file' };
+    }
+  }
+}
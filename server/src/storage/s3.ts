@@ -0,0 +1,83 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import { AttachmentStorage, ParsedData, StoredObject } from '../types';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * stores attachment objects in an s3-compatible bucket; setting an endpoint
+ * switches to path-style addressing so minio and similar stand-ins work
+ */
+export class S3AttachmentStorage implements AttachmentStorage {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.client = new S3Client({
+      region: options.region,
+      ...(options.endpoint ? { endpoint: options.endpoint, forcePathStyle: true } : {}),
+      ...(options.accessKeyId && options.secretAccessKey
+        ? {
+            credentials: {
+              accessKeyId: options.accessKeyId,
+              secretAccessKey: options.secretAccessKey,
+            },
+          }
+        : {}),
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<ParsedData<true>> {
+    try {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: data,
+          ContentType: contentType,
+        })
+      );
+      return { data: true };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to upload object' };
+    }
+  }
+
+  async get(key: string): Promise<ParsedData<StoredObject>> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!result.Body) {
+        return { data: undefined };
+      }
+
+      return { data: { body: result.Body as Readable, size: result.ContentLength } };
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return { data: undefined };
+      }
+      return { error: error instanceof Error ? error.message : 'Failed to download object' };
+    }
+  }
+
+  async delete(key: string): Promise<ParsedData<true>> {
+    try {
+      await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+      return { data: true };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to delete object' };
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import { TestServer, TestUser } from './server';
+
+export interface StreamEvent {
+  id?: number;
+  data: any;
+}
+
+export interface EventStream {
+  status: number;
+  next(type: string, timeoutMs?: number): Promise<StreamEvent>;
+  close(): void;
+}
+
+/**
+ * opens a user's event stream on a test server; next() resolves with the
+ * first event of a type not yet consumed, reading further frames as they arrive
+ * @param server - server to open the stream on
+ * @param user - user whose stream it is
+ * @param params - extra query string, such as `&since=<id>`
+ * @returns the open stream
+ */
+export async function openEventStream(
+  server: TestServer,
+  user: TestUser,
+  params = ''
+): Promise<EventStream> {
+  const session = await server.request('POST', '/api/sse/session', { token: user.token });
+  const controller = new AbortController();
+  const response = await fetch(
+    `${server.baseUrl}/api/sse/events?session=${session.body.data.sessionToken}${params}`,
+    { signal: controller.signal }
+  );
+
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  const pending: StreamEvent[] = [];
+  let buffer = '';
+
+  const readFrames = async () => {
+    const { value, done } = await reader.read();
+    if (done) throw new Error('Event stream closed');
+
+    buffer += value;
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const frame = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+
+      const id = /^id: (\d+)$/m.exec(frame)?.[1];
+      const data = /^data: (.*)$/m.exec(frame)?.[1];
+      if (data) pending.push({ id: id ? Number(id) : undefined, data: JSON.parse(data) });
+    }
+  };
+
+  return {
+    status: response.status,
+
+    async next(type, timeoutMs = 2000) {
+      const deadline = Date.now() + timeoutMs;
+      for (;;) {
+        const index = pending.findIndex(event => event.data.type === type);
+        if (index !== -1) return pending.splice(index, 1)[0]!;
+
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) throw new Error(`No ${type} event within ${timeoutMs}ms`);
+
+        let timer: NodeJS.Timeout | undefined;
+        await Promise.race([
+          readFrames(),
+          new Promise((_resolve, reject) => {
+            timer = setTimeout(
+              () => reject(new Error(`No ${type} event within ${timeoutMs}ms`)),
+              remaining
+            );
+          }),
+        ]).finally(() => clearTimeout(timer));
+      }
+    },
+
+    close() {
+      controller.abort();
+    },
+  };
+}
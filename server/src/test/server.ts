@@ -0,0 +1,107 @@
+import { randomUUID } from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { tmpdir } from 'os';
+import path from 'path';
+import pino from 'pino';
+import { createApp } from '../app';
+import { createMemoryRepositories } from '../db/repositories/memory';
+import { createRealtime } from '../helpers/realtime';
+import { MemoryRealtimeBus } from '../pubsub';
+import { LocalAttachmentStorage } from '../storage';
+import { attachWebSocketServer } from '../routes/api/ws';
+import { AttachmentStorage, Realtime, Repositories } from '../types';
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export interface TestUser {
+  id: string;
+  username: string;
+  email: string;
+  token: string;
+  refreshToken: string;
+}
+
+export interface TestServer {
+  baseUrl: string;
+  repositories: Repositories;
+  realtime: Realtime;
+  request(
+    method: string,
+    path: string,
+    options?: { token?: string; body?: unknown }
+  ): Promise<TestResponse>;
+  register(username: string): Promise<TestUser>;
+  close(): Promise<void>;
+}
+
+/**
+ * starts the app on a random local port, backed by fresh in-memory
+ * repositories and its own real-time state, for route tests
+ * @param repositories - repositories to serve, when a test needs to configure them
+ * @param realtime - real-time state to serve, when a test shares a bus between servers
+ * @param storage - attachment storage, by default under a temp directory made on first upload
+ * @returns running server with request helpers
+ */
+export async function startTestServer(
+  repositories: Repositories = createMemoryRepositories(),
+  realtime: Realtime = createRealtime(new MemoryRealtimeBus()),
+  storage: AttachmentStorage = new LocalAttachmentStorage(
+    path.join(tmpdir(), `attachments-${randomUUID()}`)
+  )
+): Promise<TestServer> {
+  const started = await realtime.sse.start();
+  if (started.error) {
+    throw new Error(`Starting the realtime bus failed: ${started.error}`);
+  }
+
+  const app = createApp(repositories, realtime, storage, pino({ level: 'silent' }));
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  attachWebSocketServer(server, repositories, realtime);
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request: TestServer['request'] = async (method, path, options = {}) => {
+    const headers: Record<string, string> = {};
+    if (options.token) headers['Authorization'] = `Bearer ${options.token}`;
+    if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers,
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+
+    return { status: response.status, body: await response.json() };
+  };
+
+  return {
+    baseUrl,
+    repositories,
+    realtime,
+    request,
+
+    async register(username) {
+      const response = await request('POST', '/api/auth/register', {
+        body: { username, email: `${username}@example.com`, password: 'correct horse battery' },
+      });
+      if (response.status !== 201) {
+        throw new Error(`Registering ${username} failed: ${JSON.stringify(response.body)}`);
+      }
+
+      const { user, token, refreshToken } = response.body.data;
+      return { ...user, token, refreshToken };
+    },
+
+    async close() {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      await realtime.sse.stop();
+    },
+  };
+}
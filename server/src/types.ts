@@ -1,4 +1,8 @@
-import { Request, Response } from 'express';
+import { Request } from 'express';
+import { RealtimeEvent } from '@messaging/shared';
+import { Readable } from 'stream';
+import type { SSEManager } from './helpers/sse';
+import type { TypingManager } from './helpers/typing';
 
 /**
  * database and api response types
@@ -14,12 +18,142 @@ export interface Message {
   id: string;
   content: string;
   sender_id: string;
-  recipient_id: string;
+  recipient_id: string | null;
+  conversation_id?: string;
   sender_username?: string;
   recipient_username?: string;
   status?: string;
   created_at: string | Date;
   read_at?: string | Date;
+  edited_at?: string | Date | null;
+  deleted_at?: string | Date | null;
+  reactions?: MessageReaction[];
+  reply_to_id?: string | null;
+  reply_to?: MessageQuote | null;
+  attachments?: AttachmentSummary[];
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+export type UserStatus = 'available' | 'busy' | 'do-not-disturb';
+
+// online: active recently; away: connected but idle; offline: no open connection
+export type PresenceState = 'online' | 'away' | 'offline';
+
+export interface UserPresenceRecord {
+  user_id: string;
+  last_seen_at: string | Date | null;
+  status: UserStatus;
+  status_message: string | null;
+  status_expires_at: string | Date | null;
+}
+
+export interface MessageReceipt {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  status: MessageStatus;
+}
+
+export interface ConversationMessage {
+  id: string;
+  content: string;
+  sender_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
+  sender_username: string;
+  status: MessageStatus;
+  created_at: Date;
+  edited_at: Date | null;
+  deleted_at: Date | null;
+  reactions: MessageReaction[];
+  reply_to_id: string | null;
+  reply_to: MessageQuote | null;
+  attachments: AttachmentSummary[];
+}
+
+export interface MessageSearchHit {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  sender_username: string;
+  created_at: Date;
+  snippet: string;
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchHit[];
+  next_cursor?: string;
+}
+
+export interface MessageQuote {
+  id: string;
+  sender_id: string;
+  sender_username: string;
+  content: string;
+  deleted_at: string | Date | null;
+}
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  users: { id: string; username: string }[];
+}
+
+export interface MessageEdit {
+  id: string;
+  previous_content: string;
+  edited_at: string | Date;
+}
+
+export type ConversationType = 'direct' | 'group';
+
+export type ParticipantRole = 'admin' | 'member';
+
+export interface Conversation {
+  id: string;
+  type: ConversationType;
+  name?: string | null;
+  created_by?: string | null;
+  direct_key?: string | null;
+  last_message_at?: string | Date | null;
+  created_at: string | Date;
+}
+
+export interface ConversationParticipant {
+  user_id: string;
+  role: ParticipantRole;
+  joined_at?: string | Date;
+  last_read_at?: string | Date | null;
+}
+
+export interface GroupMembership {
+  role: ParticipantRole;
+  participantIds: string[];
+}
+
+export interface MessageAccess {
+  message: Message;
+  participantIds: string[];
+}
+
+export interface ConversationSummary {
+  id: string;
+  type: ConversationType;
+  name: string | null;
+  created_at: string | Date;
+  last_message_at: string | Date | null;
+  unread_count: number;
+  participants: (Omit<User, 'password_hash'> & { role: ParticipantRole })[];
+  counterpart: Omit<User, 'password_hash'> | null;
+  last_message: {
+    id: string;
+    content: string;
+    sender_id: string;
+    sender_username: string;
+    created_at: string | Date;
+    deleted_at: string | Date | null;
+  } | null;
 }
 
 export interface Session {
@@ -42,6 +176,8 @@ export interface ApiResponse<T = any> {
 export interface LoginResponse {
   user: Omit<User, 'password_hash'>;
   token: string;
+  refreshToken: string;
+  expiresAt: string;
 }
 
 export interface MessagesResponse {
@@ -49,6 +185,13 @@ export interface MessagesResponse {
   next_cursor?: string;
 }
 
+export interface ConversationsResponse {
+  conversations: ConversationSummary[];
+  hasMore: boolean;
+  limit: number;
+  offset: number;
+}
+
 export interface UsersSearchResponse {
   users: Omit<User, 'password_hash'>[];
   hasMore: boolean;
@@ -62,6 +205,37 @@ export interface UsersSearchResponse {
  */
 export interface AuthenticatedRequest extends Request {
   user?: Omit<User, 'password_hash'>;
+  sessionId?: string;
+}
+
+export interface SessionUser extends Omit<User, 'password_hash'> {
+  session_id: string;
+}
+
+export interface SessionClientInfo {
+  user_agent?: string;
+  ip_address?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  accessTtlSeconds: number;
+  refreshTtlSeconds: number;
+}
+
+export type SessionRotation =
+  | { status: 'rotated'; user: SessionUser }
+  | { status: 'reused'; sessionId: string }
+  | { status: 'invalid' };
+
+export interface UserSession {
+  id: string;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+  user_agent: string | null;
+  ip_address: string | null;
 }
 
 export interface ParsedData<T> {
@@ -74,28 +248,425 @@ export interface LoginData {
   password: string;
 }
 
+export interface RegisterData {
+  username: string;
+  email: string;
+  password: string;
+}
+
 export interface CreateMessageData {
   content: string;
-  recipient_id: string;
+  conversation_id?: string;
+  recipient_id?: string;
+  reply_to_id?: string;
+  attachment_ids?: string[];
+  client_id?: string;
+}
+
+export interface CreateConversationData {
+  participant_id: string;
+}
+
+export interface CreateGroupData {
+  name: string;
+  member_ids: string[];
+}
+
+export interface AddMembersData {
+  member_ids: string[];
+}
+
+export interface ConversationFilterData {
+  limit: number;
+  offset: number;
 }
 
-export interface MessageFilterData {
+export interface MessageSearchData {
+  text: string;
+  from?: string;
+  with?: string;
+  before?: Date;
+  after?: Date;
   limit: number;
-  cursor?: string;
+  cursor?: MessageCursor;
+}
+
+// keyset position of a message: the exact timestamp text plus the id that
+// breaks ties between messages created at the same instant
+export interface MessageCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface MessagePageQuery {
+  limit: number;
+  before?: MessageCursor;
+  after?: MessageCursor;
+}
+
+export interface MessageFilterData extends MessagePageQuery {
   status?: string;
 }
 
+export type MessagePageRow<T> = T & { cursor_created_at: string };
+
+export interface MessagePage<T> {
+  messages: T[];
+  prev_cursor?: string;
+  next_cursor?: string;
+  has_older: boolean;
+  has_newer: boolean;
+}
+
+/**
+ * attachment types
+ */
+export interface Attachment {
+  id: string;
+  conversation_id: string;
+  uploader_id: string;
+  message_id: string | null;
+  storage_key: string;
+  thumbnail_key: string | null;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  created_at: string | Date;
+}
+
+export interface AttachmentSummary {
+  id: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  has_thumbnail: boolean;
+}
+
+export interface StoredObject {
+  body: Readable;
+  size?: number;
+}
+
+export interface AttachmentStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<ParsedData<true>>;
+  get(key: string): Promise<ParsedData<StoredObject>>;
+  delete(key: string): Promise<ParsedData<true>>;
+}
+
+/**
+ * repository types
+ */
+export interface NewUser {
+  username: string;
+  email: string;
+  password_hash: string;
+}
+
+export interface NewMessage {
+  content: string;
+  sender_id: string;
+  conversation_id: string;
+  recipient_id: string | null;
+  reply_to_id?: string | null;
+  attachment_ids?: string[];
+  client_id?: string | null;
+}
+
+export interface CreatedMessage {
+  id: string;
+  content: string;
+  sender_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
+  reply_to_id: string | null;
+  status: string;
+  created_at: string;
+}
+
+export interface UserMessage {
+  id: string;
+  content: string;
+  sender_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
+  status: string;
+  created_at: string;
+}
+
+export interface NewAttachment {
+  id: string;
+  conversation_id: string;
+  uploader_id: string;
+  storage_key: string;
+  thumbnail_key: string | null;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+}
+
+export interface UserRepository {
+  getByEmail(email: string): Promise<ParsedData<User>>;
+  getRegistrationConflicts(
+    username: string,
+    email: string
+  ): Promise<ParsedData<{ username: boolean; email: boolean }>>;
+  // undefined when the username or email was taken in the meantime
+  create(userData: NewUser): Promise<ParsedData<Omit<User, 'password_hash'>>>;
+  search(
+    query: string,
+    currentUserId: string,
+    limit: number,
+    offset: number
+  ): Promise<ParsedData<Omit<User, 'password_hash'>[]>>;
+  getRandom(
+    currentUserId: string,
+    limit: number,
+    offset: number
+  ): Promise<ParsedData<Omit<User, 'password_hash'>[]>>;
+  getContactIds(userId: string): Promise<ParsedData<string[]>>;
+  getPresence(userIds: string[]): Promise<ParsedData<UserPresenceRecord[]>>;
+  touchLastSeen(userId: string): Promise<ParsedData<UserPresenceRecord>>;
+  setStatus(
+    userId: string,
+    status: UserStatus,
+    message: string | null,
+    expiresAt: string | null
+  ): Promise<ParsedData<UserPresenceRecord>>;
+}
+
+export interface SessionRepository {
+  getUserByToken(token: string): Promise<ParsedData<SessionUser>>;
+  create(
+    userId: string,
+    tokens: SessionTokens,
+    clientInfo?: SessionClientInfo
+  ): Promise<ParsedData<string>>;
+  rotate(refreshToken: string, tokens: SessionTokens): Promise<ParsedData<SessionRotation>>;
+  listForUser(userId: string): Promise<ParsedData<UserSession[]>>;
+  delete(sessionId: string, userId: string): Promise<ParsedData<boolean>>;
+  deleteOthers(userId: string, keepSessionId: string): Promise<ParsedData<string[]>>;
+}
+
+export interface ConversationRepository {
+  getById(conversationId: string): Promise<ParsedData<Conversation>>;
+  getDirect(userId1: string, userId2: string): Promise<ParsedData<Conversation>>;
+  getOrCreateDirect(userId1: string, userId2: string): Promise<ParsedData<Conversation>>;
+  createGroup(
+    creatorId: string,
+    name: string,
+    memberIds: string[]
+  ): Promise<ParsedData<Conversation>>;
+  getParticipants(conversationId: string): Promise<ParsedData<ConversationParticipant[]>>;
+  isParticipant(conversationId: string, userId: string): Promise<ParsedData<boolean>>;
+  addMembers(conversationId: string, userIds: string[]): Promise<ParsedData<string[]>>;
+  removeMember(conversationId: string, userId: string): Promise<ParsedData<boolean>>;
+  listForUser(
+    userId: string,
+    limit: number,
+    offset: number
+  ): Promise<ParsedData<ConversationSummary[]>>;
+  getSummary(conversationId: string, userId: string): Promise<ParsedData<ConversationSummary>>;
+}
+
+export interface MessageRepository {
+  // resolves without data when the sender already has a message with this client_id
+  create(messageData: NewMessage): Promise<ParsedData<CreatedMessage>>;
+  getById(messageId: string): Promise<ParsedData<Message>>;
+  getByClientId(
+    conversationId: string,
+    senderId: string,
+    clientId: string
+  ): Promise<ParsedData<ConversationMessage>>;
+  getQuote(messageId: string): Promise<ParsedData<MessageQuote & { conversation_id: string }>>;
+  edit(
+    messageId: string,
+    senderId: string,
+    content: string,
+    editWindowSeconds: number
+  ): Promise<ParsedData<Message>>;
+  delete(messageId: string, senderId: string): Promise<ParsedData<Message>>;
+  // listings return up to page.limit rows nearest the cursor: newest first,
+  // or oldest first when paging forward with `after`
+  listForUser(
+    userId: string,
+    page: MessagePageQuery
+  ): Promise<ParsedData<MessagePageRow<UserMessage>[]>>;
+  listForConversation(
+    conversationId: string,
+    page: MessagePageQuery
+  ): Promise<ParsedData<MessagePageRow<ConversationMessage>[]>>;
+  getContext(
+    conversationId: string,
+    messageId: string,
+    radius?: number
+  ): Promise<ParsedData<{ messages: MessagePageRow<ConversationMessage>[] }>>;
+  search(
+    userId: string,
+    search: MessageSearchData
+  ): Promise<ParsedData<MessagePageRow<MessageSearchHit>[]>>;
+  getEdits(messageId: string): Promise<ParsedData<MessageEdit[]>>;
+  addReaction(messageId: string, userId: string, emoji: string): Promise<ParsedData<MessageReaction[]>>;
+  removeReaction(
+    messageId: string,
+    userId: string,
+    emoji: string
+  ): Promise<ParsedData<MessageReaction[]>>;
+  markReceipts(
+    conversationId: string,
+    messageId: string,
+    userIds: string[],
+    status: 'delivered' | 'read'
+  ): Promise<ParsedData<MessageReceipt[]>>;
+  markPendingDelivered(userId: string): Promise<ParsedData<MessageReceipt[]>>;
+}
+
+export interface AttachmentRepository {
+  create(attachmentData: NewAttachment): Promise<ParsedData<Attachment>>;
+  getById(attachmentId: string): Promise<ParsedData<Attachment>>;
+  getPending(
+    attachmentIds: string[],
+    uploaderId: string,
+    conversationId: string
+  ): Promise<ParsedData<Attachment[]>>;
+  // returns the storage keys whose objects should be removed
+  delete(filter: {
+    attachmentId?: string;
+    messageId?: string;
+  }): Promise<ParsedData<Pick<Attachment, 'storage_key' | 'thumbnail_key'>[]>>;
+}
+
+/**
+ * everything the app persists, passed to createApp; postgres in production,
+ * in memory for tests
+ */
+export interface Repositories {
+  users: UserRepository;
+  sessions: SessionRepository;
+  conversations: ConversationRepository;
+  messages: MessageRepository;
+  attachments: AttachmentRepository;
+}
+
+/**
+ * an app's real-time state, passed to createApp alongside its repositories:
+ * the event streams open on this node and who is typing in them
+ */
+export interface Realtime {
+  sse: SSEManager;
+  typing: TypingManager;
+}
+
+/**
+ * migration types
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string | null;
+  // sha-256 of the up sql, recorded when applied to catch later edits
+  checksum: string;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string | Date;
+}
+
+export interface MigrationStatusEntry {
+  version: number;
+  name: string;
+  // changed: edited since it ran; missing: ran, but this build has no file for it
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  applied_at: string | Date | null;
+}
+
 /**
  * sse types
  */
+/**
+ * a client stream events are written to, over sse or websocket
+ */
+export interface RealtimeTransport {
+  send(event: RealtimeEvent, id?: number): void;
+  close(): void;
+}
+
 export interface SSEConnection {
+  id: string;
   userId: string;
-  response: Response;
+  sessionId?: string;
+  transport: RealtimeTransport;
   lastSeen: Date;
 }
 
+export interface SSELoggedEvent {
+  id: number;
+  event: RealtimeEvent;
+  createdAt: number;
+}
+
+export interface SSEEventLog {
+  events: SSELoggedEvent[];
+  // newest event id dropped from the log; clients behind it have missed events
+  evictedThrough: number;
+}
+
+export interface RealtimeBusEvent {
+  type: 'event';
+  origin: string;
+  // assigned by the bus, increasing in the order every node receives events
+  eventId: number;
+  userIds: string[];
+  event: RealtimeEvent;
+}
+
+export type RealtimeBusMessage =
+  | RealtimeBusEvent
+  | { type: 'presence'; origin: string; userId: string; state: PresenceState }
+  | { type: 'presence-snapshot'; origin: string; users: Record<string, RemotePresenceState> }
+  | { type: 'activity'; origin: string; userId: string }
+  | { type: 'presence-sync'; origin: string }
+  | { type: 'session-revoked'; origin: string; sessionId: string };
+
+// what a node publishes; events get their id from the bus
+export type RealtimeBusPublication =
+  | Omit<RealtimeBusEvent, 'eventId'>
+  | Exclude<RealtimeBusMessage, RealtimeBusEvent>;
+
+export type RealtimeBusHandler = (message: RealtimeBusMessage) => void;
+
+/**
+ * fans real-time events out to every server node, including the publisher;
+ * subscribing resolves with the id of the last event published before it
+ */
+export interface RealtimeBus {
+  publish(message: RealtimeBusPublication): Promise<ParsedData<true>>;
+  subscribe(handler: RealtimeBusHandler): Promise<ParsedData<number>>;
+  close(): Promise<void>;
+}
+
+// called with the recipients a new message was written to on this node
+export type SSEDeliveryListener = (userIds: string[], message: any) => void;
+
+// called when a change on this node moved a user to a new presence state
+export type SSEPresenceListener = (userId: string, state: PresenceState) => void;
+
+// what a node reports for a user connected to it
+export type RemotePresenceState = Exclude<PresenceState, 'offline'>;
+
 export interface SSESession {
   userId: string;
+  username: string;
+  authSessionId?: string;
   expires: number;
 }
 
@@ -1,2 +1,4 @@
 export * from './types/user';
+export * from './types/conversation';
+export * from './types/realtime';
 export * from './result-types';
@@ -44,7 +44,9 @@ export type MessageResult = Result<{
   id: string;
   content: string;
   sender_id: string;
-  recipient_id: string;
+  recipient_id: string | null;
+  conversation_id: string;
+  reply_to_id?: string | null;
   status: string;
   created_at: string;
 }>;
@@ -54,11 +56,124 @@ export type MessagesListResult = Result<{
     id: string;
     content: string;
     sender_id: string;
-    recipient_id: string;
+    recipient_id: string | null;
+    conversation_id: string;
     status: string;
     created_at: string;
+    edited_at?: string | null;
+    deleted_at?: string | null;
+    reactions?: MessageReactionSummary[];
+    reply_to_id?: string | null;
+    reply_to?: MessageQuoteSummary | null;
+    attachments?: AttachmentSummary[];
   }>;
+  // oldest first; prev_cursor is the oldest message's position (pass as `before`),
+  // next_cursor the newest's (pass as `after`)
+  prev_cursor?: string;
   next_cursor?: string;
+  has_older: boolean;
+  has_newer: boolean;
+}>;
+
+export interface MessageReactionSummary {
+  emoji: string;
+  count: number;
+  users: Array<{ id: string; username: string }>;
+}
+
+export interface MessageQuoteSummary {
+  id: string;
+  sender_id: string;
+  sender_username: string;
+  content: string;
+  deleted_at: string | null;
+}
+
+export interface AttachmentSummary {
+  id: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  has_thumbnail: boolean;
+}
+
+export type AttachmentResult = Result<AttachmentSummary>;
+
+export type MessageSearchResult = Result<{
+  results: Array<{
+    id: string;
+    conversation_id: string;
+    sender_id: string;
+    sender_username: string;
+    created_at: string;
+    // matched terms are wrapped in <mark></mark>; everything else is plain text
+    snippet: string;
+  }>;
+  next_cursor?: string;
+}>;
+
+export type MessageReactionsResult = Result<{
+  messageId: string;
+  reactions: MessageReactionSummary[];
+}>;
+
+export interface UserPresence {
+  user_id: string;
+  state: 'online' | 'away' | 'offline';
+  status: 'available' | 'busy' | 'do-not-disturb';
+  status_message: string | null;
+  status_expires_at: string | null;
+  last_seen_at: string | null;
+}
+
+export type PresenceListResult = Result<{ presence: UserPresence[] }>;
+
+export type MarkReadResult = Result<{
+  conversationId: string;
+  updated: number;
+}>;
+
+export type MessageEditHistoryResult = Result<{
+  edits: Array<{
+    id: string;
+    previous_content: string;
+    edited_at: string;
+  }>;
+}>;
+
+export type ConversationsListResult = Result<{
+  conversations: Array<{
+    id: string;
+    type: 'direct' | 'group';
+    name: string | null;
+    created_at: string;
+    last_message_at: string | null;
+    unread_count: number;
+    participants: Array<{
+      id: string;
+      username: string;
+      email: string;
+      role: 'admin' | 'member';
+    }>;
+    counterpart: {
+      id: string;
+      username: string;
+      email: string;
+    } | null;
+    last_message: {
+      id: string;
+      content: string;
+      sender_id: string;
+      sender_username: string;
+      created_at: string;
+      deleted_at: string | null;
+    } | null;
+  }>;
+  hasMore: boolean;
+  limit: number;
+  offset: number;
 }>;
 
 // API ERROR CODES
@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+/**
+ * Validation schemas
+ */
+export const CreateConversationSchema = z.object({
+  participant_id: z.string().uuid('Invalid participant ID'),
+});
+
+export const CreateGroupSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Group name is required')
+    .max(100, 'Group name too long (max 100 characters)'),
+  member_ids: z
+    .array(z.string().uuid('Invalid member ID'))
+    .min(1, 'A group needs at least one other member')
+    .max(100, 'Too many members (max 100)'),
+});
+
+export const AddMembersSchema = z.object({
+  member_ids: z
+    .array(z.string().uuid('Invalid member ID'))
+    .min(1, 'At least one member is required')
+    .max(100, 'Too many members (max 100)'),
+});
+
+export const ConversationFilterSchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const ConversationIdSchema = z.string().uuid('Invalid conversation ID');
+
+export type CreateConversation = z.infer<typeof CreateConversationSchema>;
+export type CreateGroup = z.infer<typeof CreateGroupSchema>;
+export type AddMembers = z.infer<typeof AddMembersSchema>;
+export type ConversationFilter = z.infer<typeof ConversationFilterSchema>;
@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { CreateMessageSchema, MessageIdSchema, UserStatusSchema } from './user';
+import { ConversationIdSchema } from './conversation';
+
+/**
+ * Real-time protocol. Bump the version when adding events or changing
+ * payloads, and record new events in REALTIME_EVENT_SINCE so clients that
+ * predate them never receive them.
+ */
+export const REALTIME_PROTOCOL_VERSION = 2;
+
+// Version history:
+// 2 - typing is scoped to a conversation: updates name a conversationId, and
+//     typing events carry it. Version 1 updates named the other user by
+//     recipientId instead; servers map those to that user's direct conversation.
+//     Acks for failed sends say whether sending again may succeed. Typing in
+//     group conversations arrives as group-typing, since version 1 clients
+//     show any typing event as the sender typing in their direct chat.
+
+// Messages are sent whole; only the fields every consumer relies on are
+// checked and the rest pass through untouched
+const RealtimeMessageSchema = z
+  .object({
+    id: z.string(),
+    sender_id: z.string(),
+    content: z.string(),
+    conversation_id: z.string().optional(),
+  })
+  .passthrough();
+
+const RealtimeReactionSchema = z.object({
+  emoji: z.string(),
+  count: z.number(),
+  users: z.array(z.object({ id: z.string(), username: z.string() })),
+});
+
+const timestamp = z.string();
+
+const typingFields = {
+  senderId: z.string(),
+  conversationId: z.string(),
+  isTyping: z.boolean(),
+  timestamp,
+};
+
+export const RealtimeEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('connected'),
+    userId: z.string(),
+    protocolVersion: z.number().int().positive(),
+  }),
+  z.object({ type: z.literal('online-users'), users: z.array(z.string()) }),
+  z.object({ type: z.literal('heartbeat'), timestamp }),
+  z.object({
+    type: z.literal('new-message'),
+    senderId: z.string(),
+    message: RealtimeMessageSchema,
+    timestamp,
+  }),
+  z.object({ type: z.literal('message-sent'), message: RealtimeMessageSchema, timestamp }),
+  z.object({ type: z.literal('message-edited'), message: RealtimeMessageSchema, timestamp }),
+  z.object({
+    type: z.literal('message-deleted'),
+    messageId: z.string(),
+    conversationId: z.string(),
+    timestamp,
+  }),
+  z.object({
+    type: z.literal('reaction-updated'),
+    messageId: z.string(),
+    conversationId: z.string(),
+    reactions: z.array(RealtimeReactionSchema),
+    timestamp,
+  }),
+  z.object({
+    type: z.literal('receipt'),
+    conversationId: z.string(),
+    messageIds: z.array(z.string()),
+    status: z.enum(['sent', 'delivered', 'read']),
+    timestamp,
+  }),
+  z.object({
+    type: z.literal('conversation-updated'),
+    conversationId: z.string(),
+    change: z.enum(['created', 'members-added', 'member-removed', 'member-left']),
+    timestamp,
+  }),
+  // typing in a direct conversation
+  z.object({ type: z.literal('typing'), ...typingFields }),
+  z.object({ type: z.literal('group-typing'), ...typingFields }),
+  z.object({
+    type: z.literal('user-status'),
+    userId: z.string(),
+    isOnline: z.boolean(),
+    // presence details; isOnline stays for clients that only show a dot
+    state: z.enum(['online', 'away', 'offline']).optional(),
+    status: UserStatusSchema.optional(),
+    statusMessage: z.string().nullable().optional(),
+    statusExpiresAt: z.string().nullable().optional(),
+    lastSeenAt: z.string().nullable().optional(),
+    timestamp,
+  }),
+  z.object({ type: z.literal('resync-required'), timestamp }),
+  z.object({ type: z.literal('session-revoked'), timestamp }),
+  z.object({
+    type: z.literal('ack'),
+    requestId: z.string(),
+    success: z.boolean(),
+    data: RealtimeMessageSchema.optional(),
+    error: z.string().optional(),
+    // set when the server failed rather than refused the message, as a 5xx would
+    retryable: z.boolean().optional(),
+  }),
+  z.object({ type: z.literal('error'), error: z.string() }),
+]);
+
+export type RealtimeEvent = z.infer<typeof RealtimeEventSchema>;
+export type RealtimeEventType = RealtimeEvent['type'];
+export type RealtimeEventOf<T extends RealtimeEventType> = Extract<RealtimeEvent, { type: T }>;
+
+export const REALTIME_EVENT_TYPES = RealtimeEventSchema.options.map(
+  option => option.shape.type.value
+) as RealtimeEventType[];
+
+// Protocol version each event first appeared in; anything unlisted is from version 1
+export const REALTIME_EVENT_SINCE: Partial<Record<RealtimeEventType, number>> = {
+  'group-typing': 2,
+};
+
+/**
+ * Whether a client speaking the given protocol version understands an event
+ */
+export function isEventSupported(type: RealtimeEventType, protocolVersion: number): boolean {
+  return (REALTIME_EVENT_SINCE[type] ?? 1) <= protocolVersion;
+}
+
+/**
+ * Parses an incoming event. Returns null for events this build doesn't know
+ * (sent by a newer server) or that fail validation, so callers can skip them.
+ */
+export function parseRealtimeEvent(data: unknown): RealtimeEvent | null {
+  const parsed = RealtimeEventSchema.safeParse(data);
+  return parsed.success ? parsed.data : null;
+}
+
+// Frames a client can send up an open WebSocket; everything else arrives as
+// the same events the SSE stream carries
+// conversationId is required from protocol version 2; the server resolves
+// version 1's recipientId when it's missing
+export const TypingUpdateSchema = z.object({
+  conversationId: ConversationIdSchema.optional(),
+  recipientId: z.string().uuid('Invalid recipient ID').optional(),
+  isTyping: z.boolean(),
+});
+
+export const TypingFrameSchema = TypingUpdateSchema.extend({
+  type: z.literal('typing'),
+});
+
+export const ReadFrameSchema = z.object({
+  type: z.literal('read'),
+  conversationId: ConversationIdSchema,
+  messageId: MessageIdSchema,
+});
+
+export const SendMessageFrameSchema = z.object({
+  type: z.literal('send-message'),
+  requestId: z.string().min(1).max(100),
+  message: CreateMessageSchema,
+});
+
+// Sent while the user is interacting with the app; without them the user goes away
+export const ActivityFrameSchema = z.object({
+  type: z.literal('activity'),
+});
+
+export const RealtimeClientFrameSchema = z.discriminatedUnion('type', [
+  TypingFrameSchema,
+  ReadFrameSchema,
+  SendMessageFrameSchema,
+  ActivityFrameSchema,
+]);
+
+export type TypingUpdate = z.infer<typeof TypingUpdateSchema>;
+export type TypingFrame = z.infer<typeof TypingFrameSchema>;
+export type ReadFrame = z.infer<typeof ReadFrameSchema>;
+export type SendMessageFrame = z.infer<typeof SendMessageFrameSchema>;
+export type ActivityFrame = z.infer<typeof ActivityFrameSchema>;
+export type RealtimeClientFrame = z.infer<typeof RealtimeClientFrameSchema>;
@@ -29,16 +29,18 @@ export const UserSchema = z.object({
 
 export const MessageSchema = z.object({
   id: z.string().uuid(),
-  content: z
-    .string()
-    .min(1, 'Message cannot be empty')
-    .max(5000, 'Message too long (max 5000 characters)'),
+  // empty once the message is deleted
+  content: z.string().max(5000, 'Message too long (max 5000 characters)'),
   sender_id: z.string().uuid(),
-  recipient_id: z.string().uuid(),
+  recipient_id: z.string().uuid().nullable(),
+  conversation_id: z.string().uuid(),
   status: z.enum(['sent', 'delivered', 'read']),
   created_at: z.date(),
   updated_at: z.date(),
   read_at: z.date().nullable(),
+  edited_at: z.date().nullable(),
+  deleted_at: z.date().nullable(),
+  reply_to_id: z.string().uuid().nullable(),
 });
 
 export const CreateUserSchema = z.object({
@@ -66,17 +68,90 @@ export const LoginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
-export const CreateMessageSchema = z.object({
+export const SessionIdSchema = z.string().uuid('Invalid session ID');
+
+export const RefreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required').max(128, 'Refresh token too long'),
+});
+
+export const CreateMessageSchema = z
+  .object({
+    content: z.string().max(5000, 'Message too long (max 5000 characters)').default(''),
+    conversation_id: z.string().uuid('Invalid conversation ID').optional(),
+    recipient_id: z.string().uuid('Invalid recipient ID').optional(),
+    reply_to_id: z.string().uuid('Invalid reply target ID').optional(),
+    attachment_ids: z
+      .array(z.string().uuid('Invalid attachment ID'))
+      .max(10, 'Too many attachments (max 10)')
+      .optional(),
+    // generated by the client and repeated on retries, so a message is only sent once
+    client_id: z.string().uuid('Invalid client ID').optional(),
+  })
+  .refine(message => Boolean(message.conversation_id || message.recipient_id), {
+    message: 'Either conversation_id or recipient_id is required',
+  })
+  .refine(message => message.content.trim().length > 0 || Boolean(message.attachment_ids?.length), {
+    message: 'Message cannot be empty',
+  });
+
+export const UploadAttachmentSchema = z.object({
+  conversation_id: z.string().uuid('Invalid conversation ID'),
+});
+
+export const AttachmentIdSchema = z.string().uuid('Invalid attachment ID');
+
+export const MessageIdSchema = z.string().uuid('Invalid message ID');
+
+export const EditMessageSchema = z.object({
   content: z
     .string()
     .min(1, 'Message cannot be empty')
     .max(5000, 'Message too long (max 5000 characters)'),
-  recipient_id: z.string().uuid('Invalid recipient ID'),
 });
 
-export const MessageFilterSchema = z.object({
-  limit: z.number().int().positive().max(100).default(50),
-  cursor: z.string().optional(),
+// a single emoji, including skin tone, flag and zero-width-joiner sequences
+const EMOJI_PATTERN =
+  /^(?=.*[\p{Extended_Pictographic}\p{Regional_Indicator}])[\p{Extended_Pictographic}\p{Emoji_Component}\u200d\ufe0f]+$/u;
+
+export const ReactionSchema = z.object({
+  emoji: z
+    .string()
+    .min(1, 'Emoji is required')
+    .max(32, 'Emoji too long')
+    .regex(EMOJI_PATTERN, 'Reaction must be an emoji'),
+});
+
+export const MarkReadSchema = z.object({
+  message_id: MessageIdSchema,
+});
+
+export const UserStatusSchema = z.enum(['available', 'busy', 'do-not-disturb']);
+
+export const SetStatusSchema = z.object({
+  status: UserStatusSchema,
+  message: z.string().trim().max(100, 'Status message too long (max 100 characters)').optional(),
+  expires_at: z
+    .string()
+    .datetime({ offset: true, message: 'Invalid expiry time' })
+    .refine(value => new Date(value).getTime() > Date.now(), 'Expiry must be in the future')
+    .optional(),
+});
+
+export const MessageSearchSchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(500, 'Search query too long'),
+  limit: z.coerce.number().int().positive().max(50).default(20),
+  cursor: z.string().max(200).optional(),
+});
+
+// `before` pages back to older messages, `after` catches up on newer ones;
+// both take a cursor from a previous page
+export const MessagePageSchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(50),
+  before: z.string().max(200).optional(),
+  after: z.string().max(200).optional(),
+});
+
+export const MessageFilterSchema = MessagePageSchema.extend({
   status: z.enum(['sent', 'delivered', 'read']).optional(),
 });
 
@@ -84,5 +159,14 @@ export type User = z.infer<typeof UserSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 export type CreateUser = z.infer<typeof CreateUserSchema>;
 export type LoginData = z.infer<typeof LoginSchema>;
+export type RefreshTokenRequest = z.infer<typeof RefreshTokenSchema>;
 export type CreateMessage = z.infer<typeof CreateMessageSchema>;
+export type EditMessage = z.infer<typeof EditMessageSchema>;
+export type Reaction = z.infer<typeof ReactionSchema>;
+export type UploadAttachment = z.infer<typeof UploadAttachmentSchema>;
+export type MessagePage = z.infer<typeof MessagePageSchema>;
 export type MessageFilter = z.infer<typeof MessageFilterSchema>;
+export type MessageSearch = z.infer<typeof MessageSearchSchema>;
+export type MarkRead = z.infer<typeof MarkReadSchema>;
+export type UserStatus = z.infer<typeof UserStatusSchema>;
+export type SetStatus = z.infer<typeof SetStatusSchema>;